@@ -14,43 +14,149 @@ import {
   ChevronRight,
   Loader2,
   ArrowLeft,
+  AlertTriangle,
+  RotateCcw,
+  Square,
+  Pencil,
+  History,
+  FileUp,
 } from 'lucide-react'
 import { MessageBubble } from '@/components/chat/MessageBubble'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import { CodeBlock } from '@/components/chat/CodeBlock'
+import {
+  CitedAnswer,
+  SessionList,
+  ReportExportButtons,
+  OutlineEditor,
+  SectionReworkPanel,
+  ReportJobList,
+  type SessionItem,
+  type ReportJobItem,
+  VerificationPanel,
+  TableResultPanel,
+  DocumentScopeSelector,
+  DocumentMetadataForm,
+  CollectionPanel,
+  DocumentIngestionStatus,
+  isIngestionPending,
+  DocumentVersionHistory,
+  isScoped,
+  type ScopeDocument,
+} from '@/components/agent'
+import { useAuth } from '@/contexts/AuthContext'
+import type { Citation, SearchFilters } from '@/lib/ragSearch'
+import type { OutlineSection } from '@/lib/agentPipeline'
+import type { AnswerVerification } from '@/lib/answerVerification'
+import type { TableQueryResult } from '@/lib/tableQuery'
+import type { DocumentMetadata } from '@/lib/documentMetadata'
+import type { CollectionWithRole } from '@/lib/collections'
+import type { IngestionStatus } from '@/lib/documentIngestion'
+import type { DocumentVersion } from '@/lib/documentVersions'
+import { readSSEStream } from '@/lib/sseClient'
+import { authHeaders } from '@/lib/authHeaders'
 
 interface AgentMessage {
   id: string
   content: string
   role: 'user' | 'assistant'
   created_at: string
+  citations?: Citation[]
+  outline?: OutlineSection[]
+  sources?: { doc: string; excerpt: string }[]
+  /** True when the message comes from cdc_agent_messages (its id is the stored row id). */
+  stored?: boolean
+  /** The generation was stopped; content is the partial answer */
+  stopped?: boolean
+  /** Claims checked against the sources (optional verification pass) */
+  verification?: AnswerVerification
+  /** Calculations run on tabular documents for the answer */
+  tableResults?: TableQueryResult[]
 }
 
 interface DocItem {
   id: string
+  collection_id?: string
   name: string
   file_type: string
   file_size: number
   chunk_count: number
   uploaded_at: string
+  tags?: string[] | null
+  year?: number | null
+  category?: string | null
+  author?: string | null
+  status?: IngestionStatus
+  progress?: number
+  error?: string | null
+  version?: number
+  version_group_id?: string
+  /** Pages read by OCR (scanned document) */
+  ocr_page_count?: number
 }
 
+/** File picker filter of the document panel: formats of lib/extractors (images are scans, read by OCR) */
+const DOCUMENT_ACCEPT =
+  '.pdf,.docx,.odt,.xlsx,.ods,.pptx,.html,.htm,.eml,.mbox,.txt,.md,.csv,.json,.png,.jpg,.jpeg,.tif,.tiff'
+
+/** Refresh interval of the document panel while uploads are being ingested */
+const INGESTION_POLL_MS = 1500
+
 type SSEPayload =
   | { type: 'status'; phase: string; message?: string; section?: number; total?: number; title?: string }
-  | { type: 'outline'; sections: { title: string; description?: string; search_queries?: string[] }[] }
+  | { type: 'outline'; sections: OutlineSection[]; awaitingApproval?: boolean }
   | { type: 'content'; text: string }
   | { type: 'sources'; chunks: { doc: string; excerpt: string }[] }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'verification'; verification: AnswerVerification }
+  | { type: 'table_results'; results: TableQueryResult[] }
+  | { type: 'job'; jobId: string }
+  | { type: 'session'; sessionId: string }
+  | { type: 'report_job'; reportJobId: string }
+  | { type: 'saved'; messageId: string }
   | { type: 'done' }
-  | { type: 'error'; message: string }
+  | { type: 'stopped' }
+  | { type: 'error'; message: string; code?: string; retryable?: boolean }
+
+/** Reconnection attempts after the stream of a running answer drops */
+const MAX_RECONNECTS = 5
+
+interface AgentRequest {
+  message: string
+  forceDeep?: boolean
+  reviewOutline?: boolean
+  /** Check the answer's claims against the sources once generated */
+  verify?: boolean
+  outline?: OutlineSection[]
+  /** Search only the documents in this scope */
+  filters?: SearchFilters
+  /** Re-run the last stored question after a failed answer */
+  retry?: boolean
+}
 
 export default function AgentPage() {
+  const { user } = useAuth()
+  const userId = user?.id || ''
   const [messages, setMessages] = useState<AgentMessage[]>([])
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sessions, setSessions] = useState<SessionItem[]>([])
+  const [sessionPanelOpen, setSessionPanelOpen] = useState(true)
+  const [reportJobs, setReportJobs] = useState<ReportJobItem[]>([])
+  const [jobPanelOpen, setJobPanelOpen] = useState(true)
   const [inputMessage, setInputMessage] = useState('')
   const [loading, setLoading] = useState(false)
   const [forceDeep, setForceDeep] = useState(false)
+  const [reviewOutline, setReviewOutline] = useState(false)
+  const [verifyAnswers, setVerifyAnswers] = useState(false)
+  const [pendingReview, setPendingReview] = useState<{ message: string; sections: OutlineSection[] } | null>(null)
+  const [failedRequest, setFailedRequest] = useState<{ request: AgentRequest; message: string } | null>(null)
   const [documents, setDocuments] = useState<DocItem[]>([])
   const [docPanelOpen, setDocPanelOpen] = useState(true)
+  const [editingDocId, setEditingDocId] = useState<string | null>(null)
+  const [historyDocId, setHistoryDocId] = useState<string | null>(null)
+  // Past versions picked from a history, offered in the scope selector next to the current documents
+  const [pinnedVersions, setPinnedVersions] = useState<ScopeDocument[]>([])
+  const [collections, setCollections] = useState<CollectionWithRole[]>([])
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null)
+  const [scope, setScope] = useState<SearchFilters>({})
   const [uploading, setUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
 
@@ -60,12 +166,17 @@ export default function AgentPage() {
   const [sectionProgress, setSectionProgress] = useState<{ section: number; total: number; title: string } | null>(null)
   const [streamingContent, setStreamingContent] = useState('')
   const [sources, setSources] = useState<{ doc: string; excerpt: string }[]>([])
+  const [citations, setCitations] = useState<Citation[]>([])
+  const [tableResults, setTableResults] = useState<TableQueryResult[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // In-flight /api/agent/chat request (bouton Arrêter): its job id once known, else the fetch to abort
+  const abortRef = useRef<AbortController | null>(null)
+  const jobRef = useRef<string | null>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
   const loadDocuments = useCallback(async () => {
     try {
-      const res = await fetch('/api/agent/documents')
+      const res = await fetch('/api/agent/documents', { headers: await authHeaders() })
       if (res.ok) {
         const { documents: docs } = await res.json()
         setDocuments(docs || [])
@@ -75,145 +186,460 @@ export default function AgentPage() {
     }
   }, [])
 
+  const loadCollections = useCallback(async () => {
+    try {
+      const res = await fetch('/api/agent/collections', { headers: await authHeaders() })
+      if (res.ok) {
+        const { collections: list } = await res.json()
+        setCollections(list || [])
+      }
+    } catch (e) {
+      console.warn('Failed to load collections', e)
+    }
+  }, [])
+
+  // Reload when the signed-in user changes: documents and collections depend on their access
   useEffect(() => {
     loadDocuments()
-  }, [loadDocuments])
+    loadCollections()
+  }, [loadDocuments, loadCollections, userId])
+
+  // Follow uploads being ingested until they are ready or failed
+  const pendingIds = documents.filter((d) => isIngestionPending(d.status)).map((d) => d.id).join(',')
+  useEffect(() => {
+    if (!pendingIds) return
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/agent/documents/status?ids=${encodeURIComponent(pendingIds)}`, {
+          headers: await authHeaders(),
+        })
+        if (!res.ok) return
+        const { documents: updates } = (await res.json()) as {
+          documents: Pick<DocItem, 'id' | 'status' | 'progress' | 'error' | 'chunk_count'>[]
+        }
+        const byId = new Map(updates.map((u) => [u.id, u]))
+        setDocuments((prev) => prev.map((d) => (byId.has(d.id) ? { ...d, ...byId.get(d.id) } : d)))
+        // A new version replaces the previous one in the list once ready
+        if (documents.some((d) => (d.version ?? 1) > 1 && byId.get(d.id)?.status === 'ready')) loadDocuments()
+      } catch (e) {
+        console.warn('Failed to refresh document status', e)
+      }
+    }, INGESTION_POLL_MS)
+    return () => clearTimeout(timer)
+  }, [pendingIds, documents, loadDocuments])
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/agent/sessions', { headers: await authHeaders() })
+      if (res.ok) {
+        const { sessions: list } = await res.json()
+        setSessions(list || [])
+      }
+    } catch (e) {
+      console.warn('Failed to load sessions', e)
+    }
+  }, [])
+
+  // Reload when the signed-in user changes
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions, userId])
+
+  const loadReportJobs = useCallback(async () => {
+    try {
+      const res = await fetch('/api/agent/jobs', { headers: await authHeaders() })
+      if (res.ok) {
+        const { jobs } = await res.json()
+        setReportJobs(jobs || [])
+      }
+    } catch (e) {
+      console.warn('Failed to load report jobs', e)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadReportJobs()
+  }, [loadReportJobs, userId])
+
+  const handleSelectSession = useCallback(
+    async (id: string, reload: boolean = false) => {
+      if (loading || (id === sessionId && !reload)) return
+      try {
+        const res = await fetch(`/api/agent/sessions/${encodeURIComponent(id)}`, { headers: await authHeaders() })
+        if (!res.ok) throw new Error('Failed to load session')
+        const { messages: stored } = await res.json()
+        setSessionId(id)
+        setPendingReview(null)
+        setFailedRequest(null)
+        setMessages(
+          (stored || []).map(
+            (m: AgentMessage & {
+              citations?: Citation[] | null
+              outline?: OutlineSection[] | null
+              sources?: { doc: string; excerpt: string }[] | null
+              verification?: AnswerVerification | null
+              table_results?: TableQueryResult[] | null
+            }) => ({
+              id: m.id,
+              content: m.content,
+              role: m.role,
+              created_at: m.created_at,
+              citations: m.citations || undefined,
+              outline: m.outline || undefined,
+              sources: m.sources || undefined,
+              stored: true,
+              stopped: m.stopped || undefined,
+              verification: m.verification || undefined,
+              tableResults: m.table_results || undefined,
+            })
+          )
+        )
+      } catch (e) {
+        console.warn('Failed to load session', e)
+      }
+    },
+    [loading, sessionId]
+  )
+
+  // Refresh the job list while reports run in the background; reload the open conversation when its report lands
+  const jobStatusRef = useRef<Record<string, ReportJobItem['status']>>({})
+  useEffect(() => {
+    const previous = jobStatusRef.current
+    jobStatusRef.current = Object.fromEntries(reportJobs.map((j) => [j.id, j.status]))
+    const landed = reportJobs.find(
+      (j) => j.status === 'done' && previous[j.id] && previous[j.id] !== 'done' && j.session_id === sessionId
+    )
+    if (landed && !loading) handleSelectSession(landed.session_id, true)
+
+    if (!reportJobs.some((j) => j.status === 'queued' || j.status === 'running')) return
+    const timer = setTimeout(loadReportJobs, 4000)
+    return () => clearTimeout(timer)
+  }, [reportJobs, sessionId, loading, loadReportJobs, handleSelectSession])
+
+  const handleSelectJob = useCallback(
+    (job: ReportJobItem) => handleSelectSession(job.session_id, job.status === 'done'),
+    [handleSelectSession]
+  )
+
+  const handleNewSession = useCallback(() => {
+    if (loading) return
+    setSessionId(null)
+    setMessages([])
+    setPendingReview(null)
+    setFailedRequest(null)
+  }, [loading])
+
+  const handleDeleteSession = useCallback(
+    async (id: string) => {
+      try {
+        const res = await fetch(`/api/agent/sessions/${encodeURIComponent(id)}`, {
+          method: 'DELETE',
+          headers: await authHeaders(),
+        })
+        if (!res.ok) return
+        setSessions((prev) => prev.filter((s) => s.id !== id))
+        if (id === sessionId) {
+          setSessionId(null)
+          setMessages([])
+        }
+      } catch (e) {
+        console.warn('Delete failed', e)
+      }
+    },
+    [sessionId]
+  )
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages, streamingContent, sectionProgress, outlineSections])
 
-  const handleUpload = useCallback(
-    async (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0]
-      if (!file) return
+  const uploadDocument = useCallback(
+    async (file: File, previousVersionId?: string) => {
       setUploadError(null)
       setUploading(true)
       try {
         const form = new FormData()
         form.append('file', file)
-        const res = await fetch('/api/agent/documents', { method: 'POST', body: form })
+        if (previousVersionId) form.append('previousVersionId', previousVersionId)
+        else if (activeCollectionId) form.append('collectionId', activeCollectionId)
+        const res = await fetch('/api/agent/documents', { method: 'POST', body: form, headers: await authHeaders() })
         const data = await res.json()
         if (!res.ok) throw new Error(data.error || 'Upload failed')
         setDocuments((prev) => [data.document, ...prev])
+        // The first upload may have created the user's personal collection
+        if (!activeCollectionId && !previousVersionId) loadCollections()
       } catch (err) {
         setUploadError(err instanceof Error ? err.message : 'Upload failed')
       } finally {
         setUploading(false)
-        e.target.value = ''
       }
     },
-    []
+    [activeCollectionId, loadCollections]
+  )
+
+  const handleUpload = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>, previousVersionId?: string) => {
+      const file = e.target.files?.[0]
+      e.target.value = ''
+      if (file) await uploadDocument(file, previousVersionId)
+    },
+    [uploadDocument]
   )
 
+  const handleAskVersion = useCallback((version: DocumentVersion) => {
+    setPinnedVersions((prev) =>
+      prev.some((d) => d.id === version.id)
+        ? prev
+        : [...prev, { id: version.id, collection_id: version.collection_id, name: `${version.name} (v${version.version})` }]
+    )
+    setScope({ documentIds: [version.id] })
+    inputRef.current?.focus()
+  }, [])
+
   const handleDeleteDoc = useCallback(async (id: string) => {
     try {
-      const res = await fetch(`/api/agent/documents?id=${encodeURIComponent(id)}`, { method: 'DELETE' })
-      if (res.ok) setDocuments((prev) => prev.filter((d) => d.id !== id))
+      const res = await fetch(`/api/agent/documents?id=${encodeURIComponent(id)}`, { method: 'DELETE', headers: await authHeaders() })
+      if (res.ok) {
+        setDocuments((prev) => prev.filter((d) => d.id !== id))
+        setPinnedVersions((prev) => prev.filter((d) => d.id !== id))
+        // Deleting a version brings the previous one back
+        if (documents.some((d) => d.id === id && (d.version ?? 1) > 1)) loadDocuments()
+        setScope((prev) => {
+          const documentIds = prev.documentIds?.filter((d) => d !== id)
+          return { ...prev, documentIds: documentIds && documentIds.length > 0 ? documentIds : undefined }
+        })
+      }
     } catch (e) {
       console.warn('Delete failed', e)
     }
-  }, [])
+  }, [documents, loadDocuments])
 
-  const handleSend = useCallback(async () => {
-    const text = inputMessage.trim()
-    if (!text || loading) return
+  const handleMetadataSaved = useCallback((id: string, metadata: DocumentMetadata) => {
+    setDocuments((prev) => prev.map((d) => (d.id === id ? { ...d, ...metadata } : d)))
+    setEditingDocId(null)
+  }, [])
 
-    const userMsg: AgentMessage = {
-      id: crypto.randomUUID(),
-      content: text,
-      role: 'user',
-      created_at: new Date().toISOString(),
-    }
-    setMessages((prev) => [...prev, userMsg])
-    setInputMessage('')
+  /**
+   * POST to /api/agent/chat and consume its SSE stream into the page state.
+   */
+  const runAgentRequest = useCallback(async (request: AgentRequest) => {
     setLoading(true)
+    setFailedRequest(null)
     setStatusPhase('search')
     setStatusMessage('Recherche dans les documents...')
     setOutlineSections([])
     setSectionProgress(null)
     setStreamingContent('')
     setSources([])
+    setCitations([])
+    setTableResults([])
 
-    try {
-      const res = await fetch('/api/agent/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: text, forceDeep }),
-      })
-      if (!res.ok) throw new Error('Request failed')
-      const reader = res.body?.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let fullContent = ''
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          buffer = lines.pop() || ''
-          for (const line of lines) {
-            if (!line.startsWith('data: ')) continue
-            try {
-              const payload = JSON.parse(line.slice(6)) as SSEPayload
-              if (payload.type === 'status') {
-                setStatusPhase(payload.phase)
-                setStatusMessage(payload.message || '')
-                if (payload.section != null && payload.total != null && payload.title) {
-                  setSectionProgress({ section: payload.section, total: payload.total, title: payload.title })
-                }
-              } else if (payload.type === 'outline') {
-                setOutlineSections(payload.sections || [])
-                setStatusPhase('plan')
-                setStatusMessage('Plan généré.')
-              } else if (payload.type === 'content') {
-                fullContent += payload.text
-                setStreamingContent(fullContent)
-              } else if (payload.type === 'sources') {
-                setSources(payload.chunks || [])
-              } else if (payload.type === 'error') {
-                fullContent += `\n\n*Erreur: ${payload.message}*\n`
-                setStreamingContent((prev) => prev + `\n\n*Erreur: ${payload.message}*`)
-              } else if (payload.type === 'done') {
-                if (fullContent.trim()) {
-                  const assistantMsg: AgentMessage = {
-                    id: crypto.randomUUID(),
-                    content: fullContent.trim(),
-                    role: 'assistant',
-                    created_at: new Date().toISOString(),
-                  }
-                  setMessages((prev) => [...prev, assistantMsg])
-                }
-                setStreamingContent('')
-                setStatusPhase(null)
-                setStatusMessage('')
-                setOutlineSections([])
-                setSectionProgress(null)
-              }
-            } catch (_) {}
-          }
+    const abortController = new AbortController()
+    abortRef.current = abortController
+    let fullContent = ''
+    let allCitations: Citation[] = []
+    let reportOutline: OutlineSection[] | undefined
+    let reportSources: { doc: string; excerpt: string }[] | undefined
+    let savedId: string | undefined
+    let verification: AnswerVerification | undefined
+    let computedTables: TableQueryResult[] | undefined
+    let stopped = false
+    let errorMessage: string | undefined
+    // Resumable stream: the job id and the last event received let a dropped connection pick up where it left off
+    let jobId = null as string | null
+    let lastEventId: string | undefined
+    let finished = false as boolean
+
+    // Keep the answer (partial when stopped) as a message
+    const addAssistantMessage = () => {
+      if (!fullContent.trim()) return
+      const assistantMsg: AgentMessage = {
+        id: savedId ?? crypto.randomUUID(),
+        content: fullContent.trim(),
+        role: 'assistant',
+        created_at: new Date().toISOString(),
+        citations: allCitations,
+        outline: reportOutline,
+        sources: reportSources,
+        stored: savedId != null,
+        stopped: stopped || undefined,
+        verification,
+        tableResults: computedTables,
+      }
+      setMessages((prev) => [...prev, assistantMsg])
+    }
+    const resetProgress = () => {
+      setStreamingContent('')
+      setStatusPhase(null)
+      setStatusMessage('')
+      setOutlineSections([])
+      setSectionProgress(null)
+      setTableResults([])
+    }
+
+    const handleEvent = (payload: SSEPayload, id?: string) => {
+      if (id) lastEventId = id
+      if (payload.type === 'job') {
+        jobId = payload.jobId
+        jobRef.current = payload.jobId
+      } else if (payload.type === 'session') {
+        setSessionId(payload.sessionId)
+      } else if (payload.type === 'report_job') {
+        loadReportJobs()
+      } else if (payload.type === 'saved') {
+        savedId = payload.messageId
+      } else if (payload.type === 'status') {
+        setStatusPhase(payload.phase)
+        setStatusMessage(payload.message || '')
+        if (payload.section != null && payload.total != null && payload.title) {
+          setSectionProgress({ section: payload.section, total: payload.total, title: payload.title })
+        }
+      } else if (payload.type === 'outline' && payload.awaitingApproval) {
+        setPendingReview({ message: request.message, sections: payload.sections || [] })
+      } else if (payload.type === 'outline') {
+        setOutlineSections(payload.sections || [])
+        reportOutline = payload.sections || []
+        setStatusPhase('plan')
+        setStatusMessage('Plan généré.')
+      } else if (payload.type === 'content') {
+        fullContent += payload.text
+        setStreamingContent(fullContent)
+      } else if (payload.type === 'sources') {
+        setSources(payload.chunks || [])
+        reportSources = payload.chunks || []
+      } else if (payload.type === 'citations') {
+        allCitations = [...allCitations, ...(payload.citations || [])]
+        setCitations(allCitations)
+      } else if (payload.type === 'verification') {
+        verification = payload.verification
+      } else if (payload.type === 'table_results') {
+        computedTables = payload.results || []
+        setTableResults(computedTables)
+      } else if (payload.type === 'error') {
+        errorMessage = payload.message
+      } else if (payload.type === 'stopped') {
+        stopped = true
+      } else if (payload.type === 'done') {
+        finished = true
+        // A failed answer is not shown as a message (nor stored): the user gets a retry button
+        if (errorMessage) {
+          setFailedRequest({ request, message: errorMessage })
+        } else {
+          addAssistantMessage()
         }
+        resetProgress()
       }
+    }
+    const follow = async (res: Response) => {
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Request failed')
+      }
+      await readSSEStream<SSEPayload>(res, handleEvent)
+    }
+
+    try {
+      try {
+        await follow(
+          await fetch('/api/agent/chat', {
+            method: 'POST',
+            signal: abortController.signal,
+            headers: await authHeaders({ 'Content-Type': 'application/json' }),
+            body: JSON.stringify({ ...request, sessionId }),
+          })
+        )
+      } catch (err) {
+        if (!jobId || abortController.signal.aborted) throw err
+      }
+
+      // Connection dropped (network, sleep...): reconnect to the job and replay the missed events
+      for (let attempt = 0; !finished && jobId && attempt < MAX_RECONNECTS; attempt++) {
+        setStatusMessage('Connexion perdue, reprise de la génération...')
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt))
+        const res = await fetch(`/api/agent/chat?jobId=${encodeURIComponent(jobId)}`, {
+          signal: abortController.signal,
+          headers: await authHeaders(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        }).catch((err) => {
+          if (abortController.signal.aborted) throw err
+          return null
+        })
+        if (!res) continue
+        // The job expired or lives on another server instance: nothing left to resume
+        if (res.status === 404) break
+        await follow(res).catch((err) => {
+          if (abortController.signal.aborted) throw err
+        })
+      }
+      if (!finished) throw new Error('La connexion au serveur a été perdue pendant la génération.')
     } catch (err) {
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: crypto.randomUUID(),
-          content: `Désolé, une erreur s'est produite: ${err instanceof Error ? err.message : 'Erreur inconnue'}.`,
-          role: 'assistant',
-          created_at: new Date().toISOString(),
-        },
-      ])
+      if (abortController.signal.aborted) {
+        // Stopped before the job id arrived: keep whatever was received
+        stopped = true
+        addAssistantMessage()
+        resetProgress()
+        return
+      }
+      setFailedRequest({ request, message: err instanceof Error ? err.message : 'Erreur inconnue' })
       setStatusPhase(null)
       setStreamingContent('')
     } finally {
+      abortRef.current = null
+      jobRef.current = null
       setLoading(false)
+      loadSessions()
+      loadReportJobs()
     }
-  }, [inputMessage, loading, forceDeep])
+  }, [sessionId, loadSessions, loadReportJobs])
 
-  const totalChunks = documents.reduce((acc, d) => acc + (d.chunk_count || 0), 0)
+  const handleSend = useCallback(async () => {
+    const text = inputMessage.trim()
+    if (!text || loading) return
+
+    const userMsg: AgentMessage = {
+      id: crypto.randomUUID(),
+      content: text,
+      role: 'user',
+      created_at: new Date().toISOString(),
+    }
+    setMessages((prev) => [...prev, userMsg])
+    setInputMessage('')
+    setPendingReview(null)
+    const filters = isScoped(scope) ? scope : undefined
+    await runAgentRequest({ message: text, forceDeep, reviewOutline, verify: verifyAnswers, filters })
+  }, [inputMessage, loading, forceDeep, reviewOutline, verifyAnswers, scope, runAgentRequest])
+
+  const handleApproveOutline = useCallback(
+    async (sections: OutlineSection[]) => {
+      if (!pendingReview || loading) return
+      const { message } = pendingReview
+      setPendingReview(null)
+      await runAgentRequest({ message, outline: sections, verify: verifyAnswers, filters: isScoped(scope) ? scope : undefined })
+    },
+    [pendingReview, loading, verifyAnswers, scope, runAgentRequest]
+  )
+
+  const handleStop = useCallback(() => {
+    const jobId = jobRef.current
+    if (!jobId) {
+      abortRef.current?.abort()
+      return
+    }
+    // The job ends with `stopped` then `done`, once the partial answer is stored
+    authHeaders()
+      .then((headers) => fetch(`/api/agent/chat?jobId=${encodeURIComponent(jobId)}`, { method: 'DELETE', headers }))
+      .catch(() => abortRef.current?.abort())
+  }, [])
+
+  const handleRetry = useCallback(async () => {
+    if (!failedRequest || loading) return
+    await runAgentRequest({ ...failedRequest.request, retry: true })
+  }, [failedRequest, loading, runAgentRequest])
+
+  const visibleDocuments = activeCollectionId ? documents.filter((d) => d.collection_id === activeCollectionId) : documents
+  const totalChunks = visibleDocuments.reduce((acc, d) => acc + (d.chunk_count || 0), 0)
+  const roleOf = (collectionId?: string) => collections.find((c) => c.id === collectionId)?.role
+  const activeCollection = collections.find((c) => c.id === activeCollectionId)
+  const canUpload = !activeCollection || activeCollection.role !== 'viewer'
 
   return (
     <div className="h-screen bg-zinc-950 flex flex-col overflow-hidden">
@@ -237,8 +663,23 @@ export default function AgentPage() {
       </header>
 
       <div className="flex flex-1 min-h-0">
-        {/* Document panel */}
+        {/* Conversations + document panel */}
         <div className="w-72 border-r border-zinc-800 bg-zinc-900/50 flex flex-col shrink-0">
+          <SessionList
+            sessions={sessions}
+            activeId={sessionId}
+            isOpen={sessionPanelOpen}
+            onToggle={() => setSessionPanelOpen((o) => !o)}
+            onSelect={handleSelectSession}
+            onNew={handleNewSession}
+            onDelete={handleDeleteSession}
+          />
+          <ReportJobList
+            jobs={reportJobs}
+            isOpen={jobPanelOpen}
+            onToggle={() => setJobPanelOpen((o) => !o)}
+            onSelect={handleSelectJob}
+          />
           <button
             onClick={() => setDocPanelOpen((o) => !o)}
             className="flex items-center justify-between w-full px-4 py-3 text-left text-sm font-medium text-zinc-300 hover:bg-zinc-800/50"
@@ -247,7 +688,7 @@ export default function AgentPage() {
               {docPanelOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
               Base de documents
             </span>
-            <span className="text-zinc-500 text-xs">{documents.length} doc.</span>
+            <span className="text-zinc-500 text-xs">{visibleDocuments.length} doc.</span>
           </button>
           <AnimatePresence>
             {docPanelOpen && (
@@ -257,40 +698,116 @@ export default function AgentPage() {
                 exit={{ height: 0, opacity: 0 }}
                 className="flex flex-col overflow-hidden"
               >
-                <div className="px-3 pb-2">
-                  <label className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg cursor-pointer hover:bg-zinc-700 transition-colors text-sm text-zinc-300">
-                    <Upload className="w-4 h-4" />
-                    {uploading ? 'Envoi...' : 'Ajouter un document'}
-                    <input
-                      type="file"
-                      accept=".pdf,.docx,.txt,.md,.csv,.json"
-                      className="hidden"
-                      onChange={handleUpload}
-                      disabled={uploading}
-                    />
-                  </label>
+                <div className="px-3 pb-2 space-y-2">
+                  <CollectionPanel
+                    collections={collections}
+                    activeId={activeCollectionId}
+                    onSelect={setActiveCollectionId}
+                    onChanged={() => {
+                      loadCollections()
+                      loadDocuments()
+                    }}
+                  />
+                  {canUpload ? (
+                    <label className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg cursor-pointer hover:bg-zinc-700 transition-colors text-sm text-zinc-300">
+                      <Upload className="w-4 h-4" />
+                      {uploading ? 'Envoi...' : 'Ajouter un document'}
+                      <input
+                        type="file"
+                        accept={DOCUMENT_ACCEPT}
+                        className="hidden"
+                        onChange={handleUpload}
+                        disabled={uploading}
+                      />
+                    </label>
+                  ) : (
+                    <p className="text-xs text-zinc-500">Accès en lecture seule à cette collection.</p>
+                  )}
                   {uploadError && <p className="text-xs text-red-400 mt-1">{uploadError}</p>}
                   <p className="text-xs text-zinc-500 mt-1">{totalChunks} extraits indexés</p>
                 </div>
                 <div className="flex-1 overflow-y-auto scrollbar-thin px-2 space-y-1">
-                  {documents.map((doc) => (
-                    <div
-                      key={doc.id}
-                      className="flex items-center gap-2 py-2 px-2 rounded-lg hover:bg-zinc-800/50 group"
-                    >
-                      <FileText className="w-4 h-4 text-zinc-500 shrink-0" />
-                      <span className="flex-1 text-xs text-zinc-300 truncate" title={doc.name}>
-                        {doc.name}
-                      </span>
-                      <span className="text-xs text-zinc-500">{doc.chunk_count}</span>
-                      <button
-                        onClick={() => handleDeleteDoc(doc.id)}
-                        className="p-1 rounded text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
-                      >
-                        <Trash2 className="w-3.5 h-3.5" />
-                      </button>
-                    </div>
-                  ))}
+                  {visibleDocuments.map((doc) => {
+                    const canEdit = roleOf(doc.collection_id) !== 'viewer'
+                    const badges = [(doc.version ?? 1) > 1 ? `v${doc.version}` : null, doc.ocr_page_count ? 'OCR' : null, doc.year ? String(doc.year) : null, doc.category, doc.author, ...(doc.tags ?? []).map((t) => `#${t}`)]
+                      .filter((b): b is string => !!b)
+                    return (
+                      <div key={doc.id} className="py-2 px-2 rounded-lg hover:bg-zinc-800/50 group">
+                        <div className="flex items-center gap-2">
+                          <FileText className="w-4 h-4 text-zinc-500 shrink-0" />
+                          <span className="flex-1 text-xs text-zinc-300 truncate" title={doc.name}>
+                            {doc.name}
+                          </span>
+                          {doc.status === 'ready' || !doc.status ? (
+                            <span className="text-xs text-zinc-500">{doc.chunk_count}</span>
+                          ) : null}
+                          {(doc.version ?? 1) > 1 && (
+                            <button
+                              onClick={() => setHistoryDocId((id) => (id === doc.id ? null : doc.id))}
+                              className={`p-1 rounded hover:text-zinc-200 ${historyDocId === doc.id ? 'text-zinc-200' : 'text-zinc-500 opacity-0 group-hover:opacity-100'}`}
+                              title="Historique des versions"
+                            >
+                              <History className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                          {canEdit && (
+                            <>
+                              {doc.status === 'ready' && (
+                                <label
+                                  className="p-1 rounded text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100 cursor-pointer"
+                                  title="Ajouter une nouvelle version"
+                                >
+                                  <FileUp className="w-3.5 h-3.5" />
+                                  <input
+                                    type="file"
+                                    accept={DOCUMENT_ACCEPT}
+                                    className="hidden"
+                                    onChange={(e) => handleUpload(e, doc.id)}
+                                    disabled={uploading}
+                                  />
+                                </label>
+                              )}
+                              <button
+                                onClick={() => setEditingDocId((id) => (id === doc.id ? null : doc.id))}
+                                className="p-1 rounded text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100"
+                                title="Modifier les métadonnées"
+                              >
+                                <Pencil className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteDoc(doc.id)}
+                                className="p-1 rounded text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                        {doc.status && (
+                          <DocumentIngestionStatus status={doc.status} progress={doc.progress ?? 0} error={doc.error} />
+                        )}
+                        {historyDocId === doc.id && <DocumentVersionHistory documentId={doc.id} onAsk={handleAskVersion} />}
+                        {editingDocId === doc.id ? (
+                          <DocumentMetadataForm
+                            documentId={doc.id}
+                            metadata={{ tags: doc.tags ?? [], year: doc.year ?? null, category: doc.category ?? null, author: doc.author ?? null }}
+                            onSaved={(metadata) => handleMetadataSaved(doc.id, metadata)}
+                            onCancel={() => setEditingDocId(null)}
+                          />
+                        ) : (
+                          badges.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1 pl-6">
+                              {badges.map((badge) => (
+                                <span key={badge} className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] text-zinc-400">
+                                  {badge}
+                                </span>
+                              ))}
+                            </div>
+                          )
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               </motion.div>
             )}
@@ -318,7 +835,7 @@ export default function AgentPage() {
                     <div className="max-w-lg mx-auto p-4 rounded-xl bg-amber-500/10 border border-amber-500/30 text-left">
                       <p className="text-sm text-amber-200/90 font-medium mb-1">Aucun document dans la base</p>
                       <p className="text-xs text-zinc-400">
-                        Ajoutez d&apos;abord des PDF, DOCX ou TXT via le panneau <strong>« Base de documents »</strong> à gauche (bouton « Ajouter un document »). L&apos;agent ne utilise pas les fichiers envoyés dans le chat principal — uniquement ceux ajoutés ici.
+                        Ajoutez d&apos;abord des PDF, DOCX, tableurs (CSV, XLSX) ou TXT via le panneau <strong>« Base de documents »</strong> à gauche (bouton « Ajouter un document »). L&apos;agent ne utilise pas les fichiers envoyés dans le chat principal — uniquement ceux ajoutés ici.
                       </p>
                     </div>
                   )}
@@ -326,14 +843,89 @@ export default function AgentPage() {
               )}
 
               <div className="space-y-6">
-                {messages.map((msg) => (
-                  <MessageBubble
-                    key={msg.id}
-                    message={msg}
-                    onCopy={() => {}}
-                    isStreaming={false}
+                {messages.map((msg, index) =>
+                  msg.role === 'assistant' && (msg.citations?.length || msg.outline?.length || msg.tableResults?.length) ? (
+                    <div key={msg.id} className="flex gap-4">
+                      <div className="w-8 h-8 rounded-lg bg-zinc-800 border border-zinc-700 flex items-center justify-center shrink-0">
+                        <MessageCircle className="w-4 h-4 text-zinc-400" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="message-assistant px-4 py-3 rounded-xl border border-zinc-800 prose prose-invert prose-sm max-w-none">
+                          <CitedAnswer content={msg.content} citations={msg.citations ?? []} />
+                          {msg.stopped && (
+                            <p className="not-prose flex items-center gap-1.5 mt-2 text-xs text-zinc-500">
+                              <Square className="w-3 h-3" />
+                              Génération interrompue
+                            </p>
+                          )}
+                        </div>
+                        {msg.tableResults?.map((result, i) => <TableResultPanel key={i} result={result} />)}
+                        {msg.verification && <VerificationPanel verification={msg.verification} />}
+                        {msg.outline && msg.outline.length > 0 && (
+                          <ReportExportButtons
+                            messageId={msg.stored ? msg.id : undefined}
+                            report={{
+                              title: messages[index - 1]?.role === 'user' ? messages[index - 1].content.slice(0, 120) : 'Rapport CDC',
+                              content: msg.content,
+                              outline: msg.outline,
+                              sources: msg.sources,
+                              citations: msg.citations,
+                            }}
+                          />
+                        )}
+                        {msg.stored && msg.outline && msg.outline.length > 0 && !loading && (
+                          <SectionReworkPanel
+                            messageId={msg.id}
+                            outline={msg.outline}
+                            onReportUpdated={(content, updatedCitations) =>
+                              setMessages((prev) =>
+                                prev.map((m) =>
+                                  // The reworked report has not been verified: the previous result no longer applies
+                                  m.id === msg.id ? { ...m, content, citations: updatedCitations, verification: undefined } : m
+                                )
+                              )
+                            }
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <MessageBubble
+                      key={msg.id}
+                      message={msg}
+                      onCopy={() => {}}
+                      isStreaming={false}
+                      stoppedLabel="Génération interrompue"
+                    />
+                  )
+                )}
+
+                {failedRequest && !loading && (
+                  <div className="flex items-start gap-3 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/20">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-red-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-red-300">La réponse n’a pas pu être générée.</p>
+                      <p className="text-xs text-red-400/80 mt-0.5 break-words">{failedRequest.message}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRetry}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 border border-zinc-700 text-xs text-zinc-200 hover:bg-zinc-700 transition-colors shrink-0"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Réessayer
+                    </button>
+                  </div>
+                )}
+
+                {pendingReview && !loading && (
+                  <OutlineEditor
+                    key={pendingReview.message}
+                    sections={pendingReview.sections}
+                    onApprove={handleApproveOutline}
+                    onCancel={() => setPendingReview(null)}
                   />
-                ))}
+                )}
 
                 {/* Thinking steps */}
                 {loading && (
@@ -344,10 +936,12 @@ export default function AgentPage() {
                           <div className="flex items-center gap-2 text-sm text-zinc-400">
                             <Loader2 className="w-4 h-4 animate-spin shrink-0" />
                             <span>
+                              {statusPhase === 'compute' && (statusMessage || 'Calcul sur les tableaux de données...')}
                               {statusPhase === 'search' && (statusMessage || 'Recherche dans les documents...')}
                               {statusPhase === 'plan' && (statusMessage || 'Élaboration du plan...')}
                               {statusPhase === 'generate' && sectionProgress &&
                                 `Section ${sectionProgress.section}/${sectionProgress.total}: ${sectionProgress.title}`}
+                              {statusPhase === 'verify' && (statusMessage || 'Vérification des affirmations...')}
                             </span>
                           </div>
                         )}
@@ -369,24 +963,17 @@ export default function AgentPage() {
                           <MessageCircle className="w-4 h-4 text-zinc-400" />
                         </div>
                         <div className="flex-1 message-assistant px-4 py-3 rounded-xl border border-zinc-800 prose prose-invert prose-sm max-w-none">
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            components={{
-                              code: (props: { node?: unknown; inline?: boolean; className?: string; children?: React.ReactNode }) => {
-                                const { inline, className, children } = props
-                                return inline ? (
-                                  <code className={className}>{children}</code>
-                                ) : (
-                                  <CodeBlock code={String(children).replace(/\n$/, '')} language={(className?.replace('language-', '').replace('lang-', '') || 'text')} />
-                                )
-                              },
-                            }}
-                          >
-                            {streamingContent}
-                          </ReactMarkdown>
+                          <CitedAnswer content={streamingContent} citations={citations} />
                         </div>
                       </div>
                     )}
+                    {tableResults.length > 0 && (
+                      <div className="ml-12">
+                        {tableResults.map((result, i) => (
+                          <TableResultPanel key={i} result={result} />
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -397,6 +984,13 @@ export default function AgentPage() {
 
           <div className="border-t border-zinc-800 bg-zinc-950 p-4">
             <div className="max-w-3xl mx-auto flex flex-col gap-2">
+              <DocumentScopeSelector
+                documents={[...documents, ...pinnedVersions]}
+                collections={collections}
+                filters={scope}
+                onChange={setScope}
+                disabled={loading}
+              />
               <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
                 <input
                   type="checkbox"
@@ -406,6 +1000,24 @@ export default function AgentPage() {
                 />
                 Mode rapport long (analyse multi-documents, plan puis sections)
               </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reviewOutline}
+                  onChange={(e) => setReviewOutline(e.target.checked)}
+                  className="rounded border-zinc-600 bg-zinc-800 text-white focus:ring-zinc-500"
+                />
+                Valider le plan avant la rédaction
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={verifyAnswers}
+                  onChange={(e) => setVerifyAnswers(e.target.checked)}
+                  className="rounded border-zinc-600 bg-zinc-800 text-white focus:ring-zinc-500"
+                />
+                Vérifier les affirmations après génération
+              </label>
               <div className="flex gap-3 p-3 bg-zinc-900 border border-zinc-800 rounded-2xl">
                 <textarea
                   ref={inputRef}
@@ -421,14 +1033,25 @@ export default function AgentPage() {
                   rows={2}
                   className="flex-1 bg-transparent text-zinc-100 placeholder:text-zinc-500 focus:outline-none resize-none min-h-[40px]"
                 />
-                <button
-                  type="button"
-                  onClick={() => handleSend()}
-                  disabled={loading || !inputMessage.trim()}
-                  className="p-2 rounded-lg bg-white text-zinc-900 hover:bg-zinc-200 transition-colors disabled:opacity-50 shrink-0"
-                >
-                  <Send className="w-5 h-5" />
-                </button>
+                {loading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="p-2 rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-200 hover:bg-zinc-700 transition-colors shrink-0"
+                    title="Arrêter la génération"
+                  >
+                    <Square className="w-5 h-5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleSend()}
+                    disabled={!inputMessage.trim()}
+                    className="p-2 rounded-lg bg-white text-zinc-900 hover:bg-zinc-200 transition-colors disabled:opacity-50 shrink-0"
+                  >
+                    <Send className="w-5 h-5" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
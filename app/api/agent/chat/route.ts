@@ -1,5 +1,29 @@
-import { NextRequest } from 'next/server'
-import { runPipeline, type SSEEvent } from '@/lib/agentPipeline'
+import { NextRequest, NextResponse } from 'next/server'
+import { runPipeline, detectRequestMode, toErrorEvent, type SSEEvent, type OutlineSection } from '@/lib/agentPipeline'
+import {
+  createAgentSession,
+  getAgentSession,
+  getAgentMessages,
+  appendAgentMessage,
+  toPipelineHistory,
+} from '@/lib/agentSessions'
+import type { ChatMessage } from '@/lib/replicate'
+import { normalizeSearchFilters, type Citation } from '@/lib/ragSearch'
+import type { AnswerVerification } from '@/lib/answerVerification'
+import type { TableQueryResult } from '@/lib/tableQuery'
+import { getLLMProvider } from '@/lib/llm'
+import { createUsageTracker } from '@/lib/usage'
+import { enqueueReportJob, claimReportJob, executeReportJob, followReportJob, processReportJobs } from '@/lib/reportJobs'
+import { scopeFiltersToUser } from '@/lib/collections'
+import { getRequestUserId } from '@/lib/requestAuth'
+import {
+  startStreamJob,
+  getStreamJob,
+  cancelStreamJob,
+  keepStreamJobAlive,
+  getLastEventId,
+  streamJobResponse,
+} from '@/lib/streamJobs'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -9,6 +33,17 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const message = typeof body.message === 'string' ? body.message.trim() : ''
     const forceDeep = body.forceDeep === true
+    const reviewOutline = body.reviewOutline === true
+    // An approved outline resumes a deep report paused for review; `message` is then the original request
+    const approvedOutline: OutlineSection[] | undefined = Array.isArray(body.outline) ? body.outline : undefined
+    // A retry re-runs the last stored question after a failed answer, without storing it twice
+    const retry = body.retry === true
+    // Check the answer's claims against the extracts once generated
+    const verify = body.verify === true
+    const userId = await getRequestUserId(request)
+    // Limit the search to some documents (selection, tags, category, author, years), always within
+    // the collections the caller can read
+    const filters = await scopeFiltersToUser(userId, normalizeSearchFilters(body.filters))
 
     if (!message) {
       return new Response(JSON.stringify({ error: 'Message is required' }), {
@@ -16,34 +51,117 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    const encoder = new TextEncoder()
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const event of runPipeline(message, { forceDeep })) {
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
-          }
-        } catch (err) {
-          console.error('Agent pipeline error:', err)
-          const errorEvent: SSEEvent = {
-            type: 'error',
-            message: err instanceof Error ? err.message : 'Pipeline error',
+    // Resume an existing session (its stored messages become the history) or start a new one
+    let sessionId: string | null = typeof body.sessionId === 'string' && body.sessionId ? body.sessionId : null
+    let history: ChatMessage[] = []
+    if (sessionId) {
+      const session = await getAgentSession(sessionId)
+      if (!session || session.user_id !== userId) {
+        return new Response(JSON.stringify({ error: 'Session not found' }), { status: 404 })
+      }
+      history = toPipelineHistory(await getAgentMessages(sessionId))
+    } else {
+      const session = await createAgentSession(userId, message)
+      sessionId = session?.id ?? null
+    }
+    const lastTurn = history[history.length - 1]
+    const resumesLastTurn = !!approvedOutline || (retry && lastTurn?.role === 'user' && lastTurn.content === message)
+    if (sessionId && !resumesLastTurn) {
+      await appendAgentMessage(sessionId, { role: 'user', content: message })
+    }
+    if (resumesLastTurn && lastTurn?.role === 'user') {
+      history = history.slice(0, -1)
+    }
+
+    const usage = createUsageTracker({ userId, route: 'agent', sessionId })
+    const llm = usage.wrap(getLLMProvider('agent'))
+
+    // The pipeline runs as a job: a dropped connection can resume with Last-Event-ID (see GET),
+    // Stop cancels it explicitly (see DELETE) and the partial answer is stored as stopped
+    const job = startStreamJob<SSEEvent>(userId, async function* (signal, jobId) {
+      let content = ''
+      let outline: OutlineSection[] | null = null
+      let sources: { doc: string; excerpt: string }[] | null = null
+      const citations: Citation[] = []
+      let verification: AnswerVerification | null = null
+      let tableResults: TableQueryResult[] | null = null
+      let saveAttempted = false
+      let failed = false
+      let stopped = false
+      const saveAnswer = async () => {
+        // A failed answer is not stored: the client offers a retry instead
+        if (saveAttempted || failed || !sessionId || !content.trim()) return null
+        saveAttempted = true
+        return appendAgentMessage(sessionId, {
+          role: 'assistant',
+          content: content.trim(),
+          mode: outline ? 'deep' : 'quick',
+          outline,
+          sources,
+          citations,
+          stopped,
+          verification,
+          table_results: tableResults,
+          filters,
+        })
+      }
+      try {
+        yield { type: 'job', jobId }
+        if (sessionId) yield { type: 'session', sessionId }
+
+        // Deep reports run as persisted jobs (lib/reportJobs); the plan review pass stays inline
+        let mode: 'quick' | 'deep' | undefined
+        if (sessionId && !(reviewOutline && !approvedOutline)) {
+          mode = forceDeep || approvedOutline
+            ? 'deep'
+            : await detectRequestMode(message, { history, llm, signal }).catch(() => undefined)
+        }
+        const reportJob = mode === 'deep' && sessionId
+          ? await enqueueReportJob({ userId, sessionId, message, history, outline: approvedOutline, verify, filters })
+          : null
+        if (reportJob) {
+          yield { type: 'report_job', reportJobId: reportJob.id }
+          const claimed = await claimReportJob(reportJob.id)
+          if (claimed) {
+            // The report is persisted and listed in the jobs panel: closing the tab does not stop it
+            keepStreamJobAlive(jobId)
+            yield* executeReportJob(claimed, { signal })
+            // This request is a worker too: run the reports queued meanwhile
+            void processReportJobs().catch((err) => console.error('Report job worker error:', err))
+          } else {
+            // Another worker runs it: following is only polling, which stops once nobody listens
+            yield* followReportJob(reportJob.id, signal)
           }
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`))
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`))
-        } finally {
-          controller.close()
+          return
         }
-      },
-    })
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        Connection: 'keep-alive',
-      },
+        for await (const event of runPipeline(message, { forceDeep, mode, history, reviewOutline, outline: approvedOutline, llm, signal, verify, filters })) {
+          if (event.type === 'content') content += event.text
+          else if (event.type === 'outline' && !event.awaitingApproval) outline = event.sections
+          else if (event.type === 'sources') sources = event.chunks
+          else if (event.type === 'citations') citations.push(...event.citations)
+          else if (event.type === 'verification') verification = event.verification
+          else if (event.type === 'table_results') tableResults = event.results
+          else if (event.type === 'error') failed = true
+          else if (event.type === 'stopped') stopped = true
+          else if (event.type === 'done') {
+            // Save before `done` so the client learns the stored id (used by export and section regeneration)
+            const saved = await saveAnswer()
+            if (saved) yield { type: 'saved', messageId: saved.id }
+          }
+          yield event
+        }
+      } catch (err) {
+        console.error('Agent pipeline error:', err)
+        failed = true
+        yield toErrorEvent(err)
+        yield { type: 'done' }
+      } finally {
+        await saveAnswer()
+        await usage.flush()
+      }
     })
+    return streamJobResponse(job)
   } catch (err) {
     console.error('POST /api/agent/chat error:', err)
     return new Response(
@@ -52,3 +170,27 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+/**
+ * Resume a job's stream after a dropped connection (the caller's jobs only).
+ * Query: ?jobId=...; the `Last-Event-ID` header (or ?lastEventId=) gives the last event received.
+ */
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId') ?? ''
+  const job = jobId ? getStreamJob<SSEEvent>(jobId, await getRequestUserId(request)) : null
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found or expired' }, { status: 404 })
+  }
+  return streamJobResponse(job, getLastEventId(request))
+}
+
+/**
+ * Stop a running job of the caller (?jobId=...); its stream ends with `stopped` then `done`.
+ */
+export async function DELETE(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId') ?? ''
+  if (!cancelStreamJob(jobId, await getRequestUserId(request))) {
+    return NextResponse.json({ error: 'Job not found or already finished' }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
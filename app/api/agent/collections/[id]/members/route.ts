@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getCollectionRole,
+  hasCollectionRole,
+  isCollectionRole,
+  listCollectionMembers,
+  setCollectionMember,
+  removeCollectionMember,
+} from '@/lib/collections'
+import { supabase } from '@/lib/supabaseClient'
+import { getRequestUserId, ANONYMOUS_USER_ID } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+async function ownerOf(collectionId: string): Promise<string | null> {
+  const { data } = await supabase.from('cdc_collections').select('owner_id').eq('id', collectionId).maybeSingle()
+  return data?.owner_id ?? null
+}
+
+// List the members of a collection (any member)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (!(await getCollectionRole(params.id, userId))) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    const members = await listCollectionMembers(params.id)
+    return NextResponse.json({ members })
+  } catch (err) {
+    console.error('GET /api/agent/collections/[id]/members error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Add a member or change their role (admin). Body: { userId, role: 'viewer' | 'editor' | 'admin' }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const role = await getCollectionRole(params.id, userId)
+    if (!role) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!hasCollectionRole(role, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const body = await request.json()
+    const memberId = typeof body.userId === 'string' ? body.userId.trim() : ''
+    if (!memberId || !isCollectionRole(body.role)) {
+      return NextResponse.json({ error: 'userId and a valid role are required' }, { status: 400 })
+    }
+    // The owner stays admin whatever their member row says
+    if (memberId === (await ownerOf(params.id))) {
+      return NextResponse.json({ error: 'The owner role cannot be changed' }, { status: 400 })
+    }
+    const member = await setCollectionMember(params.id, memberId, body.role)
+    if (!member) {
+      return NextResponse.json({ error: 'Failed to save member' }, { status: 500 })
+    }
+    return NextResponse.json({ member })
+  } catch (err) {
+    console.error('POST /api/agent/collections/[id]/members error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Remove a member (admin, or a member leaving). Query: ?userId=
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const memberId = request.nextUrl.searchParams.get('userId') ?? ''
+    const role = await getCollectionRole(params.id, userId)
+    if (!role) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!memberId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+    if (memberId !== userId && !hasCollectionRole(role, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    if (memberId === (await ownerOf(params.id))) {
+      return NextResponse.json({ error: 'The owner cannot be removed' }, { status: 400 })
+    }
+    const ok = await removeCollectionMember(params.id, memberId)
+    if (!ok) {
+      return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/agent/collections/[id]/members error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getCollectionRole,
+  hasCollectionRole,
+  updateCollection,
+  deleteCollection,
+  SHARED_COLLECTION_ID,
+} from '@/lib/collections'
+import { getRequestUserId, ANONYMOUS_USER_ID } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+// Rename or describe a collection (admin). Body: { name?, description? }
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const role = await getCollectionRole(params.id, userId)
+    if (!role) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!hasCollectionRole(role, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const body = await request.json()
+    const patch: { name?: string; description?: string | null } = {}
+    if (typeof body.name === 'string' && body.name.trim()) patch.name = body.name.trim().slice(0, 100)
+    if (body.description !== undefined) {
+      patch.description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null
+    }
+    const collection = await updateCollection(params.id, patch)
+    if (!collection) {
+      return NextResponse.json({ error: 'Failed to update collection' }, { status: 500 })
+    }
+    return NextResponse.json({ collection: { ...collection, role } })
+  } catch (err) {
+    console.error('PATCH /api/agent/collections/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Delete a collection with its documents (admin)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const role = await getCollectionRole(params.id, userId)
+    if (!role) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    if (!hasCollectionRole(role, 'admin') || params.id === SHARED_COLLECTION_ID) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const ok = await deleteCollection(params.id)
+    if (!ok) {
+      return NextResponse.json({ error: 'Failed to delete collection' }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/agent/collections/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
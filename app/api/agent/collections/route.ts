@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listUserCollections, createCollection } from '@/lib/collections'
+import { getRequestUserId, ANONYMOUS_USER_ID } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_NAME_CHARS = 100
+
+// List the caller's collections with their role
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const collections = await listUserCollections(userId)
+    return NextResponse.json({ collections })
+  } catch (err) {
+    console.error('GET /api/agent/collections error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Create a collection owned by the caller. Body: { name, description? }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, MAX_NAME_CHARS) : ''
+    const description = typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null
+    if (!name) {
+      return NextResponse.json({ error: 'Collection name is required' }, { status: 400 })
+    }
+    const collection = await createCollection(userId, name, description)
+    if (!collection) {
+      return NextResponse.json({ error: 'Failed to create collection' }, { status: 500 })
+    }
+    return NextResponse.json({ collection: { ...collection, role: 'admin' } })
+  } catch (err) {
+    console.error('POST /api/agent/collections error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
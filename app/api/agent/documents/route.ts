@@ -1,22 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabaseClient'
-import { processDocument } from '@/lib/documentProcessor'
-
-const ALLOWED_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'text/plain',
-  'text/markdown',
-  'text/csv',
-  'application/json',
-]
+import { enqueueDocumentIngestion, processDocumentIngestions, INGESTION_BUCKET } from '@/lib/documentIngestion'
+import { contentHash, findDuplicateDocument, settleVersionGroup } from '@/lib/documentVersions'
+import { findDocumentExtractor, supportedDocumentExtensions } from '@/lib/extractors'
+import { sanitizeDocumentMetadata, type DocumentMetadata } from '@/lib/documentMetadata'
+import { listUserCollections, getCollectionRole, getDefaultUploadCollection, hasCollectionRole } from '@/lib/collections'
+import { getRequestUserId, ANONYMOUS_USER_ID } from '@/lib/requestAuth'
+
+export const runtime = 'nodejs'
+
 const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25MB
+const DOCUMENT_COLUMNS = 'id, collection_id, name, file_type, file_size, chunk_count, uploaded_at, tags, year, category, author, status, progress, error, version, version_group_id, ocr_page_count'
+
+/**
+ * Whether `userId` may edit a document (editor role in its collection); null when the document does not exist.
+ */
+async function canEditDocument(documentId: string, userId: string): Promise<boolean | null> {
+  const { data, error } = await supabase.from('cdc_documents').select('collection_id').eq('id', documentId).maybeSingle()
+  if (error) console.error('cdc_documents fetch error:', error)
+  if (!data) return null
+  return hasCollectionRole(await getCollectionRole(data.collection_id, userId), 'editor')
+}
 
-export async function GET() {
+/**
+ * Current versions of the documents of the caller's collections (optionally one: ?collectionId=).
+ */
+export async function GET(request: NextRequest) {
   try {
+    const userId = await getRequestUserId(request)
+    const collectionId = request.nextUrl.searchParams.get('collectionId')
+    const readable = (await listUserCollections(userId)).map((c) => c.id)
+    if (collectionId && !readable.includes(collectionId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
     const { data, error } = await supabase
       .from('cdc_documents')
-      .select('id, name, file_type, file_size, chunk_count, uploaded_at')
+      .select(DOCUMENT_COLUMNS)
+      .in('collection_id', collectionId ? [collectionId] : readable)
+      .is('superseded_at', null)
       .order('uploaded_at', { ascending: false })
 
     if (error) {
@@ -30,70 +51,119 @@ export async function GET() {
   }
 }
 
+/**
+ * Upload a document into a collection the caller can edit (form field collectionId, default: their
+ * first editable collection, created if needed), or as a new version of a document (form field
+ * previousVersionId, same collection). A file already in the collection is rejected (409). The file is
+ * stored and queued; the response (202) returns the document as 'uploaded' and ingestion continues in
+ * the background.
+ */
 export async function POST(request: NextRequest) {
   try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
     const formData = await request.formData()
     const file = formData.get('file') as File | null
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
-    if (!ALLOWED_TYPES.includes(file.type) && !file.name.toLowerCase().match(/\.(pdf|docx|txt|md|csv|json)$/)) {
-      return NextResponse.json({ error: 'File type not allowed. Use PDF, DOCX, TXT, MD, CSV, or JSON.' }, { status: 400 })
+    if (!findDocumentExtractor(file.type, file.name)) {
+      return NextResponse.json(
+        { error: `File type not allowed. Supported: ${supportedDocumentExtensions().join(', ')}` },
+        { status: 400 }
+      )
     }
     if (file.size > MAX_FILE_SIZE) {
       return NextResponse.json({ error: 'File too large (max 25MB)' }, { status: 400 })
     }
 
-    const buffer = Buffer.from(await file.arrayBuffer())
-    const processed = await processDocument(buffer, file.type, file.name, file.size)
+    const previousVersionId = formData.get('previousVersionId')
+    let previous: Record<string, unknown> | null = null
+    if (typeof previousVersionId === 'string' && previousVersionId) {
+      const { data, error } = await supabase
+        .from('cdc_documents')
+        .select('collection_id, version_group_id, tags, year, category, author')
+        .eq('id', previousVersionId)
+        .maybeSingle()
+      if (error) console.error('cdc_documents fetch error:', error)
+      if (!data) {
+        return NextResponse.json({ error: 'Previous version not found' }, { status: 404 })
+      }
+      previous = data
+    }
 
-    const { data: docRow, error: docError } = await supabase
-      .from('cdc_documents')
-      .insert({
-        name: processed.name,
-        file_type: processed.fileType,
-        file_size: processed.fileSize,
-        content_text: processed.contentText.slice(0, 500000),
-        chunk_count: processed.chunks.length,
-        uploaded_at: new Date().toISOString(),
-      })
-      .select('id')
-      .single()
-
-    if (docError || !docRow) {
-      console.error('cdc_documents insert error:', docError)
-      return NextResponse.json({ error: 'Failed to save document' }, { status: 500 })
+    // Optional metadata fields; tags are comma-separated. A new version inherits the previous one's.
+    const metadata: DocumentMetadata = {
+      tags: [],
+      year: null,
+      category: null,
+      author: null,
+      ...(previous && sanitizeDocumentMetadata(previous)),
+      ...sanitizeDocumentMetadata({
+        tags: formData.get('tags') ?? undefined,
+        year: formData.get('year') ?? undefined,
+        category: formData.get('category') ?? undefined,
+        author: formData.get('author') ?? undefined,
+      }),
     }
 
-    const documentId = docRow.id
-    const documentName = processed.name
-
-    if (processed.chunks.length > 0) {
-      const chunkRows = processed.chunks.map((chunk) => ({
-        document_id: documentId,
-        document_name: documentName,
-        content: chunk.content,
-        chunk_index: chunk.index,
-      }))
-      const { error: chunksError } = await supabase.from('cdc_chunks').insert(chunkRows)
-      if (chunksError) {
-        console.error('cdc_chunks insert error:', chunksError)
-        await supabase.from('cdc_documents').delete().eq('id', documentId)
-        return NextResponse.json({ error: 'Failed to save chunks' }, { status: 500 })
+    const requestedCollection = previous ? previous.collection_id : formData.get('collectionId')
+    let collectionId: string
+    if (typeof requestedCollection === 'string' && requestedCollection) {
+      if (!hasCollectionRole(await getCollectionRole(requestedCollection, userId), 'editor')) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
       }
+      collectionId = requestedCollection
+    } else {
+      const collection = await getDefaultUploadCollection(userId)
+      if (!collection) {
+        return NextResponse.json({ error: 'Failed to resolve a collection' }, { status: 500 })
+      }
+      collectionId = collection.id
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const hash = contentHash(buffer)
+    const duplicate = await findDuplicateDocument(collectionId, hash)
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `This file is already in the collection (${duplicate.name}, v${duplicate.version})`, duplicate },
+        { status: 409 }
+      )
+    }
+
+    let previousVersion: { version_group_id: string; version: number } | undefined
+    if (previous) {
+      // Number after the group's highest version, even when the one picked is older
+      const { data: latest } = await supabase
+        .from('cdc_documents')
+        .select('version')
+        .eq('version_group_id', previous.version_group_id)
+        .order('version', { ascending: false })
+        .limit(1)
+      previousVersion = { version_group_id: previous.version_group_id as string, version: latest?.[0]?.version ?? 1 }
     }
 
-    return NextResponse.json({
-      success: true,
-      document: {
-        id: documentId,
-        name: documentName,
-        file_type: processed.fileType,
-        file_size: processed.fileSize,
-        chunk_count: processed.chunks.length,
-        uploaded_at: new Date().toISOString(),
-      },
+    const document = await enqueueDocumentIngestion({
+      userId,
+      collectionId,
+      file,
+      buffer,
+      contentHash: hash,
+      metadata,
+      previousVersion,
     })
+    if (!document) {
+      return NextResponse.json({ error: 'Failed to save document' }, { status: 500 })
+    }
+
+    // Extraction and indexing run after the response; the client polls /api/agent/documents/status
+    void processDocumentIngestions().catch((err) => console.error('Document ingestion worker error:', err))
+
+    const { storage_path: _storagePath, attempts: _attempts, status_updated_at: _updatedAt, ...row } = document
+    return NextResponse.json({ success: true, document: row }, { status: 202 })
   } catch (err) {
     console.error('POST /api/agent/documents error:', err)
     return NextResponse.json(
@@ -103,18 +173,81 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
+    const body = await request.json()
+    const id = typeof body.id === 'string' ? body.id : ''
+    if (!id) {
+      return NextResponse.json({ error: 'Document id required' }, { status: 400 })
+    }
+    const allowed = await canEditDocument(id, userId)
+    if (allowed === null) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const metadata = sanitizeDocumentMetadata(body)
+    if (Object.keys(metadata).length === 0) {
+      return NextResponse.json({ error: 'No metadata to update' }, { status: 400 })
+    }
+    const { data, error } = await supabase
+      .from('cdc_documents')
+      .update(metadata)
+      .eq('id', id)
+      .select(DOCUMENT_COLUMNS)
+      .maybeSingle()
+    if (error) {
+      console.error('cdc_documents update error:', error)
+      return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    return NextResponse.json({ document: data })
+  } catch (err) {
+    console.error('PATCH /api/agent/documents error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
+    const userId = await getRequestUserId(request)
+    if (userId === ANONYMOUS_USER_ID) {
+      return NextResponse.json({ error: 'Sign-in required' }, { status: 401 })
+    }
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
     if (!id) {
       return NextResponse.json({ error: 'Document id required' }, { status: 400 })
     }
-    const { error } = await supabase.from('cdc_documents').delete().eq('id', id)
+    const allowed = await canEditDocument(id, userId)
+    if (allowed === null) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const { data: deleted, error } = await supabase
+      .from('cdc_documents')
+      .delete()
+      .eq('id', id)
+      .select('storage_path, version_group_id')
+      .maybeSingle()
     if (error) {
       console.error('cdc_documents delete error:', error)
       return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 })
     }
+    if (deleted?.storage_path) {
+      await supabase.storage.from(INGESTION_BUCKET).remove([deleted.storage_path])
+    }
+    // Deleting the current version makes the previous ready one current again
+    if (deleted?.version_group_id) await settleVersionGroup(deleted.version_group_id)
     return NextResponse.json({ success: true })
   } catch (err) {
     console.error('DELETE /api/agent/documents error:', err)
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabaseClient'
+import { readableCollectionIds } from '@/lib/collections'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_IDS = 100
+
+/**
+ * Ingestion progress of some documents (?ids=a,b,c), limited to the caller's collections:
+ * status (uploaded → extracting → chunking → indexing → ready/failed), percentage and error.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const ids = (request.nextUrl.searchParams.get('ids') || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .slice(0, MAX_IDS)
+    if (ids.length === 0) {
+      return NextResponse.json({ error: 'Document ids required' }, { status: 400 })
+    }
+    const { data, error } = await supabase
+      .from('cdc_documents')
+      .select('id, status, progress, error, chunk_count')
+      .in('id', ids)
+      .in('collection_id', await readableCollectionIds(userId))
+
+    if (error) {
+      console.error('cdc_documents status error:', error)
+      return NextResponse.json({ error: 'Failed to fetch document status' }, { status: 500 })
+    }
+    return NextResponse.json({ documents: data || [] })
+  } catch (err) {
+    console.error('GET /api/agent/documents/status error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabaseClient'
+import { getCollectionRole } from '@/lib/collections'
+import { listDocumentVersions } from '@/lib/documentVersions'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Version history of a document (?id= any of its versions), newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Document id required' }, { status: 400 })
+    }
+    const { data: doc, error } = await supabase
+      .from('cdc_documents')
+      .select('collection_id, version_group_id')
+      .eq('id', id)
+      .maybeSingle()
+    if (error) console.error('cdc_documents fetch error:', error)
+    if (!doc) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (!(await getCollectionRole(doc.collection_id, userId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    return NextResponse.json({ versions: await listDocumentVersions(doc.version_group_id) })
+  } catch (err) {
+    console.error('GET /api/agent/documents/versions error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
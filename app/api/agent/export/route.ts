@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAgentMessage, getAgentSession } from '@/lib/agentSessions'
+import { getRequestUserId } from '@/lib/requestAuth'
+import { renderReport, reportFileName, type ReportDocument, type ReportFormat } from '@/lib/reportExport'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+}
+
+/**
+ * Export a report as DOCX or PDF.
+ * Body: { format: 'docx' | 'pdf', messageId } for a stored report,
+ * or { format, report: { title, content, outline, sources?, citations? } } for one just streamed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const format: ReportFormat = body.format === 'pdf' ? 'pdf' : 'docx'
+
+    let report: ReportDocument | null = null
+    if (typeof body.messageId === 'string' && body.messageId) {
+      const message = await getAgentMessage(body.messageId)
+      const session = message ? await getAgentSession(message.session_id) : null
+      // Another user's report is reported as missing
+      if (!message || message.role !== 'assistant' || session?.user_id !== (await getRequestUserId(request))) {
+        return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+      }
+      report = {
+        title: session?.title || 'Rapport CDC',
+        content: message.content,
+        outline: message.outline || [],
+        sources: message.sources,
+        citations: message.citations,
+        createdAt: message.created_at,
+      }
+    } else if (body.report && typeof body.report.content === 'string' && body.report.content.trim()) {
+      report = {
+        title: typeof body.report.title === 'string' && body.report.title.trim() ? body.report.title.trim() : 'Rapport CDC',
+        content: body.report.content,
+        outline: Array.isArray(body.report.outline) ? body.report.outline : [],
+        sources: Array.isArray(body.report.sources) ? body.report.sources : null,
+        citations: Array.isArray(body.report.citations) ? body.report.citations : null,
+      }
+    }
+
+    if (!report) {
+      return NextResponse.json({ error: 'messageId or report is required' }, { status: 400 })
+    }
+
+    const file = await renderReport(report, format)
+    return new Response(new Uint8Array(file), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${reportFileName(report.title, format)}"`,
+        'Content-Length': String(file.length),
+      },
+    })
+  } catch (err) {
+    console.error('POST /api/agent/export error:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReportJob, followReportJob } from '@/lib/reportJobs'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Get a deep-report job of the caller. With ?follow=1, streams its progress as SSE (status events, then the
+ * stored report) until it is done or failed.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const job = await getReportJob(params.id)
+    // Another user's job is reported as missing
+    if (!job || job.user_id !== (await getRequestUserId(request))) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+    if (request.nextUrl.searchParams.get('follow') !== '1') {
+      return NextResponse.json({ job })
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          for await (const event of followReportJob(params.id, request.signal)) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          }
+        } catch {
+          // Client already gone
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (err) {
+    console.error('GET /api/agent/jobs/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listReportJobs, processReportJobs } from '@/lib/reportJobs'
+import { processDocumentIngestions } from '@/lib/documentIngestion'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// List the verified caller's deep-report jobs
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const jobs = await listReportJobs(userId)
+    return NextResponse.json({ jobs })
+  } catch (err) {
+    console.error('GET /api/agent/jobs error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Worker entry point (e.g. a cron): recover abandoned jobs and run queued ones, deep reports and
+ * document ingestions.
+ * When REPORT_JOB_WORKER_SECRET is set, requires `Authorization: Bearer <secret>`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.REPORT_JOB_WORKER_SECRET
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  try {
+    const documents = await processDocumentIngestions()
+    const processed = await processReportJobs()
+    return NextResponse.json({ processed, documents })
+  } catch (err) {
+    console.error('POST /api/agent/jobs error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server'
+import { regenerateSection, toErrorEvent, type SSEEvent } from '@/lib/agentPipeline'
+import { getAgentSession, getAgentMessage, getAgentMessages, updateAgentMessage, toPipelineHistory } from '@/lib/agentSessions'
+import { getReportSection, spliceReportSection } from '@/lib/reportSections'
+import { normalizeSearchFilters, type Citation } from '@/lib/ragSearch'
+import { getLLMProvider } from '@/lib/llm'
+import { createUsageTracker } from '@/lib/usage'
+import { scopeFiltersToUser } from '@/lib/collections'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Regenerate or extend one section of a stored deep report.
+ * Body: { messageId, sectionIndex, instructions?, searchQueries?, mode?: 'replace' | 'extend' }
+ * Streams the section like /api/agent/chat, then a `report` event with the spliced report, which is saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const messageId = typeof body.messageId === 'string' ? body.messageId : ''
+    const sectionIndex = typeof body.sectionIndex === 'number' ? body.sectionIndex : -1
+    const mode: 'replace' | 'extend' = body.mode === 'extend' ? 'extend' : 'replace'
+    const instructions = typeof body.instructions === 'string' ? body.instructions : undefined
+    const searchQueries = Array.isArray(body.searchQueries)
+      ? body.searchQueries.filter((q: unknown): q is string => typeof q === 'string')
+      : undefined
+
+    if (!messageId) {
+      return new Response(JSON.stringify({ error: 'messageId is required' }), { status: 400 })
+    }
+
+    const userId = await getRequestUserId(request)
+    const report = await getAgentMessage(messageId)
+    const session = report ? await getAgentSession(report.session_id) : null
+    const outline = report?.outline ?? []
+    // Another user's report is reported as missing
+    if (!report || report.role !== 'assistant' || outline.length === 0 || session?.user_id !== userId) {
+      return new Response(JSON.stringify({ error: 'Report not found' }), { status: 404 })
+    }
+    if (sectionIndex < 0 || sectionIndex >= outline.length) {
+      return new Response(JSON.stringify({ error: 'Invalid section index' }), { status: 400 })
+    }
+
+    // The report answers the user message right before it; earlier turns are its history
+    const sessionMessages = await getAgentMessages(report.session_id)
+    const position = sessionMessages.findIndex((m) => m.id === messageId)
+    const requestIndex = position > 0 && sessionMessages[position - 1].role === 'user' ? position - 1 : -1
+    const userMessage = requestIndex >= 0 ? sessionMessages[requestIndex].content : outline[sectionIndex].title
+    const history = requestIndex > 0 ? toPipelineHistory(sessionMessages.slice(0, requestIndex)) : []
+    const currentText = getReportSection(report.content, outline, sectionIndex)
+
+    const filters = await scopeFiltersToUser(userId, normalizeSearchFilters(report.filters))
+    const usage = createUsageTracker({ userId, route: 'agent', sessionId: report.session_id })
+
+    // A stopped regeneration leaves the stored report untouched (no partial section is spliced in)
+    const abort = new AbortController()
+    request.signal.addEventListener('abort', () => abort.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: SSEEvent) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          } catch {
+            // Client already gone
+          }
+        }
+        let sectionText = ''
+        let failed = false
+        const citations: Citation[] = [...(report.citations ?? [])]
+        try {
+          for await (const event of regenerateSection(userMessage, outline, sectionIndex, {
+            history,
+            citations: report.citations ?? [],
+            tableResults: report.table_results ?? [],
+            instructions,
+            searchQueries,
+            mode,
+            currentText: currentText ?? undefined,
+            llm: usage.wrap(getLLMProvider('agent')),
+            signal: abort.signal,
+            // Search the same documents as the original report, within what the caller can read now
+            filters,
+          })) {
+            if (event.type === 'content') sectionText += event.text
+            else if (event.type === 'citations') citations.push(...event.citations)
+            else if (event.type === 'error' || event.type === 'stopped') failed = true
+            else if (event.type === 'done' && !failed && sectionText.trim()) {
+              const newSection = mode === 'extend' && currentText
+                ? `${currentText}\n\n${sectionText.trim()}`
+                : sectionText
+              const content = spliceReportSection(report.content, outline, sectionIndex, newSection).trim()
+              const updated = await updateAgentMessage(messageId, { content, citations, verification: null })
+              if (updated) send({ type: 'report', messageId, content, citations })
+              else send({ type: 'error', message: 'La section a été régénérée mais le rapport n’a pas pu être enregistré.' })
+            }
+            send(event)
+          }
+        } catch (err) {
+          console.error('Section regeneration error:', err)
+          send(toErrorEvent(err))
+          send({ type: 'done' })
+        } finally {
+          await usage.flush()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by cancel()
+          }
+        }
+      },
+      cancel() {
+        abort.abort()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (err) {
+    console.error('POST /api/agent/sections error:', err)
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
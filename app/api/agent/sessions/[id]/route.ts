@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAgentSession, getAgentMessages, deleteAgentSession } from '@/lib/agentSessions'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+// Get a session of the caller with all its messages (to resume it)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getAgentSession(params.id)
+    // Another user's session is reported as missing
+    if (!session || session.user_id !== (await getRequestUserId(request))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+    const messages = await getAgentMessages(params.id)
+    return NextResponse.json({ session, messages })
+  } catch (err) {
+    console.error('GET /api/agent/sessions/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Delete a session of the caller and its messages
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getAgentSession(params.id)
+    if (!session || session.user_id !== (await getRequestUserId(request))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+    const ok = await deleteAgentSession(params.id)
+    if (!ok) {
+      return NextResponse.json({ error: 'Failed to delete session' }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error('DELETE /api/agent/sessions/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAgentSessions } from '@/lib/agentSessions'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+// List the agent sessions of the verified caller
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    const sessions = await listAgentSessions(userId)
+    return NextResponse.json({ sessions })
+  } catch (err) {
+    console.error('GET /api/agent/sessions error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,21 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { streamGPT5, ChatMessage } from '@/lib/replicate'
+import type { ChatMessage } from '@/lib/replicate'
+import { getLLMProvider, toLLMError } from '@/lib/llm'
 import { supabase } from '@/lib/supabaseClient'
-
-// Fixed UUID for anonymous users
-const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000'
+import { createUsageTracker } from '@/lib/usage'
+import { buildFileContext, type ProcessedFile } from '@/lib/fileProcessor'
+import { packContext, packedSection, summarizeHistory, type ContextItem } from '@/lib/contextBudget'
+import { getRequestUserId } from '@/lib/requestAuth'
 
 export async function POST(request: NextRequest) {
   try {
     const { 
       messages, 
       conversationId, 
-      userId = ANONYMOUS_USER_ID,
       settings = {},
+      files = [],
       fileContext = '',
       memoryContext = ''
     } = await request.json()
 
+    // Usage and stored messages are recorded for the verified caller
+    const userId = await getRequestUserId(request)
+
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json({ error: 'Messages array is required' }, { status: 400 })
     }
@@ -91,90 +96,182 @@ You have vision capabilities and can see images the user has attached. When proc
 7. Be thorough - don't skip any visible text`
     }
 
-    // Add memory context if available
-    if (memoryContext) {
-      systemPrompt += `\n\n${memoryContext}`
+    // Record the model calls of this request (flushed once the stream ends)
+    const usage = createUsageTracker({ userId, route: 'chat', conversationId: conversationId || null })
+    const llm = usage.wrap(getLLMProvider('chat'))
+
+    // Fit memories, attached files and history into the model's context window: smaller files are kept
+    // whole first, older messages go first, the current message is always sent
+    const attachedFiles: ProcessedFile[] = Array.isArray(files) ? files : []
+    const history: ChatMessage[] = messages.map((msg: any) => ({
+      role: msg.role,
+      content: typeof msg.content === 'string' ? msg.content : ''
+    }))
+    const items: ContextItem<string | number>[] = [{ section: 'system', text: systemPrompt, required: true }]
+    if (memoryContext) items.push({ section: 'memories', text: memoryContext, minTokens: 100 })
+    attachedFiles
+      .filter(f => f.content && !f.file_type.startsWith('image/'))
+      .forEach(f => items.push({ section: 'files', text: f.content!, value: -f.content!.length, minTokens: 200, ref: f.id }))
+    if (fileContext) items.push({ section: 'files', text: fileContext, minTokens: 200, ref: 'fileContext' })
+    history.forEach((m, i) => items.push({
+      section: 'history',
+      text: m.content,
+      value: i,
+      required: i === history.length - 1,
+      minTokens: 150,
+      ref: i
+    }))
+    const packed = packContext(items, {
+      capabilities: llm.capabilities,
+      outputTokens: settings.maxTokens || 4000,
+      truncationNote: '[... truncated to fit the context window ...]'
+    })
+
+    const memoryItem = packedSection(packed, 'memories')[0]
+    if (memoryItem) {
+      systemPrompt += `\n\n${memoryItem.text}`
     }
 
     // Add file context if available (contains document text from PDFs, etc.)
-    if (fileContext) {
-      systemPrompt += `\n\n${fileContext}`
+    const fileItems = packedSection(packed, 'files')
+    if (attachedFiles.length > 0) {
+      const maxChars: Record<string, number> = {}
+      attachedFiles.forEach(f => {
+        const kept = fileItems.find(item => item.ref === f.id)
+        if (f.content) maxChars[f.id] = kept ? kept.keptChars : 0
+      })
+      systemPrompt += `\n\n${buildFileContext(attachedFiles, maxChars)}`
+    }
+    const legacyFileContext = fileItems.find(item => item.ref === 'fileContext')
+    if (legacyFileContext) {
+      systemPrompt += `\n\n${legacyFileContext.text}`
+    }
+
+    // Messages left out are summarized in the budget left; without room for a summary (or if it fails)
+    // they are recalled by their questions, so the model knows the earlier topics
+    const keptHistory = packedSection(packed, 'history')
+    const droppedTurns = packed.dropped
+      .filter(item => item.section === 'history')
+      .map(item => history[item.ref as number])
+    const earlierSummary = await summarizeHistory(llm, droppedTurns, packed, request.signal)
+    const droppedQuestions = droppedTurns
+      .filter(m => m.role === 'user')
+      .map(m => `- ${m.content.slice(0, 120)}${m.content.length > 120 ? '...' : ''}`)
+    if (earlierSummary) {
+      systemPrompt += `\n\n**Earlier in this conversation** (summarized to fit the context window):\n${earlierSummary}`
+    } else if (droppedQuestions.length > 0) {
+      systemPrompt += `\n\n**Earlier in this conversation** (messages omitted to fit the context window), the user asked:\n${droppedQuestions.slice(-5).join('\n')}`
     }
 
     // Convert messages to the format expected by GPT-5
-    const chatMessages: ChatMessage[] = messages.map((msg: any) => ({
-      role: msg.role,
-      content: msg.content
+    const chatMessages: ChatMessage[] = keptHistory.map(item => ({
+      role: history[item.ref as number].role,
+      content: item.text
     }))
 
+    // Cancelled when the client presses Stop or disconnects; the partial answer is kept as stopped
+    const abort = new AbortController()
+    request.signal.addEventListener('abort', () => abort.abort())
+
     // Create a streaming response
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (data: object) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+          } catch {
+            // Client already gone
+          }
+        }
+        const close = () => {
+          try {
+            controller.close()
+          } catch {
+            // Already closed by cancel()
+          }
+        }
+        let fullResponse = ''
+
+        // Save assistant message to database (wrapped in try-catch)
+        const saveAssistantMessage = async (stopped: boolean) => {
+          if (!conversationId) return
+          try {
+            await supabase.from('messages').insert({
+              conversation_id: conversationId,
+              user_id: userId,
+              role: 'assistant',
+              content: fullResponse,
+              stopped,
+              created_at: new Date().toISOString()
+            })
+
+            // Update conversation title if this is the first response
+            const { data: conv } = await supabase
+              .from('conversations')
+              .select('title')
+              .eq('id', conversationId)
+              .single()
+
+            if (conv?.title === 'New Chat' && messages.length > 0) {
+              const firstUserMessage = messages.find((m: any) => m.role === 'user')?.content || ''
+              const newTitle = firstUserMessage.substring(0, 50) + (firstUserMessage.length > 50 ? '...' : '')
+              
+              await supabase
+                .from('conversations')
+                .update({ title: newTitle, updated_at: new Date().toISOString() })
+                .eq('id', conversationId)
+            }
+          } catch (dbError) {
+            console.warn('Could not save to database:', dbError)
+          }
+        }
+
         try {
-          let fullResponse = ''
-          
-          // Stream from GPT-5
-          for await (const chunk of streamGPT5(chatMessages, {
+          // Stream from the provider configured for the chat route
+          for await (const chunk of llm.stream(chatMessages, {
+            signal: abort.signal,
             verbosity: settings.verbosity || 'medium',
             reasoning_effort: settings.reasoningEffort || 'medium',
-            max_completion_tokens: settings.maxTokens || 4000,
+            max_completion_tokens: packed.outputTokens,
             system_prompt: systemPrompt,
             // Add image inputs if any images were uploaded
             ...(settings.imageUrls && { image_input: settings.imageUrls })
           })) {
             fullResponse += chunk
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: chunk })}\n\n`))
+            send({ content: chunk })
           }
 
-          // Save assistant message to database (wrapped in try-catch)
-          if (conversationId) {
-            try {
-              await supabase.from('messages').insert({
-                conversation_id: conversationId,
-                user_id: userId || ANONYMOUS_USER_ID,
-                role: 'assistant',
-                content: fullResponse,
-                created_at: new Date().toISOString()
-              })
-
-              // Update conversation title if this is the first response
-              const { data: conv } = await supabase
-                .from('conversations')
-                .select('title')
-                .eq('id', conversationId)
-                .single()
-
-              if (conv?.title === 'New Chat' && messages.length > 0) {
-                const firstUserMessage = messages.find((m: any) => m.role === 'user')?.content || ''
-                const newTitle = firstUserMessage.substring(0, 50) + (firstUserMessage.length > 50 ? '...' : '')
-                
-                await supabase
-                  .from('conversations')
-                  .update({ title: newTitle, updated_at: new Date().toISOString() })
-                  .eq('id', conversationId)
-              }
-            } catch (dbError) {
-              console.warn('Could not save to database:', dbError)
-            }
-          }
+          await saveAssistantMessage(false)
 
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ done: true })}\n\n`))
-          controller.close()
+          send({ done: true })
+          close()
         } catch (error) {
+          if (abort.signal.aborted) {
+            // Stopped by the user: keep what was generated so far
+            if (fullResponse.trim()) await saveAssistantMessage(true)
+            send({ stopped: true })
+            close()
+            return
+          }
+
           console.error('Streaming error:', error)
-          
-          const errorMessage = error instanceof Error 
-            ? error.message 
-            : 'An unexpected error occurred'
-          
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ 
-            error: errorMessage,
-            content: 'I apologize, but I encountered an error processing your request. Please try again.'
-          })}\n\n`))
-          
-          controller.close()
+
+          // Surface the failure as an error event (nothing is saved); the client offers a retry
+          const llmError = toLLMError(error)
+          send({
+            error: llmError.message,
+            code: llmError.kind,
+            retryable: llmError.retryable
+          })
+
+          close()
+        } finally {
+          await usage.flush()
         }
+      },
+      cancel() {
+        abort.abort()
       }
     })
 
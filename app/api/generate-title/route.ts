@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Replicate from 'replicate'
-
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN!,
-})
+import { getLLMProvider } from '@/lib/llm'
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,29 +9,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 })
     }
 
-    // Use a fast model to generate a short title
-    const output: unknown = await replicate.run(
-      "meta/meta-llama-3-8b-instruct" as `${string}/${string}`,
-      {
-        input: {
-          prompt: `Generate a very short title (3-6 words max) for a conversation that starts with this message. Just respond with the title, nothing else. No quotes, no punctuation at the end.
+    // Use a fast model (title route defaults to Llama 3 8B) to generate a short title
+    let title = await getLLMProvider('title').complete(
+      [
+        {
+          role: 'user',
+          content: `Generate a very short title (3-6 words max) for a conversation that starts with this message. Just respond with the title, nothing else. No quotes, no punctuation at the end.
 
 Message: "${message.substring(0, 500)}"
 
 Title:`,
-          max_tokens: 20,
-          temperature: 0.7,
-        }
-      }
+        },
+      ],
+      { max_completion_tokens: 20, verbosity: 'low', reasoning_effort: 'minimal' }
     )
 
-    let title = ''
-    if (Array.isArray(output)) {
-      title = output.join('').trim()
-    } else if (typeof output === 'string') {
-      title = output.trim()
-    }
-
     // Clean up the title
     title = title
       .replace(/^["']|["']$/g, '') // Remove quotes
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabaseClient'
 import { v4 as uuidv4 } from 'uuid'
+import { extractText } from '@/lib/documentProcessor'
 import { isAllowedFileType, MAX_FILE_SIZE, MAX_FILES_PER_MESSAGE, formatFileSize } from '@/lib/fileProcessor'
 
-// Dynamic import for pdf-parse to avoid build issues
-async function parsePDF(buffer: Buffer): Promise<string> {
+// PDF text, with OCR of pages that have no text layer (scans)
+async function parsePDF(buffer: Buffer, fileName: string): Promise<string> {
   try {
-    // Dynamic import to avoid build-time file access
-    const pdfParse = (await import('pdf-parse/lib/pdf-parse.js')).default
-    const data = await pdfParse(buffer)
-    return data.text
+    const text = await extractText(buffer, 'application/pdf', fileName)
+    return text.trim() ? text : '[PDF text extraction failed - no text found, even with OCR]'
   } catch (error) {
     console.error('PDF parsing error:', error)
-    return '[PDF text extraction failed - document may contain scanned images]'
+    return `[PDF text extraction failed - ${error instanceof Error ? error.message : 'unknown error'}]`
   }
 }
 
@@ -88,7 +87,7 @@ export async function POST(request: NextRequest) {
         
         // PDF files - extract text
         if (file.type === 'application/pdf') {
-          content = await parsePDF(buffer)
+          content = await parsePDF(buffer, file.name)
           console.log(`Extracted ${content.length} characters from PDF: ${file.name}`)
         }
 
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUsageRecords, summarizeUsage } from '@/lib/usage'
+import { getRequestUserId } from '@/lib/requestAuth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * LLM usage of the verified caller over the last `days` (default 30), with per-model, per-route and per-request breakdowns.
+ * With `conversationId` or `sessionId`, also returns the totals of that conversation (all time).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = await getRequestUserId(request)
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 30, 1), 365)
+    const conversationId = searchParams.get('conversationId') || undefined
+    const sessionId = searchParams.get('sessionId') || undefined
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const summary = summarizeUsage(await getUsageRecords({ userId, since }))
+    const conversation =
+      conversationId || sessionId
+        ? summarizeUsage(await getUsageRecords({ userId, conversationId, sessionId }), 0).totals
+        : null
+
+    return NextResponse.json({ days, summary, conversation })
+  } catch (err) {
+    console.error('GET /api/usage error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -7,16 +7,18 @@ import {
   MessageCircle, Plus, Trash2, Upload, Send, Settings, 
   PanelLeftClose, PanelLeft, Search, MoreHorizontal,
   Sparkles, Image, FileText, X, ChevronDown, Globe,
-  Brain, Keyboard, Moon, Sun, Zap, LogOut, User, Landmark
+  Brain, Keyboard, Moon, Sun, Zap, LogOut, User, Landmark,
+  AlertTriangle, RotateCcw, Square
 } from 'lucide-react'
 import Link from 'next/link'
 import { supabase } from '@/lib/supabaseClient'
+import { authHeaders } from '@/lib/authHeaders'
 import { useAuth } from '@/contexts/AuthContext'
 import { MessageBubble } from '@/components/chat/MessageBubble'
 import { FilePreview } from '@/components/chat/FilePreview'
 import { PromptTemplates, parseSlashCommand, getPromptFromCommand } from '@/components/chat/PromptTemplates'
 import { SettingsPanel, type ChatSettings } from '@/components/chat/SettingsPanel'
-import { buildFileContext, createFilePreview, MAX_FILES_PER_MESSAGE } from '@/lib/fileProcessor'
+import { createFilePreview, MAX_FILES_PER_MESSAGE, type ProcessedFile } from '@/lib/fileProcessor'
 import { buildMemoryContext, parseRememberCommand } from '@/lib/memory'
 
 interface MessageFile {
@@ -34,6 +36,7 @@ interface Message {
   created_at: string
   feedback?: 'up' | 'down' | null
   files?: MessageFile[]
+  stopped?: boolean
 }
 
 interface Conversation {
@@ -95,6 +98,8 @@ export default function ChatPage() {
   const [isDragging, setIsDragging] = useState(false)
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
+  const [chatError, setChatError] = useState<{ message: string; retryable: boolean } | null>(null)
+  const [pendingRetry, setPendingRetry] = useState(false)
   
   const [settings, setSettings] = useState<ChatSettings>({
     verbosity: 'medium',
@@ -105,6 +110,8 @@ export default function ChatPage() {
   })
 
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Aborts the in-flight /api/chat request (Stop button)
+  const abortRef = useRef<AbortController | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
@@ -159,6 +166,7 @@ export default function ChatPage() {
   // Load messages when switching conversations
   useEffect(() => {
     async function loadMessages() {
+      setChatError(null)
       if (!currentConversationId) return
       
       try {
@@ -179,7 +187,8 @@ export default function ChatPage() {
             content: m.content,
             role: m.role,
             created_at: m.created_at,
-            feedback: m.feedback
+            feedback: m.feedback,
+            stopped: m.stopped
           })))
         }
       } catch (err) {
@@ -401,6 +410,7 @@ export default function ChatPage() {
     
     if (!inputMessage.trim() || loading) return
 
+    setChatError(null)
     const messageContent = inputMessage.trim()
     
     // Check for remember command
@@ -453,20 +463,15 @@ export default function ChatPage() {
       preview: f.preview
     }))
 
-    // Build file context to append to message content for AI
-    const fileContext = buildFileContext(uploadedFiles.map(f => ({
+    // Files sent with the request; the server fits their contents into the model's context window
+    const filesForAI: ProcessedFile[] = uploadedFiles.map(f => ({
       id: f.id,
       file_name: f.file_name,
       file_url: f.file_url,
       file_size: f.file_size,
       file_type: f.file_type,
       content: f.content
-    })))
-
-    // Build the actual content sent to AI (includes file context)
-    const contentForAI = fileContext 
-      ? `${finalContent}\n\n${fileContext}`
-      : finalContent
+    }))
 
     const userMessage: Message = {
       id: crypto.randomUUID(),
@@ -506,26 +511,39 @@ export default function ChatPage() {
       .filter(f => f.file_type.startsWith('image/'))
       .map(f => f.file_url)
 
-    // Build messages array for API with file context included in user message
-    const messagesForAPI = newMessages.map(m => {
-      if (m.id === userMessage.id && fileContext) {
-        return { ...m, content: contentForAI }
-      }
-      return m
-    })
+    const messagesForAPI = newMessages.map(m => ({ role: m.role, content: m.content }))
+
+    const abortController = new AbortController()
+    abortRef.current = abortController
+    let assistantMessage = ''
+    const assistantId = crypto.randomUUID()
+
+    // Keep the partial answer (the server stores it flagged as stopped)
+    const finishStopped = () => {
+      setMessages(assistantMessage.trim()
+        ? [...newMessages, {
+            id: assistantId,
+            content: assistantMessage,
+            role: 'assistant',
+            created_at: new Date().toISOString(),
+            stopped: true
+          }]
+        : newMessages)
+    }
 
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
+        headers: await authHeaders({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           messages: messagesForAPI,
           conversationId: currentConversationId,
-          userId: userId,
           settings: {
             ...settings,
             imageUrls: imageUrls.length > 0 ? imageUrls : undefined
           },
+          files: filesForAI.length > 0 ? filesForAI : undefined,
           memoryContext
         }),
       })
@@ -534,8 +552,8 @@ export default function ChatPage() {
 
       const reader = response.body?.getReader()
       const decoder = new TextDecoder()
-      let assistantMessage = ''
-      const assistantId = crypto.randomUUID()
+      let streamError: { message: string; retryable: boolean } | null = null
+      let stopped = false
 
       if (reader) {
         while (true) {
@@ -558,6 +576,10 @@ export default function ChatPage() {
                     created_at: new Date().toISOString()
                   }])
                 }
+                if (data.error) {
+                  streamError = { message: data.error, retryable: data.retryable !== false }
+                }
+                if (data.stopped) stopped = true
                 if (data.done) break
               } catch (e) {
                 // Ignore parsing errors
@@ -567,10 +589,26 @@ export default function ChatPage() {
         }
       }
 
+      if (stopped) {
+        finishStopped()
+        return
+      }
+
+      if (!streamError && !assistantMessage.trim()) {
+        streamError = { message: 'The model returned an empty response.', retryable: true }
+      }
+
+      // A failed answer is dropped (the server did not save it either) and a retry is offered
+      if (streamError) {
+        setMessages(newMessages)
+        setChatError(streamError)
+        return
+      }
+
       // Final update
       setMessages([...newMessages, {
         id: assistantId,
-        content: assistantMessage || 'I apologize, but I was unable to generate a response.',
+        content: assistantMessage,
         role: 'assistant',
         created_at: new Date().toISOString()
       }])
@@ -615,18 +653,27 @@ export default function ChatPage() {
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        finishStopped()
+        return
+      }
       console.error('Error:', error)
-      setMessages([...newMessages, {
-        id: crypto.randomUUID(),
-        content: 'Sorry, I encountered an error. Please try again.',
-        role: 'assistant',
-        created_at: new Date().toISOString()
-      }])
+      setMessages(newMessages)
+      setChatError({
+        message: error instanceof Error ? error.message : 'Something went wrong.',
+        retryable: true
+      })
     } finally {
+      abortRef.current = null
       setLoading(false)
     }
   }, [inputMessage, loading, messages, currentConversationId, uploadedFiles, settings, memories, conversations])
 
+  // Stop the answer being generated
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
   // Regenerate response
   const handleRegenerate = useCallback(async (messageIndex: number) => {
     const messagesUntilHere = messages.slice(0, messageIndex)
@@ -644,6 +691,32 @@ export default function ChatPage() {
     }
   }, [messages, handleSendMessage])
 
+  // Retry the last question after a failed answer
+  const handleRetry = useCallback(async () => {
+    const lastUserMessage = messages[messages.length - 1]
+    if (!lastUserMessage || lastUserMessage.role !== 'user') return
+
+    // The question is stored again when it is resent
+    try {
+      await supabase.from('messages').delete().eq('id', lastUserMessage.id)
+    } catch (err) {
+      console.warn('Could not remove failed message from database:', err)
+    }
+
+    setChatError(null)
+    setMessages(messages.slice(0, -1))
+    setInputMessage(lastUserMessage.content)
+    setPendingRetry(true)
+  }, [messages])
+
+  // Send once the retried question is back in the input
+  useEffect(() => {
+    if (pendingRetry && inputMessage) {
+      setPendingRetry(false)
+      handleSendMessage()
+    }
+  }, [pendingRetry, inputMessage, handleSendMessage])
+
   // Edit message
   const handleEditMessage = useCallback((messageId: string, content: string) => {
     setEditingMessageId(messageId)
@@ -984,6 +1057,27 @@ export default function ChatPage() {
                     </div>
                   </motion.div>
                 )}
+
+                {chatError && !loading && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-start gap-3 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/20"
+                  >
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-red-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-red-300">The response could not be generated.</p>
+                      <p className="text-xs text-red-400/80 mt-0.5 break-words">{chatError.message}</p>
+                    </div>
+                    <button
+                      onClick={handleRetry}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 border border-zinc-700 text-xs text-zinc-200 hover:bg-zinc-700 transition-colors shrink-0"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Retry
+                    </button>
+                  </motion.div>
+                )}
                 
                 <div ref={messagesEndRef} />
               </div>
@@ -1092,14 +1186,25 @@ export default function ChatPage() {
                   style={{ height: 'auto' }}
                 />
 
-                {/* Send button */}
-                <button
-                  type="submit"
-                  disabled={loading || (!inputMessage.trim() && uploadedFiles.length === 0)}
-                  className="p-2 rounded-lg bg-white text-zinc-900 hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:hover:bg-white"
-                >
-                  <Send className="w-5 h-5" />
-                </button>
+                {/* Send / Stop button */}
+                {loading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="p-2 rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-200 hover:bg-zinc-700 transition-colors"
+                    title="Stop generating"
+                  >
+                    <Square className="w-5 h-5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!inputMessage.trim() && uploadedFiles.length === 0}
+                    className="p-2 rounded-lg bg-white text-zinc-900 hover:bg-zinc-200 transition-colors disabled:opacity-50 disabled:hover:bg-white"
+                  >
+                    <Send className="w-5 h-5" />
+                  </button>
+                )}
               </div>
 
               {/* Keyboard shortcut hint */}
@@ -1117,6 +1222,8 @@ export default function ChatPage() {
         onSettingsChange={setSettings}
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
+        userId={userId || undefined}
+        conversationId={currentConversationId}
       />
     </div>
   )
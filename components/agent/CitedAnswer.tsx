@@ -0,0 +1,137 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { FileText } from 'lucide-react'
+import { CodeBlock } from '@/components/chat/CodeBlock'
+import { Modal } from '@/components/ui/Modal'
+import type { Citation } from '@/lib/ragSearch'
+import { formatChunkLocation, formatOcrConfidence } from '@/lib/chunkLocation'
+
+interface CitedAnswerProps {
+  content: string
+  citations: Citation[]
+}
+
+const CITE_PREFIX = '#cite-'
+/** Below this OCR confidence the excerpt may contain misread words */
+const LOW_OCR_CONFIDENCE = 0.8
+
+/**
+ * Turn [3], [2, 5] or [2][5] markers into markdown links the renderer can intercept.
+ * Markers without a known citation are left as plain text.
+ */
+function linkCitationMarkers(content: string, known: Map<number, Citation>): string {
+  return content.replace(/\[(\d+(?:\s*[,;]\s*\d+)*)\](?!\()/g, (match, group: string) => {
+    const markers = group.split(/[,;]/).map((m) => parseInt(m.trim(), 10))
+    if (!markers.every((m) => known.has(m))) return match
+    return markers.map((m) => `[\\[${m}\\]](${CITE_PREFIX}${m})`).join('')
+  })
+}
+
+// "Rapport.pdf — p. 42, §3.2", or the extract number for chunks without location
+function sourceLabel(c: Citation): string {
+  return `${c.document_name} — ${formatChunkLocation(c) || `extrait n°${c.chunk_index + 1}`}`
+}
+
+export function CitedAnswer({ content, citations }: CitedAnswerProps) {
+  const [openMarker, setOpenMarker] = useState<number | null>(null)
+
+  const byMarker = useMemo(() => new Map(citations.map((c) => [c.marker, c])), [citations])
+  const linked = useMemo(() => linkCitationMarkers(content, byMarker), [content, byMarker])
+  const cited = useMemo(() => {
+    const used = new Set<number>()
+    const re = new RegExp(`\\(${CITE_PREFIX}(\\d+)\\)`, 'g')
+    let m: RegExpExecArray | null
+    while ((m = re.exec(linked)) !== null) used.add(parseInt(m[1], 10))
+    return citations.filter((c) => used.has(c.marker)).sort((a, b) => a.marker - b.marker)
+  }, [linked, citations])
+  const open = openMarker != null ? byMarker.get(openMarker) : undefined
+
+  return (
+    <>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          code: (props: { node?: unknown; inline?: boolean; className?: string; children?: React.ReactNode }) => {
+            const { inline, className, children } = props
+            return inline ? (
+              <code className={className}>{children}</code>
+            ) : (
+              <CodeBlock code={String(children).replace(/\n$/, '')} language={(className?.replace('language-', '').replace('lang-', '') || 'text')} />
+            )
+          },
+          a: ({ href, children }) => {
+            if (href?.startsWith(CITE_PREFIX)) {
+              const marker = parseInt(href.slice(CITE_PREFIX.length), 10)
+              return (
+                <button
+                  type="button"
+                  onClick={() => setOpenMarker(marker)}
+                  className="align-super text-[0.7em] font-medium text-sky-400 hover:text-sky-300 no-underline px-0.5"
+                  title={byMarker.get(marker) && sourceLabel(byMarker.get(marker)!)}
+                >
+                  {children}
+                </button>
+              )
+            }
+            return (
+              <a href={href} target="_blank" rel="noopener noreferrer">
+                {children}
+              </a>
+            )
+          },
+        }}
+      >
+        {linked}
+      </ReactMarkdown>
+
+      {cited.length > 0 && (
+        <div className="not-prose mt-4 pt-3 border-t border-zinc-800 text-xs space-y-1">
+          <p className="text-zinc-500 mb-1">Sources citées</p>
+          {cited.map((c) => (
+            <button
+              key={c.marker}
+              type="button"
+              onClick={() => setOpenMarker(c.marker)}
+              className="flex items-start gap-2 w-full text-left text-zinc-400 hover:text-zinc-200"
+            >
+              <span className="text-sky-400 shrink-0">[{c.marker}]</span>
+              <span className="truncate">
+                {sourceLabel(c)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={open != null}
+        onClose={() => setOpenMarker(null)}
+        title={open ? `Source [${open.marker}]` : undefined}
+        size="xl"
+      >
+        {open && (
+          <div className="space-y-3">
+            <p className="flex items-center gap-2 text-sm text-zinc-300">
+              <FileText className="w-4 h-4 text-zinc-500 shrink-0" />
+              <span className="truncate">{open.document_name}</span>
+              <span className="text-zinc-500 shrink-0">
+                {formatChunkLocation(open) || `extrait n°${open.chunk_index + 1}`}
+              </span>
+            </p>
+            {open.ocr_confidence != null && (
+              <p className={`text-xs ${open.ocr_confidence < LOW_OCR_CONFIDENCE ? 'text-amber-400' : 'text-zinc-500'}`}>
+                Texte reconnu par OCR ({formatOcrConfidence(open)}) : vérifiez le passage dans le document original.
+              </p>
+            )}
+            <blockquote className="max-h-96 overflow-y-auto scrollbar-thin whitespace-pre-wrap text-sm text-zinc-300 border-l-2 border-zinc-700 pl-3">
+              {open.excerpt}
+            </blockquote>
+          </div>
+        )}
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FolderPlus, Loader2, Trash2, UserPlus, Users, X } from 'lucide-react'
+import type { CollectionMember, CollectionRole, CollectionWithRole } from '@/lib/collections'
+import { authHeaders } from '@/lib/authHeaders'
+
+interface CollectionPanelProps {
+  collections: CollectionWithRole[]
+  /** Selected collection (uploads go there, the list shows its documents); null = all */
+  activeId: string | null
+  onSelect: (id: string | null) => void
+  onChanged: () => void
+}
+
+const ROLE_LABELS: Record<CollectionRole, string> = {
+  viewer: 'Lecteur',
+  editor: 'Éditeur',
+  admin: 'Administrateur',
+}
+
+/**
+ * Collection picker for the document panel, with creation and, for admins, member management.
+ */
+export function CollectionPanel({ collections, activeId, onSelect, onChanged }: CollectionPanelProps) {
+  const [creating, setCreating] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [showMembers, setShowMembers] = useState(false)
+  const [members, setMembers] = useState<CollectionMember[]>([])
+  const [memberId, setMemberId] = useState('')
+  const [memberRole, setMemberRole] = useState<CollectionRole>('viewer')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const active = collections.find((c) => c.id === activeId) ?? null
+  const isAdmin = active?.role === 'admin'
+
+  const call = async (url: string, init: RequestInit = {}) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(url, { ...init, headers: await authHeaders({ 'Content-Type': 'application/json' }) })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Request failed')
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const loadMembers = useCallback(async () => {
+    if (!activeId) return
+    try {
+      const res = await fetch(`/api/agent/collections/${encodeURIComponent(activeId)}/members`, { headers: await authHeaders() })
+      if (res.ok) setMembers((await res.json()).members || [])
+    } catch (e) {
+      console.warn('Failed to load members', e)
+    }
+  }, [activeId])
+
+  useEffect(() => {
+    setMembers([])
+    if (showMembers) loadMembers()
+  }, [showMembers, loadMembers])
+
+  const handleCreate = async () => {
+    const name = newName.trim()
+    if (!name) return
+    const data = await call('/api/agent/collections', { method: 'POST', body: JSON.stringify({ name }) })
+    if (data?.collection) {
+      setNewName('')
+      setCreating(false)
+      onChanged()
+      onSelect(data.collection.id)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!active || !window.confirm(`Supprimer la collection « ${active.name} » et tous ses documents ?`)) return
+    const data = await call(`/api/agent/collections/${encodeURIComponent(active.id)}`, { method: 'DELETE' })
+    if (data) {
+      onSelect(null)
+      onChanged()
+    }
+  }
+
+  const handleSetMember = async (userId: string, role: CollectionRole) => {
+    if (!activeId || !userId.trim()) return
+    const data = await call(`/api/agent/collections/${encodeURIComponent(activeId)}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ userId: userId.trim(), role }),
+    })
+    if (data) {
+      setMemberId('')
+      loadMembers()
+    }
+  }
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!activeId) return
+    const data = await call(
+      `/api/agent/collections/${encodeURIComponent(activeId)}/members?userId=${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    )
+    if (data) loadMembers()
+  }
+
+  const selectClass = 'bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200'
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <div className="flex items-center gap-1.5">
+        <select
+          value={activeId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className={`${selectClass} flex-1 min-w-0`}
+        >
+          <option value="">Toutes les collections</option>
+          {collections.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name} ({ROLE_LABELS[c.role].toLowerCase()})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => setCreating((c) => !c)}
+          className="p-1 rounded text-zinc-500 hover:text-zinc-200"
+          title="Nouvelle collection"
+        >
+          <FolderPlus className="w-4 h-4" />
+        </button>
+        {isAdmin && (
+          <button
+            type="button"
+            onClick={() => setShowMembers((s) => !s)}
+            className={`p-1 rounded hover:text-zinc-200 ${showMembers ? 'text-zinc-200' : 'text-zinc-500'}`}
+            title="Membres"
+          >
+            <Users className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {creating && (
+        <div className="flex gap-1.5">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="Nom de la collection"
+            className={`${selectClass} flex-1 min-w-0 placeholder:text-zinc-600`}
+            autoFocus
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={busy || !newName.trim()}
+            className="px-2 py-1 rounded-md bg-white text-zinc-900 font-medium hover:bg-zinc-200 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Créer'}
+          </button>
+        </div>
+      )}
+      {showMembers && isAdmin && active && (
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900/60 p-2 space-y-1.5">
+          {members.map((m) => (
+            <div key={m.user_id} className="flex items-center gap-1.5">
+              <span className="flex-1 min-w-0 truncate text-zinc-400" title={m.user_id}>
+                {m.user_id === active.owner_id ? `${m.user_id} (propriétaire)` : m.user_id}
+              </span>
+              {m.user_id !== active.owner_id && (
+                <>
+                  <select
+                    value={m.role}
+                    onChange={(e) => handleSetMember(m.user_id, e.target.value as CollectionRole)}
+                    disabled={busy}
+                    className={selectClass}
+                  >
+                    {(Object.keys(ROLE_LABELS) as CollectionRole[]).map((role) => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveMember(m.user_id)}
+                    disabled={busy}
+                    className="p-1 rounded text-zinc-500 hover:text-red-400"
+                    title="Retirer"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-1.5">
+            <input
+              value={memberId}
+              onChange={(e) => setMemberId(e.target.value)}
+              placeholder="Identifiant utilisateur"
+              className={`${selectClass} flex-1 min-w-0 placeholder:text-zinc-600`}
+            />
+            <select value={memberRole} onChange={(e) => setMemberRole(e.target.value as CollectionRole)} className={selectClass}>
+              {(Object.keys(ROLE_LABELS) as CollectionRole[]).map((role) => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => handleSetMember(memberId, memberRole)}
+              disabled={busy || !memberId.trim()}
+              className="p-1 rounded text-zinc-400 hover:text-zinc-200 disabled:opacity-50"
+              title="Ajouter"
+            >
+              <UserPlus className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={busy}
+            className="flex items-center gap-1 text-zinc-500 hover:text-red-400"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Supprimer la collection
+          </button>
+        </div>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  )
+}
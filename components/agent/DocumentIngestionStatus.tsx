@@ -0,0 +1,56 @@
+'use client'
+
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import type { IngestionStatus } from '@/lib/documentIngestion'
+
+interface DocumentIngestionStatusProps {
+  status: IngestionStatus
+  progress: number
+  error?: string | null
+}
+
+const STATUS_LABELS: Record<IngestionStatus, string> = {
+  uploaded: 'En attente',
+  extracting: 'Extraction du texte',
+  chunking: 'Découpage',
+  indexing: 'Indexation',
+  ready: 'Prêt',
+  failed: 'Échec',
+}
+
+/**
+ * True while an upload is still being ingested (documents from before migration 010 have no status).
+ */
+export function isIngestionPending(status: IngestionStatus | null | undefined): boolean {
+  return !!status && status !== 'ready' && status !== 'failed'
+}
+
+/**
+ * Ingestion progress of one document in the document panel: step and progress bar, or the error.
+ */
+export function DocumentIngestionStatus({ status, progress, error }: DocumentIngestionStatusProps) {
+  if (status === 'ready') return null
+  if (status === 'failed') {
+    return (
+      <p className="flex items-start gap-1 mt-1 pl-6 text-[11px] text-red-400">
+        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>
+          {STATUS_LABELS.failed}
+          {error ? ` : ${error}` : ''}
+        </span>
+      </p>
+    )
+  }
+  return (
+    <div className="mt-1 pl-6 space-y-1">
+      <p className="flex items-center gap-1 text-[11px] text-zinc-400">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        {STATUS_LABELS[status]}
+        {status !== 'uploaded' && ` · ${progress} %`}
+      </p>
+      <div className="h-1 rounded-full bg-zinc-800 overflow-hidden">
+        <div className="h-full bg-zinc-400 transition-all duration-500" style={{ width: `${Math.max(progress, 3)}%` }} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Loader2, X } from 'lucide-react'
+import type { DocumentMetadata } from '@/lib/documentMetadata'
+import { authHeaders } from '@/lib/authHeaders'
+
+interface DocumentMetadataFormProps {
+  documentId: string
+  metadata: Partial<DocumentMetadata>
+  onSaved: (metadata: DocumentMetadata) => void
+  onCancel: () => void
+}
+
+/**
+ * Inline editor for a document's tags, year, category and author (PATCH /api/agent/documents).
+ */
+export function DocumentMetadataForm({ documentId, metadata, onSaved, onCancel }: DocumentMetadataFormProps) {
+  const [tags, setTags] = useState((metadata.tags ?? []).join(', '))
+  const [year, setYear] = useState(metadata.year != null ? String(metadata.year) : '')
+  const [category, setCategory] = useState(metadata.category ?? '')
+  const [author, setAuthor] = useState(metadata.author ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/agent/documents', {
+        method: 'PATCH',
+        headers: await authHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ id: documentId, tags, year, category, author }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Update failed')
+      onSaved({
+        tags: data.document.tags ?? [],
+        year: data.document.year ?? null,
+        category: data.document.category ?? null,
+        author: data.document.author ?? null,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'w-full bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-500'
+
+  return (
+    <div className="mt-1 space-y-1.5 text-xs">
+      <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags (séparés par des virgules)" className={inputClass} />
+      <div className="flex gap-1.5">
+        <input
+          type="number"
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          placeholder="Année"
+          className={`${inputClass} w-20 shrink-0`}
+        />
+        <input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Catégorie" className={inputClass} />
+      </div>
+      <input value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Auteur" className={inputClass} />
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-white text-zinc-900 font-medium hover:bg-zinc-200 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+          Enregistrer
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-zinc-400 hover:text-zinc-200"
+        >
+          <X className="w-3.5 h-3.5" />
+          Annuler
+        </button>
+        {error && <span className="text-red-400 truncate">{error}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Filter, X } from 'lucide-react'
+import type { SearchFilters } from '@/lib/ragSearch'
+
+export interface ScopeDocument {
+  id: string
+  collection_id?: string
+  name: string
+  tags?: string[] | null
+  year?: number | null
+  category?: string | null
+  author?: string | null
+}
+
+interface DocumentScopeSelectorProps {
+  documents: ScopeDocument[]
+  /** Collections offered as a facet (those the user can read) */
+  collections?: { id: string; name: string }[]
+  filters: SearchFilters
+  onChange: (filters: SearchFilters) => void
+  disabled?: boolean
+}
+
+/**
+ * True when `filters` limits the search (otherwise the whole base is searched).
+ */
+export function isScoped(filters: SearchFilters): boolean {
+  return Object.values(filters).some((v) => v !== undefined)
+}
+
+/**
+ * Same rule as the search RPCs: a document is in scope when it matches every criterion given.
+ */
+export function matchesScope(doc: ScopeDocument, filters: SearchFilters): boolean {
+  if (filters.collectionIds && !(doc.collection_id && filters.collectionIds.includes(doc.collection_id))) return false
+  if (filters.documentIds && !filters.documentIds.includes(doc.id)) return false
+  if (filters.tags && !(doc.tags ?? []).some((t) => filters.tags!.includes(t))) return false
+  if (filters.categories && !(doc.category && filters.categories.includes(doc.category))) return false
+  if (filters.authors && !(doc.author && filters.authors.includes(doc.author))) return false
+  if (filters.yearFrom != null && (doc.year == null || doc.year < filters.yearFrom)) return false
+  if (filters.yearTo != null && (doc.year == null || doc.year > filters.yearTo)) return false
+  return true
+}
+
+function uniqueSorted(values: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b, 'fr'))
+}
+
+function toggle(list: string[] | undefined, value: string): string[] | undefined {
+  const next = list?.includes(value) ? list.filter((v) => v !== value) : [...(list ?? []), value]
+  return next.length > 0 ? next : undefined
+}
+
+/**
+ * Scope of the next question: whole base, or the documents picked by hand and/or by collection, tag,
+ * category, author and year range.
+ */
+export function DocumentScopeSelector({ documents, collections = [], filters, onChange, disabled }: DocumentScopeSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const tags = useMemo(() => uniqueSorted(documents.flatMap((d) => d.tags ?? [])), [documents])
+  const categories = useMemo(() => uniqueSorted(documents.map((d) => d.category)), [documents])
+  const authors = useMemo(() => uniqueSorted(documents.map((d) => d.author)), [documents])
+  const scoped = isScoped(filters)
+  const inScope = documents.filter((d) => matchesScope(d, filters))
+
+  const update = (patch: Partial<SearchFilters>) => onChange({ ...filters, ...patch })
+  const setYear = (key: 'yearFrom' | 'yearTo', value: string) => {
+    const year = parseInt(value, 10)
+    update({ [key]: Number.isInteger(year) ? year : undefined })
+  }
+
+  const chip = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-2 py-0.5 rounded-full border transition-colors ${
+        active ? 'bg-zinc-100 text-zinc-900 border-zinc-100' : 'border-zinc-700 text-zinc-400 hover:border-zinc-500'
+      }`}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center gap-1.5 text-sm text-zinc-400 hover:text-zinc-200"
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Filter className="w-3.5 h-3.5" />
+          {scoped
+            ? `Portée : ${inScope.length} document(s) sur ${documents.length}`
+            : 'Portée : toute la base'}
+        </button>
+        {scoped && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={disabled}
+            className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300"
+            title="Rechercher dans toute la base"
+          >
+            <X className="w-3.5 h-3.5" />
+            Toute la base
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="mt-2 rounded-lg border border-zinc-800 bg-zinc-900/60 p-3 space-y-3">
+          {collections.length > 1 && (
+            <div className="space-y-1">
+              <p className="text-zinc-500">Collections</p>
+              <div className="flex flex-wrap gap-1.5">
+                {collections.map((c) =>
+                  chip(c.name, !!filters.collectionIds?.includes(c.id), () =>
+                    update({ collectionIds: toggle(filters.collectionIds, c.id) })
+                  )
+                )}
+              </div>
+            </div>
+          )}
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-zinc-500">Tags</p>
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => chip(tag, !!filters.tags?.includes(tag), () => update({ tags: toggle(filters.tags, tag) })))}
+              </div>
+            </div>
+          )}
+          {categories.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-zinc-500">Catégorie</p>
+              <div className="flex flex-wrap gap-1.5">
+                {categories.map((category) =>
+                  chip(category, !!filters.categories?.includes(category), () =>
+                    update({ categories: toggle(filters.categories, category) })
+                  )
+                )}
+              </div>
+            </div>
+          )}
+          {authors.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-zinc-500">Auteur</p>
+              <div className="flex flex-wrap gap-1.5">
+                {authors.map((author) =>
+                  chip(author, !!filters.authors?.includes(author), () => update({ authors: toggle(filters.authors, author) }))
+                )}
+              </div>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-zinc-500">
+            Années
+            <input
+              type="number"
+              value={filters.yearFrom ?? ''}
+              onChange={(e) => setYear('yearFrom', e.target.value)}
+              placeholder="de"
+              disabled={disabled}
+              className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+            />
+            <input
+              type="number"
+              value={filters.yearTo ?? ''}
+              onChange={(e) => setYear('yearTo', e.target.value)}
+              placeholder="à"
+              disabled={disabled}
+              className="w-20 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-zinc-500">Documents {filters.documentIds ? `(${filters.documentIds.length} coché(s))` : '(aucun coché : tous)'}</p>
+            <div className="max-h-40 overflow-y-auto scrollbar-thin space-y-0.5">
+              {documents.map((doc) => (
+                <label
+                  key={doc.id}
+                  className={`flex items-center gap-2 px-1 py-0.5 rounded cursor-pointer hover:bg-zinc-800/50 ${
+                    matchesScope(doc, filters) ? 'text-zinc-300' : 'text-zinc-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!filters.documentIds?.includes(doc.id)}
+                    onChange={() => update({ documentIds: toggle(filters.documentIds, doc.id) })}
+                    disabled={disabled}
+                    className="rounded border-zinc-600 bg-zinc-800 text-white focus:ring-zinc-500"
+                  />
+                  <span className="truncate" title={doc.name}>{doc.name}</span>
+                </label>
+              ))}
+              {documents.length === 0 && <p className="text-zinc-600">Aucun document dans la base.</p>}
+            </div>
+          </div>
+          {scoped && inScope.length === 0 && (
+            <p className="text-amber-400">Aucun document ne correspond à ces critères.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
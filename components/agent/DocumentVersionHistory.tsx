@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, MessageSquare } from 'lucide-react'
+import type { DocumentVersion } from '@/lib/documentVersions'
+import { authHeaders } from '@/lib/authHeaders'
+
+interface DocumentVersionHistoryProps {
+  documentId: string
+  /** Ask the agent about one past version (scopes the next question to it) */
+  onAsk: (version: DocumentVersion) => void
+}
+
+/**
+ * Versions of a document, newest first; superseded ones can still be questioned explicitly.
+ */
+export function DocumentVersionHistory({ documentId, onAsk }: DocumentVersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setVersions(null)
+    setError(null)
+    ;(async () => {
+      try {
+        const res = await fetch(`/api/agent/documents/versions?id=${encodeURIComponent(documentId)}`, {
+          headers: await authHeaders(),
+        })
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(data.error || 'Failed to load versions')
+        if (!cancelled) setVersions(data.versions || [])
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Erreur inconnue')
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  if (error) return <p className="mt-1 pl-6 text-[11px] text-red-400">{error}</p>
+  if (!versions) return <Loader2 className="mt-1 ml-6 w-3 h-3 animate-spin text-zinc-500" />
+
+  return (
+    <div className="mt-1 pl-6 space-y-0.5 text-[11px]">
+      {versions.map((v) => {
+        const current = v.status === 'ready' && !v.superseded_at
+        return (
+          <div key={v.id} className="flex items-center gap-1.5 text-zinc-400">
+            <span className="font-medium text-zinc-300">v{v.version}</span>
+            <span>{new Date(v.uploaded_at).toLocaleDateString('fr-FR')}</span>
+            <span className="flex-1 truncate text-zinc-500">
+              {current ? 'actuelle' : v.status === 'ready' ? 'remplacée' : v.status === 'failed' ? 'échec' : 'en cours'}
+            </span>
+            {v.status === 'ready' && !current && (
+              <button
+                type="button"
+                onClick={() => onAsk(v)}
+                className="flex items-center gap-1 text-zinc-500 hover:text-zinc-200"
+                title="Poser la prochaine question sur cette version"
+              >
+                <MessageSquare className="w-3 h-3" />
+                Interroger
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
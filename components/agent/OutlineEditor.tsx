@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Check, Plus, Trash2, X } from 'lucide-react'
+import type { OutlineSection } from '@/lib/agentPipeline'
+
+interface OutlineEditorProps {
+  sections: OutlineSection[]
+  onApprove: (sections: OutlineSection[]) => void
+  onCancel: () => void
+}
+
+interface EditableSection {
+  key: string
+  title: string
+  description: string
+  queries: string
+}
+
+function toEditable(sections: OutlineSection[]): EditableSection[] {
+  return sections.map((s) => ({
+    key: crypto.randomUUID(),
+    title: s.title,
+    description: s.description || '',
+    queries: (s.search_queries || []).join('\n'),
+  }))
+}
+
+function fromEditable(sections: EditableSection[]): OutlineSection[] {
+  return sections
+    .filter((s) => s.title.trim())
+    .map((s) => ({
+      title: s.title.trim(),
+      description: s.description.trim() || undefined,
+      search_queries: s.queries
+        .split('\n')
+        .map((q) => q.trim())
+        .filter(Boolean),
+    }))
+}
+
+export function OutlineEditor({ sections, onApprove, onCancel }: OutlineEditorProps) {
+  const [items, setItems] = useState<EditableSection[]>(() => toEditable(sections))
+
+  const update = (key: string, patch: Partial<EditableSection>) =>
+    setItems((prev) => prev.map((s) => (s.key === key ? { ...s, ...patch } : s)))
+
+  const move = (index: number, delta: number) =>
+    setItems((prev) => {
+      const target = index + delta
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+
+  const approved = fromEditable(items)
+
+  return (
+    <div className="rounded-xl bg-zinc-900/80 border border-zinc-800 p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-zinc-200">Plan proposé</p>
+        <p className="text-xs text-zinc-500">
+          Réordonnez, renommez, supprimez ou ajoutez des sections, et ajustez leurs requêtes de recherche (une par ligne), puis lancez la rédaction.
+        </p>
+      </div>
+
+      <ol className="space-y-2">
+        {items.map((s, i) => (
+          <li key={s.key} className="rounded-lg border border-zinc-800 bg-zinc-950/60 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-zinc-500 w-5 shrink-0">{i + 1}.</span>
+              <input
+                value={s.title}
+                onChange={(e) => update(s.key, { title: e.target.value })}
+                placeholder="Titre de la section"
+                className="flex-1 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-sm text-zinc-100 focus:outline-none focus:border-zinc-500"
+              />
+              <button
+                type="button"
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                className="p-1 rounded text-zinc-500 hover:text-zinc-200 disabled:opacity-30"
+                title="Monter"
+              >
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(i, 1)}
+                disabled={i === items.length - 1}
+                className="p-1 rounded text-zinc-500 hover:text-zinc-200 disabled:opacity-30"
+                title="Descendre"
+              >
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setItems((prev) => prev.filter((o) => o.key !== s.key))}
+                className="p-1 rounded text-zinc-500 hover:text-red-400"
+                title="Supprimer"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <textarea
+              value={s.queries}
+              onChange={(e) => update(s.key, { queries: e.target.value })}
+              placeholder="Requêtes de recherche (une par ligne) — par défaut le titre de la section"
+              rows={2}
+              className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-zinc-600 resize-y"
+            />
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setItems((prev) => [...prev, { key: crypto.randomUUID(), title: '', description: '', queries: '' }])}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-700 text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Ajouter une section
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+          >
+            <X className="w-3.5 h-3.5" />
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={() => onApprove(approved)}
+            disabled={approved.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-white text-zinc-900 text-xs font-medium hover:bg-zinc-200 disabled:opacity-50"
+          >
+            <Check className="w-3.5 h-3.5" />
+            Lancer la rédaction ({approved.length} sections)
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
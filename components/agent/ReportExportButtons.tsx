@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import type { OutlineSection } from '@/lib/agentPipeline'
+import type { Citation } from '@/lib/ragSearch'
+import { authHeaders } from '@/lib/authHeaders'
+
+export interface ExportableReport {
+  title: string
+  content: string
+  outline: OutlineSection[]
+  sources?: { doc: string; excerpt: string }[]
+  citations?: Citation[]
+}
+
+interface ReportExportButtonsProps {
+  /** Id of the stored assistant message; when absent the report itself is sent. */
+  messageId?: string
+  report: ExportableReport
+}
+
+export function ReportExportButtons({ messageId, report }: ReportExportButtonsProps) {
+  const [pending, setPending] = useState<'docx' | 'pdf' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: 'docx' | 'pdf') => {
+    setPending(format)
+    setError(null)
+    try {
+      const res = await fetch('/api/agent/export', {
+        method: 'POST',
+        headers: await authHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify(messageId ? { format, messageId } : { format, report }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Export failed')
+      }
+      const blob = await res.blob()
+      const fileName =
+        res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `rapport-cdc.${format}`
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = fileName
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-2 text-xs">
+      {(['docx', 'pdf'] as const).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={pending != null}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-zinc-700 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+        >
+          {pending === format ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+          {format.toUpperCase()}
+        </button>
+      ))}
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, Clock, Loader2 } from 'lucide-react'
+
+export interface ReportJobItem {
+  id: string
+  session_id: string
+  message: string
+  status: 'queued' | 'running' | 'done' | 'failed'
+  progress: { message?: string; section?: number; total?: number; title?: string } | null
+  result_message_id: string | null
+  error: string | null
+  created_at: string
+}
+
+interface ReportJobListProps {
+  jobs: ReportJobItem[]
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (job: ReportJobItem) => void
+}
+
+function describeJob(job: ReportJobItem): string {
+  if (job.status === 'queued') return 'En file d’attente'
+  if (job.status === 'failed') return job.error || 'Échec'
+  if (job.status === 'done') return `Terminé le ${new Date(job.created_at).toLocaleDateString('fr-FR')}`
+  const p = job.progress
+  if (p?.section != null && p.total != null) return `Section ${p.section}/${p.total}${p.title ? ` : ${p.title}` : ''}`
+  return p?.message || 'En cours'
+}
+
+/**
+ * Deep reports run as background jobs; finished ones open their conversation.
+ */
+export function ReportJobList({ jobs, isOpen, onToggle, onSelect }: ReportJobListProps) {
+  const active = jobs.filter((j) => j.status === 'queued' || j.status === 'running').length
+
+  return (
+    <div className="border-b border-zinc-800 flex flex-col max-h-[30%] shrink-0">
+      <button
+        onClick={onToggle}
+        className="flex items-center justify-between w-full px-4 py-3 text-left text-sm font-medium text-zinc-300 hover:bg-zinc-800/50"
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          Rapports
+        </span>
+        <span className="text-zinc-500 text-xs">{active > 0 ? `${active} en cours` : jobs.length}</span>
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="flex flex-col overflow-hidden min-h-0"
+          >
+            <div className="flex-1 overflow-y-auto scrollbar-thin px-2 pb-2 space-y-1">
+              {jobs.length === 0 && <p className="px-2 py-1 text-xs text-zinc-500">Aucun rapport long pour l’instant.</p>}
+              {jobs.map((job) => (
+                <div
+                  key={job.id}
+                  onClick={() => onSelect(job)}
+                  className="flex items-start gap-2 py-2 px-2 rounded-lg cursor-pointer hover:bg-zinc-800/50"
+                >
+                  {job.status === 'done' ? (
+                    <CheckCircle2 className="w-4 h-4 text-emerald-400/80 shrink-0 mt-0.5" />
+                  ) : job.status === 'failed' ? (
+                    <AlertTriangle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+                  ) : job.status === 'running' ? (
+                    <Loader2 className="w-4 h-4 text-zinc-400 animate-spin shrink-0 mt-0.5" />
+                  ) : (
+                    <Clock className="w-4 h-4 text-zinc-500 shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-zinc-300 truncate" title={job.message}>
+                      {job.message}
+                    </p>
+                    <p className="text-[11px] text-zinc-500 truncate">{describeJob(job)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react'
+import type { OutlineSection } from '@/lib/agentPipeline'
+import type { Citation } from '@/lib/ragSearch'
+import { readSSEStream } from '@/lib/sseClient'
+import { authHeaders } from '@/lib/authHeaders'
+
+type SectionEvent =
+  | { type: 'status'; phase: string; message?: string }
+  | { type: 'content'; text: string }
+  | { type: 'report'; messageId: string; content: string; citations: Citation[] }
+  | { type: 'error'; message: string }
+  | { type: 'done' }
+
+interface SectionReworkPanelProps {
+  messageId: string
+  outline: OutlineSection[]
+  onReportUpdated: (content: string, citations: Citation[]) => void
+}
+
+/**
+ * Regenerate or extend one section of a stored deep report, with optional instructions and queries.
+ */
+export function SectionReworkPanel({ messageId, outline, onReportUpdated }: SectionReworkPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [sectionIndex, setSectionIndex] = useState(0)
+  const [mode, setMode] = useState<'replace' | 'extend'>('replace')
+  const [instructions, setInstructions] = useState('')
+  const [queries, setQueries] = useState('')
+  const [running, setRunning] = useState(false)
+  const [preview, setPreview] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRun = async () => {
+    setRunning(true)
+    setPreview('')
+    setError(null)
+    try {
+      const searchQueries = queries.split('\n').map((q) => q.trim()).filter(Boolean)
+      const res = await fetch('/api/agent/sections', {
+        method: 'POST',
+        headers: await authHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({
+          messageId,
+          sectionIndex,
+          mode,
+          instructions: instructions.trim() || undefined,
+          searchQueries: searchQueries.length > 0 ? searchQueries : undefined,
+        }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Request failed')
+      }
+      await readSSEStream<SectionEvent>(res, (event) => {
+        if (event.type === 'content') setPreview((prev) => prev + event.text)
+        else if (event.type === 'report') {
+          onReportUpdated(event.content, event.citations)
+          setPreview('')
+          setInstructions('')
+        } else if (event.type === 'error') setError(event.message)
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur inconnue')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-1.5 text-zinc-500 hover:text-zinc-300"
+      >
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        Retravailler une section
+      </button>
+      {open && (
+        <div className="mt-2 rounded-lg border border-zinc-800 bg-zinc-900/60 p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={sectionIndex}
+              onChange={(e) => setSectionIndex(Number(e.target.value))}
+              disabled={running}
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+            >
+              {outline.map((s, i) => (
+                <option key={i} value={i}>
+                  {i + 1}. {s.title}
+                </option>
+              ))}
+            </select>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value === 'extend' ? 'extend' : 'replace')}
+              disabled={running}
+              className="bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+            >
+              <option value="replace">Réécrire</option>
+              <option value="extend">Compléter</option>
+            </select>
+          </div>
+          <textarea
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="Consignes supplémentaires (optionnel), ex. « ajoute les chiffres 2023 »"
+            rows={2}
+            disabled={running}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-zinc-300 focus:outline-none focus:border-zinc-600 resize-y"
+          />
+          <textarea
+            value={queries}
+            onChange={(e) => setQueries(e.target.value)}
+            placeholder={`Requêtes de recherche (une par ligne, optionnel) — par défaut : ${(outline[sectionIndex]?.search_queries || []).join(' · ') || outline[sectionIndex]?.title || ''}`}
+            rows={2}
+            disabled={running}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-2 py-1 text-zinc-300 focus:outline-none focus:border-zinc-600 resize-y"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={running}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-white text-zinc-900 font-medium hover:bg-zinc-200 disabled:opacity-50"
+            >
+              {running ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              {mode === 'extend' ? 'Compléter la section' : 'Régénérer la section'}
+            </button>
+            {error && <span className="text-red-400">{error}</span>}
+          </div>
+          {running && preview && (
+            <pre className="max-h-48 overflow-y-auto scrollbar-thin whitespace-pre-wrap text-zinc-400 font-sans">{preview}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, ChevronRight, MessageSquare, Plus, Trash2 } from 'lucide-react'
+
+export interface SessionItem {
+  id: string
+  title: string
+  updated_at: string
+}
+
+interface SessionListProps {
+  sessions: SessionItem[]
+  activeId: string | null
+  isOpen: boolean
+  onToggle: () => void
+  onSelect: (id: string) => void
+  onNew: () => void
+  onDelete: (id: string) => void
+}
+
+export function SessionList({ sessions, activeId, isOpen, onToggle, onSelect, onNew, onDelete }: SessionListProps) {
+  return (
+    <div className="border-b border-zinc-800 flex flex-col max-h-[40%] shrink-0">
+      <button
+        onClick={onToggle}
+        className="flex items-center justify-between w-full px-4 py-3 text-left text-sm font-medium text-zinc-300 hover:bg-zinc-800/50"
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          Conversations
+        </span>
+        <span className="text-zinc-500 text-xs">{sessions.length}</span>
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="flex flex-col overflow-hidden min-h-0"
+          >
+            <div className="px-3 pb-2">
+              <button
+                onClick={onNew}
+                className="flex items-center justify-center gap-2 w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 transition-colors text-sm text-zinc-300"
+              >
+                <Plus className="w-4 h-4" />
+                Nouvelle conversation
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto scrollbar-thin px-2 pb-2 space-y-1">
+              {sessions.map((s) => (
+                <div
+                  key={s.id}
+                  onClick={() => onSelect(s.id)}
+                  className={`flex items-center gap-2 py-2 px-2 rounded-lg cursor-pointer group ${
+                    s.id === activeId ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                  }`}
+                >
+                  <MessageSquare className="w-4 h-4 text-zinc-500 shrink-0" />
+                  <span className="flex-1 text-xs text-zinc-300 truncate" title={s.title}>
+                    {s.title}
+                  </span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDelete(s.id)
+                    }}
+                    className="p-1 rounded text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
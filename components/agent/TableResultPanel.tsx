@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Calculator, ChevronDown, ChevronRight } from 'lucide-react'
+import type { TableQueryResult } from '@/lib/tableQuery'
+import type { CellValue } from '@/lib/dataTables'
+
+interface TableResultPanelProps {
+  result: TableQueryResult
+}
+
+function formatCell(value: CellValue): string {
+  if (value === null) return '—'
+  if (typeof value === 'boolean') return value ? 'Vrai' : 'Faux'
+  // Same rendering as the calculation results given to the model (see tableQuery)
+  if (typeof value === 'number') {
+    return value.toLocaleString('fr-FR', { maximumFractionDigits: 4, useGrouping: Math.abs(value) >= 10000 })
+  }
+  return value
+}
+
+/**
+ * A calculation run on a tabular document for the answer: source table, operation performed and the
+ * computed rows, so the figures quoted in the answer can be checked.
+ */
+export function TableResultPanel({ result }: TableResultPanelProps) {
+  const [isOpen, setIsOpen] = useState(result.rows.length <= 10)
+
+  return (
+    <div className="mt-2 rounded-xl border border-zinc-800 bg-zinc-900/60 text-xs">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-2 w-full px-3 py-2 text-left text-zinc-400 hover:bg-zinc-800/50 rounded-xl"
+      >
+        <Calculator className="w-4 h-4 shrink-0 text-sky-400" />
+        <span className="flex-1 min-w-0">
+          <span className="block truncate">
+            Calcul sur « {result.table_name} » — {result.document_name}
+          </span>
+          <span className="block text-zinc-500 break-words">{result.operation}</span>
+        </span>
+        {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden px-3 pb-3"
+          >
+            <div className="max-h-72 overflow-auto rounded-lg border border-zinc-800">
+              <table className="w-full border-collapse">
+                <thead className="sticky top-0 bg-zinc-900">
+                  <tr>
+                    {result.columns.map((column, i) => (
+                      <th
+                        key={i}
+                        className={`px-2 py-1.5 font-medium text-zinc-300 border-b border-zinc-800 whitespace-nowrap ${
+                          column.type === 'number' ? 'text-right' : 'text-left'
+                        }`}
+                      >
+                        {column.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row, r) => (
+                    <tr key={r} className="odd:bg-zinc-900/40">
+                      {row.map((value, i) => (
+                        <td
+                          key={i}
+                          className={`px-2 py-1 text-zinc-300 ${
+                            typeof value === 'number' ? 'text-right tabular-nums whitespace-nowrap' : 'text-left'
+                          }`}
+                        >
+                          {formatCell(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-1.5 text-zinc-500">
+              {result.matched_rows} ligne(s) du tableau retenue(s)
+              {result.truncated && ` — seules les ${result.rows.length} premières lignes du résultat sont affichées`}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
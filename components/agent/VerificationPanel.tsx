@@ -0,0 +1,84 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, ChevronRight, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react'
+import type { AnswerVerification } from '@/lib/answerVerification'
+
+interface VerificationPanelProps {
+  verification: AnswerVerification
+}
+
+function confidenceTone(confidence: number | null): string {
+  if (confidence === null) return 'text-zinc-500'
+  if (confidence >= 0.9) return 'text-emerald-400'
+  if (confidence >= 0.7) return 'text-amber-400'
+  return 'text-red-400'
+}
+
+/**
+ * Result of the verification pass: confidence summary, then the flagged sentences highlighted
+ * (amber: not supported by the extracts, red: contradicted) with the checker's reason. When no claim
+ * could be checked (unreadable checker replies, nothing to check), the answer is shown as not verified.
+ */
+export function VerificationPanel({ verification }: VerificationPanelProps) {
+  const flagged = verification.claims
+  const [isOpen, setIsOpen] = useState(flagged.length > 0 && flagged.length <= 5)
+  // Reports saved before confidence became nullable stored 1 when nothing was checked
+  const confidence = verification.checked > 0 ? verification.confidence : null
+  const Icon = confidence === null ? ShieldQuestion : flagged.length > 0 ? ShieldAlert : ShieldCheck
+  const tone = confidenceTone(confidence)
+
+  return (
+    <div className="mt-2 rounded-xl border border-zinc-800 bg-zinc-900/60 text-xs">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={flagged.length === 0}
+        className="flex items-center gap-2 w-full px-3 py-2 text-left text-zinc-400 enabled:hover:bg-zinc-800/50 rounded-xl"
+      >
+        <Icon className={`w-4 h-4 shrink-0 ${tone}`} />
+        <span className="flex-1 min-w-0">
+          {confidence === null ? (
+            <>Vérification : réponse non vérifiée, aucune affirmation n’a pu être contrôlée</>
+          ) : (
+            <>
+              Vérification : {verification.supported}/{verification.checked} affirmations étayées par les sources
+              <span className={`ml-1.5 font-medium ${tone}`}>({Math.round(confidence * 100)} %)</span>
+            </>
+          )}
+          {verification.unsupported > 0 && <span className="ml-2 text-amber-400">{verification.unsupported} non étayée(s)</span>}
+          {verification.contradicted > 0 && <span className="ml-2 text-red-400">{verification.contradicted} contredite(s)</span>}
+          {verification.unchecked > 0 && <span className="ml-2 text-zinc-500">{verification.unchecked} non vérifiée(s)</span>}
+        </span>
+        {flagged.length > 0 && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+      </button>
+      <AnimatePresence>
+        {isOpen && flagged.length > 0 && (
+          <motion.ul
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden px-3 pb-3 space-y-2"
+          >
+            {flagged.map((claim, i) => (
+              <li key={i} className="space-y-0.5">
+                <mark
+                  className={`px-1 rounded text-zinc-100 ${
+                    claim.verdict === 'contradicted' ? 'bg-red-500/25' : 'bg-amber-500/20'
+                  }`}
+                >
+                  {claim.text}
+                </mark>
+                <p className={claim.verdict === 'contradicted' ? 'text-red-400/90' : 'text-amber-400/90'}>
+                  {claim.verdict === 'contradicted' ? 'Contredit par les sources' : 'Non étayé par les sources'}
+                  {claim.reason && <span className="text-zinc-500"> — {claim.reason}</span>}
+                </p>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+export { CitedAnswer } from './CitedAnswer'
+export { SessionList, type SessionItem } from './SessionList'
+export { ReportExportButtons, type ExportableReport } from './ReportExportButtons'
+export { OutlineEditor } from './OutlineEditor'
+export { SectionReworkPanel } from './SectionReworkPanel'
+export { ReportJobList, type ReportJobItem } from './ReportJobList'
+export { VerificationPanel } from './VerificationPanel'
+export { TableResultPanel } from './TableResultPanel'
+export { DocumentScopeSelector, isScoped, matchesScope, type ScopeDocument } from './DocumentScopeSelector'
+export { DocumentMetadataForm } from './DocumentMetadataForm'
+export { CollectionPanel } from './CollectionPanel'
+export { DocumentIngestionStatus, isIngestionPending } from './DocumentIngestionStatus'
+export { DocumentVersionHistory } from './DocumentVersionHistory'
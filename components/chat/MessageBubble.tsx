@@ -4,7 +4,7 @@ import { useState } from 'react'
 import { motion } from 'framer-motion'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { Copy, Check, RefreshCw, Edit3, ThumbsUp, ThumbsDown, User, Bot, FileText, Image as ImageIcon, File } from 'lucide-react'
+import { Copy, Check, RefreshCw, Edit3, ThumbsUp, ThumbsDown, User, Bot, FileText, Image as ImageIcon, File, Square } from 'lucide-react'
 import { CodeBlock } from './CodeBlock'
 
 interface MessageFile {
@@ -22,6 +22,8 @@ interface Message {
   created_at: string
   feedback?: 'up' | 'down' | null
   files?: MessageFile[]
+  /** Generation was stopped before the end */
+  stopped?: boolean
 }
 
 interface MessageBubbleProps {
@@ -31,6 +33,8 @@ interface MessageBubbleProps {
   onRegenerate?: () => void
   onFeedback?: (feedback: 'up' | 'down') => void
   isStreaming?: boolean
+  /** Marker shown under a stopped answer */
+  stoppedLabel?: string
 }
 
 export function MessageBubble({ 
@@ -39,7 +43,8 @@ export function MessageBubble({
   onEdit, 
   onRegenerate,
   onFeedback,
-  isStreaming 
+  isStreaming,
+  stoppedLabel = 'Stopped'
 }: MessageBubbleProps) {
   const [copied, setCopied] = useState(false)
   const isUser = message.role === 'user'
@@ -161,6 +166,13 @@ export function MessageBubble({
               {isStreaming && (
                 <span className="inline-block w-2 h-4 bg-zinc-400 animate-pulse ml-0.5" />
               )}
+
+              {message.stopped && !isStreaming && (
+                <p className="flex items-center gap-1.5 mt-2 text-xs text-zinc-500">
+                  <Square className="w-3 h-3" />
+                  {stoppedLabel}
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Settings, X, Sliders, Brain, MessageSquare, Globe, Zap, Languages, ChevronDown } from 'lucide-react'
+import { UsageDashboard } from './UsageDashboard'
 
 // Available languages
 export const LANGUAGES = [
@@ -51,9 +52,12 @@ interface SettingsPanelProps {
   onSettingsChange: (settings: ChatSettings) => void
   isOpen: boolean
   onClose: () => void
+  /** Shown in the usage dashboard */
+  userId?: string
+  conversationId?: string
 }
 
-export function SettingsPanel({ settings, onSettingsChange, isOpen, onClose }: SettingsPanelProps) {
+export function SettingsPanel({ settings, onSettingsChange, isOpen, onClose, userId, conversationId }: SettingsPanelProps) {
   const [languageDropdownOpen, setLanguageDropdownOpen] = useState(false)
   
   const updateSetting = <K extends keyof ChatSettings>(key: K, value: ChatSettings[K]) => {
@@ -254,6 +258,9 @@ export function SettingsPanel({ settings, onSettingsChange, isOpen, onClose }: S
                   <span>8000</span>
                 </div>
               </div>
+
+              {/* Usage */}
+              <UsageDashboard userId={userId} conversationId={conversationId} />
             </div>
           </motion.div>
         </>
@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BarChart3, Loader2 } from 'lucide-react'
+import type { UsageSummary, UsageTotals } from '@/lib/usage'
+import { authHeaders } from '@/lib/authHeaders'
+
+interface UsageDashboardProps {
+  /** Signed-in user (the usage shown is the caller's, verified by the API); reloads when it changes */
+  userId?: string
+  /** Current chat conversation, whose totals are shown separately */
+  conversationId?: string
+}
+
+interface UsageResponse {
+  days: number
+  summary: UsageSummary
+  conversation: UsageTotals | null
+}
+
+const formatTokens = (n: number) => (n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`)
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`
+
+export function UsageDashboard({ userId, conversationId }: UsageDashboardProps) {
+  const [data, setData] = useState<UsageResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const params = new URLSearchParams()
+    if (conversationId) params.set('conversationId', conversationId)
+    setLoading(true)
+    authHeaders()
+      .then((headers) => fetch(`/api/usage?${params}`, { headers }))
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to load usage')
+        const json = (await res.json()) as UsageResponse
+        if (!cancelled) setData(json)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, conversationId])
+
+  const totals = data?.summary.totals
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <BarChart3 className="w-4 h-4 text-zinc-500" />
+        <label className="text-sm font-medium text-zinc-300">Usage</label>
+        {data && <span className="text-xs text-zinc-500">last {data.days} days</span>}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Loading usage...
+        </div>
+      ) : error || !totals ? (
+        <p className="text-xs text-zinc-500">{error || 'No usage recorded yet'}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { label: 'Requests', value: `${totals.requests}` },
+              { label: 'Model calls', value: `${totals.calls}` },
+              { label: 'Tokens', value: formatTokens(totals.prompt_tokens + totals.completion_tokens) },
+              { label: 'Est. cost', value: formatCost(totals.cost_usd) },
+            ].map((item) => (
+              <div key={item.label} className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg">
+                <p className="text-xs text-zinc-500">{item.label}</p>
+                <p className="text-sm font-medium text-zinc-100">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {data.conversation && (
+            <p className="text-xs text-zinc-400">
+              This conversation: {data.conversation.calls} calls ·{' '}
+              {formatTokens(data.conversation.prompt_tokens + data.conversation.completion_tokens)} tokens ·{' '}
+              {formatCost(data.conversation.cost_usd)}
+            </p>
+          )}
+
+          {data.summary.byModel.length > 0 && (
+            <div className="space-y-1.5">
+              {data.summary.byModel.map((m) => {
+                const share = totals.calls > 0 ? (m.calls / totals.calls) * 100 : 0
+                return (
+                  <div key={m.model}>
+                    <div className="flex justify-between text-xs">
+                      <span className="text-zinc-300 truncate" title={m.model}>{m.model}</span>
+                      <span className="text-zinc-500 shrink-0 ml-2">
+                        {m.calls} · {formatCost(m.cost_usd)}
+                      </span>
+                    </div>
+                    <div className="h-1 mt-1 bg-zinc-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-zinc-400" style={{ width: `${share}%` }} />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {(totals.fallbacks > 0 || totals.errors > 0) && (
+            <p className="text-xs text-zinc-500">
+              {totals.fallbacks} call(s) served by a fallback model · {totals.errors} failed
+            </p>
+          )}
+          <p className="text-xs text-zinc-600">Token counts are estimated when the provider does not report them.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ export { CodeBlock } from './CodeBlock'
 export { FilePreview } from './FilePreview'
 export { PromptTemplates, parseSlashCommand, getPromptFromCommand } from './PromptTemplates'
 export { SettingsPanel, type ChatSettings } from './SettingsPanel'
+export { UsageDashboard } from './UsageDashboard'
 
 
 
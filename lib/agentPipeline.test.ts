@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { runPipeline, type SSEEvent } from './agentPipeline'
+import { LLMError } from './llm'
+import { toDataTable, storeDocumentTables } from './dataTables'
+import { parseCsv } from './extractors'
+import { installTestHarness, seedCdcDocument, collectEvents, collectSSE, memoryAccessToken, type TestHarness } from './testing'
+import { POST as chat } from '@/app/api/agent/chat/route'
+import { GET as getSession } from '@/app/api/agent/sessions/[id]/route'
+
+let harness: TestHarness | null = null
+
+function setup(...args: Parameters<typeof installTestHarness>): TestHarness {
+  harness = installTestHarness(...args)
+  return harness
+}
+
+afterEach(() => {
+  harness?.restore()
+  harness = null
+})
+
+const types = (events: SSEEvent[]) => events.map((e) => e.type)
+const text = (events: SSEEvent[]) => events.map((e) => (e.type === 'content' ? e.text : '')).join('')
+
+describe('runPipeline', () => {
+  it('answers a quick question from the documents, citing them', async () => {
+    const { db } = setup({ script: { answer: 'Le budget atteint 10 milliards [1].' } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+
+    const events = await collectEvents(runPipeline('Quel est le budget ?', { mode: 'quick' }))
+
+    expect(text(events)).toBe('Le budget atteint 10 milliards [1].')
+    const citations = events.flatMap((e) => (e.type === 'citations' ? e.citations : []))
+    expect(citations.map((c) => c.document_name)).toEqual(['rapport.pdf'])
+    expect(types(events)).not.toContain('error')
+    expect(events[events.length - 1]).toEqual({ type: 'done' })
+  })
+
+  it('does not search documents that are still being ingested or failed', async () => {
+    const { db } = setup({ script: { answer: 'Le budget atteint 10 milliards [1].' } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+    seedCdcDocument(db, 'brouillon.pdf', ['Le budget de la Caisse des Dépôts atteint 12 milliards.']).status = 'indexing'
+    seedCdcDocument(db, 'casse.pdf', ['Le budget de la Caisse des Dépôts atteint 14 milliards.']).status = 'failed'
+
+    const events = await collectEvents(runPipeline('Quel est le budget ?', { mode: 'quick' }))
+
+    const citations = events.flatMap((e) => (e.type === 'citations' ? e.citations : []))
+    expect(citations.map((c) => c.document_name)).toEqual(['rapport.pdf'])
+  })
+
+  it('writes a deep report section by section after the outline', async () => {
+    const { db } = setup({
+      script: {
+        outline: [
+          { title: 'Contexte', search_queries: ['budget'] },
+          { title: 'Perspectives', search_queries: ['logement'] },
+        ],
+        sections: { Contexte: 'Le budget atteint 10 milliards [1].' },
+      },
+    })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse atteint 10 milliards.', 'Le logement social progresse.'])
+
+    const events = await collectEvents(runPipeline('Rédige un rapport sur la Caisse', { forceDeep: true }))
+
+    const outline = events.find((e) => e.type === 'outline')
+    expect(outline?.type === 'outline' && outline.sections.map((s) => s.title)).toEqual(['Contexte', 'Perspectives'])
+    const report = text(events)
+    expect(report).toContain('Le budget atteint 10 milliards')
+    expect(report).toContain('Contenu de la section Perspectives')
+    expect(report.indexOf('Contexte')).toBeLessThan(report.indexOf('Perspectives'))
+    expect(types(events)).toContain('sources')
+    expect(events[events.length - 1]).toEqual({ type: 'done' })
+  })
+
+  it('computes the tables once for a deep report and gives them to every section', async () => {
+    const { db, llm } = setup({
+      script: {
+        outline: [
+          { title: 'Contexte', search_queries: ['encours'] },
+          { title: 'Perspectives', search_queries: ['région'] },
+        ],
+        tables: '{"queries":[{"table":"T1","group_by":["Région"],"aggregates":[{"fn":"sum","column":"Encours"}]}]}',
+      },
+    })
+    const doc = seedCdcDocument(db, 'encours.csv', ['Encours des prêts par région.'])
+    const table = toDataTable('encours', parseCsv('Région;Encours\nBretagne;1200\nBretagne;300\nNormandie;900'))
+    await storeDocumentTables(String(doc.id), 'encours.csv', [table!])
+
+    const events = await collectEvents(runPipeline('Rédige un rapport sur les encours', { forceDeep: true }))
+
+    const computed = events.filter((e) => e.type === 'table_results')
+    expect(computed).toHaveLength(1)
+    expect(computed[0].type === 'table_results' && computed[0].results[0].rows).toEqual([
+      ['Bretagne', 1500],
+      ['Normandie', 900],
+    ])
+    const sectionCalls = llm.calls.filter((c) => c.options.system_prompt?.includes('Tu rédiges la section'))
+    expect(sectionCalls).toHaveLength(2)
+    sectionCalls.forEach((c) => expect(c.messages[c.messages.length - 1].content).toContain('RÉSULTATS DE CALCUL'))
+  })
+
+  it('explains how to add documents when the base is empty, without calling the answer model', async () => {
+    const { llm } = setup()
+
+    const events = await collectEvents(runPipeline('Quel est le budget ?', { mode: 'quick' }))
+
+    expect(text(events)).toContain('Aucun document dans la base')
+    expect(types(events)).toEqual(['status', 'content', 'done'])
+    expect(llm.calls.some((c) => c.options.system_prompt?.includes("Tu es l'Agent CDC"))).toBe(false)
+  })
+
+  it('turns a model failure into an error event, then done', async () => {
+    const { db } = setup({ script: { answer: new LLMError('rate_limit') } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse atteint 10 milliards.'])
+
+    const events = await collectEvents(runPipeline('Quel est le budget ?', { mode: 'quick' }))
+
+    const error = events.find((e) => e.type === 'error')
+    expect(error).toMatchObject({ type: 'error', code: 'rate_limit', retryable: true })
+    expect(events[events.length - 1]).toEqual({ type: 'done' })
+  })
+
+  it('reports no confidence when the checker could not verify any claim', async () => {
+    const { db } = setup({ script: { answer: 'Le budget de la Caisse atteint 10 milliards cette année [1].', verify: 'pas de JSON' } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+
+    const events = await collectEvents(runPipeline('Quel est le budget ?', { mode: 'quick', verify: true }))
+
+    const verification = events.find((e) => e.type === 'verification')
+    expect(verification).toMatchObject({ verification: { checked: 0, unchecked: 1, confidence: null } })
+  })
+})
+
+describe('POST /api/agent/chat', () => {
+  it('streams the quick answer and stores it in the session', async () => {
+    const { db } = setup({ script: { answer: 'Le budget atteint 10 milliards [1].' } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+
+    const res = await chat(
+      new NextRequest('http://localhost/api/agent/chat', { method: 'POST', body: JSON.stringify({ message: 'Quel est le budget ?' }) })
+    )
+    const events = await collectSSE<SSEEvent>(res)
+
+    expect(text(events)).toBe('Le budget atteint 10 milliards [1].')
+    const saved = events.find((e) => e.type === 'saved')
+    expect(saved).toBeDefined()
+    const stored = db.rows('cdc_agent_messages')
+    expect(stored.map((m) => m.role)).toEqual(['user', 'assistant'])
+    expect(stored[1].content).toBe('Le budget atteint 10 milliards [1].')
+  })
+
+  it('reports a failed answer as an error event and does not store it', async () => {
+    const { db } = setup({ script: { answer: new LLMError('timeout') } })
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+
+    const res = await chat(
+      new NextRequest('http://localhost/api/agent/chat', { method: 'POST', body: JSON.stringify({ message: 'Quel est le budget ?' }) })
+    )
+    const events = await collectSSE<SSEEvent>(res)
+
+    expect(events.find((e) => e.type === 'error')).toMatchObject({ code: 'timeout', retryable: true })
+    expect(db.rows('cdc_agent_messages').map((m) => m.role)).toEqual(['user'])
+  })
+
+  it("refuses to continue or read another user's session", async () => {
+    const { db } = setup()
+    seedCdcDocument(db, 'rapport.pdf', ['Le budget de la Caisse des Dépôts atteint 10 milliards.'])
+    const asAlice = { Authorization: `Bearer ${memoryAccessToken('alice')}` }
+    const first = await collectSSE<SSEEvent>(
+      await chat(new NextRequest('http://localhost/api/agent/chat', { method: 'POST', headers: asAlice, body: JSON.stringify({ message: 'Quel est le budget ?' }) }))
+    )
+    const started = first.find((e) => e.type === 'session')
+    const sessionId = started?.type === 'session' ? started.sessionId : ''
+    expect(db.rows('cdc_agent_sessions').find((s) => s.id === sessionId)?.user_id).toBe('alice')
+
+    const hijack = await chat(
+      new NextRequest('http://localhost/api/agent/chat', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${memoryAccessToken('mallory')}` },
+        body: JSON.stringify({ message: 'Et en 2022 ?', sessionId, userId: 'alice' }),
+      })
+    )
+    expect(hijack.status).toBe(404)
+    const read = await getSession(new NextRequest(`http://localhost/api/agent/sessions/${sessionId}`), { params: { id: sessionId } })
+    expect(read.status).toBe(404)
+    const own = await getSession(new NextRequest(`http://localhost/api/agent/sessions/${sessionId}`, { headers: asAlice }), { params: { id: sessionId } })
+    expect(own.status).toBe(200)
+  })
+})
@@ -3,19 +3,59 @@
  * Yields SSE-shaped events for the API route to stream.
  */
 
-import { streamGPT5, type ChatMessage } from './replicate'
-import { multiQuerySearch, searchChunks, buildContext, getChunkCount, getRecentChunks, type SearchChunk } from './ragSearch'
+import type { ChatMessage } from './replicate'
+import { getLLMProvider, LLMError, throwIfAborted, type LLMErrorKind, type LLMProvider } from './llm'
+import { orderedMerge, concurrencyFromEnv } from './concurrency'
+import { verifyAnswer, type AnswerVerification } from './answerVerification'
+import {
+  multiQuerySearch,
+  hybridSearchChunks,
+  buildContext,
+  getChunkCount,
+  getRecentChunks,
+  createCitationIndex,
+  registerCitations,
+  seedCitationIndex,
+  type Citation,
+  type CitationIndex,
+  type SearchChunk,
+  type SearchFilters,
+} from './ragSearch'
+import { rerankChunks } from './rerank'
+import { packContext, packedSection, summarizeHistory, type ContextItem } from './contextBudget'
+import { listDataTables } from './dataTables'
+import { queryDataTables, buildTableContext, type TableQueryResult } from './tableQuery'
+
+export interface OutlineSection {
+  title: string
+  description?: string
+  search_queries?: string[]
+}
 
 export type SSEEvent =
-  | { type: 'status'; phase: 'search' | 'plan' | 'generate'; message?: string; section?: number; total?: number; title?: string }
-  | { type: 'outline'; sections: { title: string; description?: string; search_queries?: string[] }[] }
+  | { type: 'status'; phase: 'search' | 'compute' | 'plan' | 'generate' | 'verify'; message?: string; section?: number; total?: number; title?: string }
+  | { type: 'outline'; sections: OutlineSection[]; awaitingApproval?: boolean }
   | { type: 'content'; text: string }
   | { type: 'sources'; chunks: { doc: string; excerpt: string }[] }
+  | { type: 'citations'; citations: Citation[] }
+  /** Tables computed from tabular documents for the answer, with the operation performed */
+  | { type: 'table_results'; results: TableQueryResult[] }
+  /** Result of the optional verification pass: flagged claims and confidence summary */
+  | { type: 'verification'; verification: AnswerVerification }
+  /** Id of the server-side job producing the stream (to resume or stop it) */
+  | { type: 'job'; jobId: string }
+  | { type: 'session'; sessionId: string }
+  /** The deep report was queued as a persisted job (cdc_report_jobs) */
+  | { type: 'report_job'; reportJobId: string }
+  | { type: 'saved'; messageId: string }
+  | { type: 'report'; messageId: string; content: string; citations: Citation[] }
   | { type: 'done' }
-  | { type: 'error'; message: string }
+  /** The request was cancelled; content streamed so far is partial */
+  | { type: 'stopped' }
+  | { type: 'error'; message: string; code?: LLMErrorKind; retryable?: boolean }
 
 const QUICK_SYSTEM =
-  'Tu es l\'Agent CDC, un assistant expert sur la Caisse des Dépôts et Consignations. Réponds aux questions en te basant UNIQUEMENT sur les extraits de documents fournis. Réponds toujours en français. Cite le nom du document source quand c\'est possible. Si l\'information n\'est pas dans les documents, dis-le honnêtement.'
+  'Tu es l\'Agent CDC, un assistant expert sur la Caisse des Dépôts et Consignations. Réponds aux questions en te basant UNIQUEMENT sur les extraits de documents fournis. Réponds toujours en français. Appuie chaque affirmation sur les extraits en citant leur numéro entre crochets, par exemple [3] ou [2][5]. N\'invente jamais de numéro. Les extraits marqués « OCR » viennent de documents scannés : si leur confiance est faible, signale que les chiffres ou noms cités peuvent être mal lus. Les résultats de calcul sur les tableaux de données sont exacts : reprends leurs chiffres tels quels sans refaire de calcul, et indique l\'opération effectuée et le document source. Si l\'information n\'est pas dans les documents, dis-le honnêtement.'
 
 const CLASSIFY_SYSTEM =
   'Tu dois classifier la demande utilisateur. Réponds par exactement un seul mot: "quick" si c\'est une question courte (fait, chiffre, définition), ou "deep" si l\'utilisateur demande un rapport, une analyse longue, une synthèse multi-documents, ou un document de plus d\'une page. Réponds uniquement: quick ou deep.'
@@ -27,29 +67,126 @@ const OUTLINE_SYSTEM =
   'À partir de la demande de l\'utilisateur et des extraits de documents fournis, génère un plan structuré détaillé (titres de sections) pour un document complet. Chaque section doit couvrir un aspect précis. Réponds en JSON valide uniquement, avec ce format: {"sections":[{"title":"...","description":"...","search_queries":["..."]}]}. Pas de texte avant ou après le JSON.'
 
 const SECTION_SYSTEM_PREFIX =
-  'Tu rédiges la section "{{title}}" d\'un rapport sur la Caisse des Dépôts. Base-toi UNIQUEMENT sur les extraits fournis. Sois exhaustif, détaillé et professionnel. Cite tes sources (nom du document). Écris au moins {{min_chars}} caractères pour cette section. Réponds en français.'
+  'Tu rédiges la section "{{title}}" d\'un rapport sur la Caisse des Dépôts. Base-toi UNIQUEMENT sur les extraits fournis. Sois exhaustif, détaillé et professionnel. Cite chaque affirmation avec le numéro de l\'extrait entre crochets, par exemple [3] ou [2][5]. N\'invente jamais de numéro. Les résultats de calcul sur les tableaux de données sont exacts : reprends leurs chiffres tels quels sans refaire de calcul, et indique l\'opération effectuée et le document source. Écris au moins {{min_chars}} caractères pour cette section. Ne répète pas le titre de la section (il est déjà affiché) ; utilise des sous-titres ### si nécessaire. Réponds en français.'
+
+/** Extracts kept after reranking: quick answer, deep-mode outline, each deep-mode section */
+const QUICK_CHUNKS = 12
+const OUTLINE_CHUNKS = 30
+const SECTION_CHUNKS = 16
+
+const HISTORY_MAX_MESSAGES = 6
+const HISTORY_MAX_CHARS = 6000
+
+/**
+ * Format previous turns so follow-ups ("développe la section 3") can be resolved.
+ * Only the last few messages are kept and long reports are truncated.
+ */
+function formatHistory(history: ChatMessage[], maxCharsPerMessage: number = HISTORY_MAX_CHARS): string {
+  const recent = history.filter((m) => m.role !== 'system').slice(-HISTORY_MAX_MESSAGES)
+  if (recent.length === 0) return ''
+  const parts = recent.map((m) => {
+    const content = m.content.length > maxCharsPerMessage
+      ? m.content.slice(0, maxCharsPerMessage) + '\n[... tronqué ...]'
+      : m.content
+    return `**${m.role === 'user' ? 'Utilisateur' : 'Agent CDC'}:**\n${content}`
+  })
+  return '## HISTORIQUE DE LA CONVERSATION\n\n' + parts.join('\n\n') + '\n---\n\n'
+}
+
+interface PromptParts {
+  system: string
+  /** The request itself (question, section instructions), always sent whole */
+  request: string
+  history: ChatMessage[]
+  /** Extracts, best first */
+  chunks: SearchChunk[]
+  /** Completion tokens wanted */
+  outputTokens: number
+}
+
+/**
+ * Fit the history and extracts of one prompt into the model's context window (see contextBudget):
+ * the lowest-ranked extracts and the oldest turns are left out first, long turns are shortened, and
+ * the turns left out are summarized when the budget has room for it.
+ */
+async function fitPrompt(
+  call: LLMCall,
+  parts: PromptParts
+): Promise<{ historyContext: string; chunks: SearchChunk[]; outputTokens: number }> {
+  const recent = parts.history.filter((m) => m.role !== 'system').slice(-HISTORY_MAX_MESSAGES)
+  const items: ContextItem<number>[] = [
+    { section: 'system', text: `${parts.system}\n${parts.request}`, required: true },
+    ...recent.map((m, i): ContextItem<number> => ({
+      section: 'history',
+      text: m.content.length > HISTORY_MAX_CHARS ? m.content.slice(0, HISTORY_MAX_CHARS) + '\n[... tronqué ...]' : m.content,
+      value: i,
+      minTokens: 200,
+      ref: i,
+    })),
+    ...parts.chunks.map((c, i): ContextItem<number> => ({ section: 'chunks', text: c.content, value: -i, ref: i })),
+  ]
+  const packed = packContext(items, {
+    capabilities: call.llm.capabilities,
+    outputTokens: parts.outputTokens,
+    truncationNote: '[... tronqué ...]',
+  })
+  const history = packedSection(packed, 'history').map((item) => ({ ...recent[item.ref!], content: item.text }))
+  const dropped = packed.dropped.filter((item) => item.section === 'history').map((item) => recent[item.ref!])
+  const summary = dropped.length > 0 ? await summarizeDroppedTurns(call, dropped, packed) : ''
+  return {
+    historyContext: (summary ? `## RÉSUMÉ DES ÉCHANGES PRÉCÉDENTS\n\n${summary}\n---\n\n` : '') + formatHistory(history, Infinity),
+    chunks: packedSection(packed, 'chunks').map((item) => parts.chunks[item.ref!]),
+    outputTokens: packed.outputTokens,
+  }
+}
+
+/**
+ * SSE error payload for a failure; LLM errors carry their kind so the client can offer a retry.
+ */
+export function toErrorEvent(err: unknown): SSEEvent {
+  if (err instanceof LLMError) {
+    return { type: 'error', message: err.message, code: err.kind, retryable: err.retryable }
+  }
+  return { type: 'error', message: err instanceof Error ? err.message : 'Une erreur est survenue.' }
+}
+
+/** Provider and cancellation signal shared by every LLM call of one request. */
+interface LLMCall {
+  llm: LLMProvider
+  signal?: AbortSignal
+  /** Summaries of left-out turns, by turns, so the sections of a report summarize them once */
+  historySummaries?: Map<string, Promise<string>>
+}
+
+function summarizeDroppedTurns(call: LLMCall, turns: ChatMessage[], packed: Parameters<typeof summarizeHistory>[2]): Promise<string> {
+  const key = turns.map((m) => `${m.role}:${m.content}`).join('\n')
+  const cached = call.historySummaries?.get(key)
+  if (cached) return cached
+  const summary = summarizeHistory(call.llm, turns, packed, call.signal)
+  call.historySummaries?.set(key, summary)
+  return summary
+}
 
 async function completePrompt(
+  call: LLMCall,
   messages: ChatMessage[],
   systemPrompt: string,
   maxTokens: number = 1024
 ): Promise<string> {
-  let full = ''
-  for await (const chunk of streamGPT5(messages, {
+  return call.llm.complete(messages, {
+    signal: call.signal,
     system_prompt: systemPrompt,
     max_completion_tokens: maxTokens,
     verbosity: 'low',
     reasoning_effort: 'minimal',
-  })) {
-    full += chunk
-  }
-  return full.trim()
+  })
 }
 
-function parseOutlineJson(raw: string): { title: string; description?: string; search_queries?: string[] }[] {
-  const cleaned = raw.replace(/^[\s\S]*?\{/, '{').replace(/\}[\s\S]*$/, '}')
+function parseOutlineJson(raw: string): OutlineSection[] {
+  // Keep the outermost object: from the first "{" to the last "}" (sections are nested objects)
+  const cleaned = raw.slice(raw.indexOf('{'), raw.lastIndexOf('}') + 1)
   try {
-    const parsed = JSON.parse(cleaned) as { sections?: { title: string; description?: string; search_queries?: string[] }[] }
+    const parsed = JSON.parse(cleaned) as { sections?: OutlineSection[] }
     return Array.isArray(parsed.sections) ? parsed.sections : []
   } catch {
     return []
@@ -59,9 +196,10 @@ function parseOutlineJson(raw: string): { title: string; description?: string; s
 /**
  * Expand user message into 3–5 search queries (one short LLM call).
  */
-async function expandToSearchQueries(userMessage: string): Promise<string[]> {
+async function expandToSearchQueries(call: LLMCall, userMessage: string, history: ChatMessage[] = []): Promise<string[]> {
   const out = await completePrompt(
-    [{ role: 'user', content: userMessage }],
+    call,
+    [{ role: 'user', content: formatHistory(history, 1500) + userMessage }],
     EXPAND_QUERIES_SYSTEM,
     300
   )
@@ -75,9 +213,10 @@ async function expandToSearchQueries(userMessage: string): Promise<string[]> {
 /**
  * Classify request as quick (short answer) or deep (long report).
  */
-async function classifyRequest(userMessage: string): Promise<'quick' | 'deep'> {
+async function classifyRequest(call: LLMCall, userMessage: string, history: ChatMessage[] = []): Promise<'quick' | 'deep'> {
   const out = await completePrompt(
-    [{ role: 'user', content: userMessage }],
+    call,
+    [{ role: 'user', content: formatHistory(history, 1500) + userMessage }],
     CLASSIFY_SYSTEM,
     20
   )
@@ -86,25 +225,320 @@ async function classifyRequest(userMessage: string): Promise<'quick' | 'deep'> {
 
 export interface PipelineOptions {
   forceDeep?: boolean
+  /** Mode already decided by the caller (see detectRequestMode); skips the classification call. */
+  mode?: 'quick' | 'deep'
+  /** Previous turns of the conversation, oldest first (without the current message). */
+  history?: ChatMessage[]
+  /** Deep mode: stop after the outline so the user can edit and approve it. */
+  reviewOutline?: boolean
+  /** Deep mode: an approved outline; planning is skipped and generation starts from it. */
+  outline?: OutlineSection[]
+  /** Provider for every LLM call of the request (default: the 'agent' route provider), e.g. wrapped for usage tracking. */
+  llm?: LLMProvider
+  /** Aborting stops the pipeline (searches, model calls, remaining sections); it then yields `stopped`. */
+  signal?: AbortSignal
+  /** Deep mode: sections drafted at once (default AGENT_SECTION_CONCURRENCY, else 3). */
+  sectionConcurrency?: number
+  /** Check the answer's claims against the retrieved extracts before `done` (yields `verification`). */
+  verify?: boolean
+  /** Search only the documents matching these filters (selected documents, tags, year...). */
+  filters?: SearchFilters
+}
+
+/**
+ * Classify a request as a quick answer or a deep report before running it (e.g. to queue deep reports as jobs).
+ */
+export async function detectRequestMode(
+  userMessage: string,
+  options: Pick<PipelineOptions, 'history' | 'llm' | 'signal'> = {}
+): Promise<'quick' | 'deep'> {
+  return classifyRequest({ llm: options.llm ?? getLLMProvider('agent'), signal: options.signal }, userMessage, options.history ?? [])
+}
+
+/** State shared by the deep-mode phases of one request. */
+interface ReportContext extends LLMCall {
+  userMessage: string
+  history: ChatMessage[]
+  citations: CitationIndex
+  filters?: SearchFilters
+  /** Tables computed once for the whole report, given to every section */
+  tableResults: TableQueryResult[]
+}
+
+const MIN_CHARS_PER_SECTION = 2000
+/** Deep-mode sections retrieved and drafted at once; lower it to stay under provider rate limits. */
+const SECTION_CONCURRENCY = concurrencyFromEnv('AGENT_SECTION_CONCURRENCY', 3)
+
+/**
+ * Clean an outline coming from the client: trimmed titles, no empty sections or queries.
+ */
+function sanitizeOutline(sections: OutlineSection[]): OutlineSection[] {
+  return sections
+    .filter((s) => s && typeof s.title === 'string' && s.title.trim().length > 0)
+    .map((s) => ({
+      title: s.title.trim(),
+      description: typeof s.description === 'string' && s.description.trim() ? s.description.trim() : undefined,
+      search_queries: Array.isArray(s.search_queries)
+        ? s.search_queries.filter((q) => typeof q === 'string' && q.trim()).map((q) => q.trim())
+        : undefined,
+    }))
+}
+
+/**
+ * Deep mode, phase 1: search the base and draft the outline.
+ * Yields status/citations events; returns the sections and the chunks found for the whole request.
+ */
+async function* planReport(
+  ctx: ReportContext
+): AsyncGenerator<SSEEvent, { sections: OutlineSection[]; chunks: SearchChunk[] }, unknown> {
+  yield { type: 'status', phase: 'search', message: 'Recherche dans la base de documents...' }
+  const queries = await expandToSearchQueries(ctx, ctx.userMessage, ctx.history)
+  const found = await multiQuerySearch(queries, 12, 50, ctx.signal, ctx.filters)
+  throwIfAborted(ctx.signal)
+  yield {
+    type: 'status',
+    phase: 'search',
+    message: `${found.length} section(s) pertinente(s) trouvée(s).`,
+  }
+  const allChunks = await rerankChunks(ctx.userMessage, found, { llm: ctx.llm, signal: ctx.signal, limit: OUTLINE_CHUNKS })
+  throwIfAborted(ctx.signal)
+
+  yield { type: 'status', phase: 'plan', message: 'Élaboration du plan...' }
+  const request = `Demande de l'utilisateur:\n\n${ctx.userMessage}`
+  const prompt = await fitPrompt(ctx, { system: OUTLINE_SYSTEM, request, history: ctx.history, chunks: allChunks, outputTokens: 2048 })
+  const outlineCitations = registerCitations(ctx.citations, prompt.chunks)
+  if (outlineCitations.length > 0) yield { type: 'citations', citations: outlineCitations }
+  const contextForOutline = buildContext(prompt.chunks, ctx.citations)
+  const outlineRaw = await completePrompt(
+    ctx,
+    [{ role: 'user', content: `${prompt.historyContext}${contextForOutline}\n\n---\n\n${request}` }],
+    OUTLINE_SYSTEM,
+    prompt.outputTokens
+  )
+  const sections = parseOutlineJson(outlineRaw)
+  if (sections.length === 0) {
+    sections.push({ title: 'Réponse', description: 'Contenu principal', search_queries: [ctx.userMessage] })
+  }
+  return { sections, chunks: allChunks }
+}
+
+/** Optional rework of a section: extra instructions and/or the current text to extend. */
+interface SectionRevision {
+  instructions?: string
+  /** Current text of the section; when set, the model writes a continuation instead of a new draft. */
+  previous?: string
+}
+
+function sectionRequest(sec: OutlineSection, revision: SectionRevision): string {
+  let request = revision.previous
+    ? `Voici le texte actuel de la section "${sec.title}" :\n\n${revision.previous}\n\n---\n\nComplète et approfondis cette section avec de nouveaux éléments tirés des extraits, sans répéter ce qui est déjà écrit. N'écris que le texte à ajouter.`
+    : `Rédige la section "${sec.title}" du rapport.`
+  if (revision.instructions) {
+    request += `\n\nConsignes supplémentaires de l'utilisateur : ${revision.instructions}`
+  }
+  return request
+}
+
+/**
+ * Deep mode, phase 2 (per section): retrieve extracts for one section and stream its text.
+ * Returns the chunks used, so callers can build the final source list.
+ */
+async function* generateSection(
+  ctx: ReportContext,
+  sec: OutlineSection,
+  index: number,
+  total: number,
+  revision: SectionRevision = {}
+): AsyncGenerator<SSEEvent, SearchChunk[], unknown> {
+  yield {
+    type: 'status',
+    phase: 'generate',
+    section: index + 1,
+    total,
+    title: sec.title,
+  }
+  const sectionQueries = sec.search_queries && sec.search_queries.length > 0
+    ? sec.search_queries
+    : [sec.title, ctx.userMessage]
+  const sectionCandidates = await multiQuerySearch(sectionQueries, 8, 30, ctx.signal, ctx.filters)
+  throwIfAborted(ctx.signal)
+  const reranked = await rerankChunks(
+    [sec.title, sec.description, revision.instructions].filter(Boolean).join('\n'),
+    sectionCandidates,
+    { llm: ctx.llm, signal: ctx.signal, limit: SECTION_CHUNKS }
+  )
+  throwIfAborted(ctx.signal)
+  const systemSection = SECTION_SYSTEM_PREFIX.replace('{{title}}', sec.title).replace(
+    '{{min_chars}}',
+    String(MIN_CHARS_PER_SECTION)
+  )
+  const request = `${buildTableContext(ctx.tableResults)}${sectionRequest(sec, revision)} Contexte global de la demande: ${ctx.userMessage}`
+  const prompt = await fitPrompt(ctx, { system: systemSection, request, history: ctx.history, chunks: reranked, outputTokens: 8000 })
+  const sectionChunks = prompt.chunks
+  registerCitations(ctx.citations, sectionChunks)
+  // Every citation the section uses: with concurrent sections another one may have registered a shared
+  // chunk first, so callers drop the markers already sent (see dedupeCitations)
+  const sectionCitations = sectionChunks.map((c) => ctx.citations.get(c.id)!)
+  if (sectionCitations.length > 0) yield { type: 'citations', citations: sectionCitations }
+  const sectionContext = buildContext(sectionChunks, ctx.citations)
+  const sectionMessages: ChatMessage[] = [
+    { role: 'user', content: `${prompt.historyContext}${sectionContext}\n\n---\n\n${request}` },
+  ]
+  // When extending, the existing text (heading included) is kept and only the addition is streamed
+  if (!revision.previous) yield { type: 'content', text: `## ${sec.title}\n\n` }
+  for await (const token of ctx.llm.stream(sectionMessages, {
+    signal: ctx.signal,
+    system_prompt: systemSection,
+    max_completion_tokens: prompt.outputTokens,
+    verbosity: 'high',
+    reasoning_effort: 'medium',
+  })) {
+    yield { type: 'content', text: token }
+  }
+  yield { type: 'content', text: '\n\n' }
+  return sectionChunks
+}
+
+/**
+ * Pass events through, reducing `citations` events to the markers not yet in `sent`.
+ */
+async function* dedupeCitations<R>(
+  events: AsyncGenerator<SSEEvent, R, unknown>,
+  sent: Set<number>
+): AsyncGenerator<SSEEvent, R, unknown> {
+  try {
+    while (true) {
+      const step = await events.next()
+      if (step.done) return step.value
+      const event = step.value
+      if (event.type !== 'citations') {
+        yield event
+        continue
+      }
+      const fresh = event.citations.filter((c) => !sent.has(c.marker))
+      fresh.forEach((c) => sent.add(c.marker))
+      if (fresh.length > 0) yield { type: 'citations', citations: fresh }
+    }
+  } finally {
+    // Close the source when the consumer stops early
+    await events.return(undefined as R)
+  }
+}
+
+/**
+ * Pass events through, appending `content` text to `answer.text`.
+ */
+async function* tapContent<R>(
+  events: AsyncGenerator<SSEEvent, R, unknown>,
+  answer: { text: string }
+): AsyncGenerator<SSEEvent, R, unknown> {
+  try {
+    while (true) {
+      const step = await events.next()
+      if (step.done) return step.value
+      if (step.value.type === 'content') answer.text += step.value.text
+      yield step.value
+    }
+  } finally {
+    await events.return(undefined as R)
+  }
+}
+
+/**
+ * Verification pass: check the answer's claims against the retrieved extracts and yield `verification`.
+ * A failed check is logged and skipped (the answer stands); cancellation propagates.
+ */
+async function* verifyStage(call: LLMCall, answer: string, citations: CitationIndex): AsyncGenerator<SSEEvent, void, unknown> {
+  if (!answer.trim() || citations.size === 0) return
+  yield { type: 'status', phase: 'verify', message: 'Vérification des affirmations...' }
+  try {
+    const verification = await verifyAnswer(call.llm, answer, citations, call.signal)
+    yield { type: 'verification', verification }
+  } catch (err) {
+    if (call.signal?.aborted) throw err
+    console.error('Answer verification failed:', err)
+  }
+}
+
+/**
+ * Tabular questions: when the scope holds tables (CSV, XLSX, ODS documents), let the model pick queries
+ * over them and run them (see tableQuery); yields `table_results`. Runs before a quick answer, and once
+ * after the outline of a deep report. A failed step is logged and skipped (the answer relies on the
+ * extracts); cancellation propagates.
+ */
+async function* computeTables(
+  call: LLMCall,
+  userMessage: string,
+  history: ChatMessage[],
+  filters?: SearchFilters
+): AsyncGenerator<SSEEvent, TableQueryResult[], unknown> {
+  try {
+    const tables = await listDataTables(filters)
+    if (tables.length === 0) return []
+    yield { type: 'status', phase: 'compute', message: 'Calcul sur les tableaux de données...' }
+    const results = await queryDataTables(call.llm, userMessage, tables, {
+      history: formatHistory(history, 1500),
+      signal: call.signal,
+    })
+    if (results.length > 0) yield { type: 'table_results', results }
+    return results
+  } catch (err) {
+    if (call.signal?.aborted) throw err
+    console.error('Table queries failed:', err)
+    return []
+  }
 }
 
 /**
  * Main pipeline: yields SSE events (status, outline, content, sources, done).
+ * Deep mode runs planReport then generateSection for each section; with `reviewOutline` it stops
+ * after the outline, and a later call with `outline` resumes from the approved plan. With `verify`, the
+ * answer is checked against the extracts before `done` (see answerVerification).
  */
 export async function* runPipeline(
   userMessage: string,
   options: PipelineOptions = {}
 ): AsyncGenerator<SSEEvent, void, unknown> {
-  const forceDeep = options.forceDeep === true
+  const approvedOutline = options.outline ? sanitizeOutline(options.outline) : []
+  const forceDeep = options.forceDeep === true || approvedOutline.length > 0
+  const history = options.history ?? []
+  const filters = options.filters
+  const citations = createCitationIndex()
+  const call: LLMCall = { llm: options.llm ?? getLLMProvider('agent'), signal: options.signal, historySummaries: new Map() }
+  const answer = { text: '' }
 
   try {
-    const mode = forceDeep ? 'deep' : await classifyRequest(userMessage)
+    const mode = forceDeep ? 'deep' : options.mode ?? (await classifyRequest(call, userMessage, history))
 
     if (mode === 'quick') {
+      const tableResults = yield* computeTables(call, userMessage, history, filters)
+      throwIfAborted(call.signal)
       yield { type: 'status', phase: 'search', message: 'Recherche dans les documents...' }
-      let chunks = await searchChunks(userMessage, 12)
+      // A follow-up ("et pour 2022 ?") rarely matches on its own: search with queries resolved against the history.
+      const resolvedQueries = history.length > 0 ? await expandToSearchQueries(call, userMessage, history) : []
+      const candidates = resolvedQueries.length > 0
+        ? await multiQuerySearch([userMessage, ...resolvedQueries], 8, 24, call.signal, filters)
+        : await hybridSearchChunks(userMessage, 24, call.signal, filters)
+      throwIfAborted(call.signal)
+      // Rerank against the resolved queries too, so a follow-up is judged on what it refers to
+      let chunks = await rerankChunks([userMessage, ...resolvedQueries].join('\n'), candidates, {
+        llm: call.llm,
+        signal: call.signal,
+        limit: QUICK_CHUNKS,
+      })
+      throwIfAborted(call.signal)
       if (chunks.length === 0) {
-        const totalChunks = await getChunkCount()
+        const totalChunks = await getChunkCount(filters)
+        // Collections alone are the caller's access rights, not a selection: the base is empty for them
+        const narrowed = !!filters && Object.entries(filters).some(([key, value]) => key !== 'collectionIds' && value !== undefined)
+        if (totalChunks === 0 && narrowed) {
+          yield {
+            type: 'content',
+            text: "**Aucun document ne correspond à la sélection.**\n\nLa portée choisie (documents, tags, catégorie, auteur ou années) ne contient aucun extrait indexé. Élargissez la sélection dans le panneau « Portée » ou choisissez « Toute la base ».",
+          }
+          yield { type: 'done' }
+          return
+        }
         if (totalChunks === 0) {
           const emptyMessage =
             "**Aucun document dans la base.**\n\nPour que je puisse répondre à partir de vos PDF ou documents, il faut d’abord les ajouter à la **Base de documents** (panneau de gauche sur cette page). Cliquez sur « Ajouter un document » et choisissez vos fichiers PDF, DOCX ou TXT. Les documents joints dans le chat principal ne sont pas utilisés ici : seuls les fichiers ajoutés dans ce panneau sont indexés."
@@ -112,101 +546,148 @@ export async function* runPipeline(
           yield { type: 'done' }
           return
         }
-        chunks = await getRecentChunks(12)
+        chunks = await getRecentChunks(QUICK_CHUNKS, filters)
         yield { type: 'status', phase: 'plan', message: 'Aucune correspondance exacte ; utilisation d’extraits généraux de la base.' }
       } else {
         yield { type: 'sources', chunks: chunks.slice(0, 8).map((c) => ({ doc: c.document_name, excerpt: c.content.slice(0, 200) + '...' })) }
       }
-      const context = buildContext(chunks)
-      const messages: ChatMessage[] = [
-        { role: 'user', content: `${context}\n\n---\n\nQuestion ou demande de l'utilisateur:\n\n${userMessage}` },
-      ]
-      for await (const token of streamGPT5(messages, {
+      // Computed tables are part of the request, so they are never left out of the prompt
+      const request = `${buildTableContext(tableResults)}Question ou demande de l'utilisateur:\n\n${userMessage}`
+      const prompt = await fitPrompt(call, { system: QUICK_SYSTEM, request, history, chunks, outputTokens: 4096 })
+      const quickCitations = registerCitations(citations, prompt.chunks)
+      if (quickCitations.length > 0) yield { type: 'citations', citations: quickCitations }
+      const context = buildContext(prompt.chunks, citations)
+      const messages: ChatMessage[] = [{ role: 'user', content: `${prompt.historyContext}${context}\n\n---\n\n${request}` }]
+      for await (const token of call.llm.stream(messages, {
+        signal: call.signal,
         system_prompt: QUICK_SYSTEM,
-        max_completion_tokens: 4096,
+        max_completion_tokens: prompt.outputTokens,
         verbosity: 'medium',
         reasoning_effort: 'medium',
       })) {
+        answer.text += token
         yield { type: 'content', text: token }
       }
+      if (options.verify) yield* verifyStage(call, answer.text, citations)
       yield { type: 'done' }
       return
     }
 
     // Deep mode
-    yield { type: 'status', phase: 'search', message: 'Recherche dans la base de documents...' }
-    const queries = await expandToSearchQueries(userMessage)
-    const allChunks = await multiQuerySearch(queries, 12, 50)
-    yield {
-      type: 'status',
-      phase: 'search',
-      message: `${allChunks.length} section(s) pertinente(s) trouvée(s).`,
-    }
-
-    yield { type: 'status', phase: 'plan', message: 'Élaboration du plan...' }
-    const contextForOutline = buildContext(allChunks.slice(0, 30))
-    const outlineRaw = await completePrompt(
-      [
-        {
-          role: 'user',
-          content: `${contextForOutline}\n\n---\n\nDemande de l'utilisateur:\n\n${userMessage}`,
-        },
-      ],
-      OUTLINE_SYSTEM,
-      2048
-    )
-    const sections = parseOutlineJson(outlineRaw)
+    const ctx: ReportContext = { ...call, userMessage, history, citations, filters, tableResults: [] }
+    let sections = approvedOutline
+    let allChunks: SearchChunk[] = []
     if (sections.length === 0) {
-      sections.push({ title: 'Réponse', description: 'Contenu principal', search_queries: [userMessage] })
+      const plan = yield* planReport(ctx)
+      sections = plan.sections
+      allChunks = plan.chunks
+      if (options.reviewOutline) {
+        yield { type: 'outline', sections, awaitingApproval: true }
+        yield { type: 'done' }
+        return
+      }
     }
     yield { type: 'outline', sections }
+    // Computed once against the whole request, then given to every section
+    ctx.tableResults = yield* computeTables(call, userMessage, history, filters)
+    throwIfAborted(call.signal)
 
-    const total = sections.length
-    const minCharsPerSection = 2000
-
-    for (let i = 0; i < sections.length; i++) {
-      const sec = sections[i]
-      yield {
-        type: 'status',
-        phase: 'generate',
-        section: i + 1,
-        total,
-        title: sec.title,
-      }
-      const sectionQueries = sec.search_queries && sec.search_queries.length > 0
-        ? sec.search_queries
-        : [sec.title, userMessage]
-      const sectionChunks = await multiQuerySearch(sectionQueries, 8, 20)
-      const sectionContext = buildContext(sectionChunks)
-      const systemSection = SECTION_SYSTEM_PREFIX.replace('{{title}}', sec.title).replace(
-        '{{min_chars}}',
-        String(minCharsPerSection)
+    // Sections are retrieved and drafted concurrently but streamed in order (later ones buffer).
+    // A failed section cancels the others through their own signal.
+    const sectionRun = new AbortController()
+    const cancelSections = () => sectionRun.abort()
+    options.signal?.addEventListener('abort', cancelSections)
+    const sectionCtx: ReportContext = { ...ctx, signal: sectionRun.signal }
+    const sent = new Set(Array.from(ctx.citations.values(), (c) => c.marker))
+    const sectionChunks: SearchChunk[] = []
+    try {
+      const perSection = yield* tapContent(
+        dedupeCitations(
+          orderedMerge(
+            sections.map((sec, i) => () => generateSection(sectionCtx, sec, i, sections.length)),
+            options.sectionConcurrency ?? SECTION_CONCURRENCY
+          ),
+          sent
+        ),
+        answer
       )
-      const sectionMessages: ChatMessage[] = [
-        {
-          role: 'user',
-          content: `${sectionContext}\n\n---\n\nRédige la section "${sec.title}" du rapport. Contexte global de la demande: ${userMessage}`,
-        },
-      ]
-      for await (const token of streamGPT5(sectionMessages, {
-        system_prompt: systemSection,
-        max_completion_tokens: 8000,
-        verbosity: 'high',
-        reasoning_effort: 'medium',
-      })) {
-        yield { type: 'content', text: token }
-      }
-      yield { type: 'content', text: '\n\n' }
+      perSection.forEach((chunks) => sectionChunks.push(...chunks))
+    } finally {
+      sectionRun.abort()
+      options.signal?.removeEventListener('abort', cancelSections)
     }
 
+    const sourceChunks = allChunks.length > 0 ? allChunks : sectionChunks.filter((c, i, arr) => arr.findIndex((o) => o.id === c.id) === i)
     yield {
       type: 'sources',
-      chunks: allChunks.slice(0, 15).map((c) => ({ doc: c.document_name, excerpt: c.content.slice(0, 150) + '...' })),
+      chunks: sourceChunks.slice(0, 15).map((c) => ({ doc: c.document_name, excerpt: c.content.slice(0, 150) + '...' })),
+    }
+    if (options.verify) yield* verifyStage(call, answer.text, citations)
+    yield { type: 'done' }
+  } catch (err) {
+    yield options.signal?.aborted ? { type: 'stopped' } : toErrorEvent(err)
+    yield { type: 'done' }
+  }
+}
+
+export interface SectionRegenerateOptions {
+  /** Previous turns before the report request, oldest first. */
+  history?: ChatMessage[]
+  /** Citations already attached to the report, so existing markers stay valid. */
+  citations?: Citation[]
+  /** Extra instructions for this section ("plus de chiffres", "ton plus synthétique"...). */
+  instructions?: string
+  /** Replace the section's search queries for this run. */
+  searchQueries?: string[]
+  /** 'replace' rewrites the section; 'extend' streams additional text for it. */
+  mode?: 'replace' | 'extend'
+  /** Current text of the section, required for 'extend'. */
+  currentText?: string
+  /** Provider for the LLM calls (default: the 'agent' route provider). */
+  llm?: LLMProvider
+  /** Aborting stops the generation; it then yields `stopped`. */
+  signal?: AbortSignal
+  /** Scope of the report's searches (see PipelineOptions.filters). */
+  filters?: SearchFilters
+  /** Tables computed for the report, given to the section again (they are not recomputed). */
+  tableResults?: TableQueryResult[]
+}
+
+/**
+ * Regenerate (or extend) one section of an existing deep report with the same section loop as runPipeline.
+ * Yields status/citations/content events followed by done; the caller splices the streamed text back.
+ */
+export async function* regenerateSection(
+  userMessage: string,
+  outline: OutlineSection[],
+  index: number,
+  options: SectionRegenerateOptions = {}
+): AsyncGenerator<SSEEvent, void, unknown> {
+  try {
+    const sections = sanitizeOutline(outline)
+    const sec = sections[index]
+    if (!sec) throw new Error(`Section ${index + 1} introuvable dans le plan.`)
+    const history = options.history ?? []
+    const ctx: ReportContext = {
+      llm: options.llm ?? getLLMProvider('agent'),
+      signal: options.signal,
+      userMessage,
+      history,
+      citations: seedCitationIndex(options.citations ?? []),
+      filters: options.filters,
+      tableResults: options.tableResults ?? [],
+    }
+    const queries = options.searchQueries?.map((q) => q.trim()).filter(Boolean)
+    const target: OutlineSection = queries && queries.length > 0 ? { ...sec, search_queries: queries } : sec
+    const revision: SectionRevision = {
+      instructions: options.instructions?.trim() || undefined,
+      previous: options.mode === 'extend' ? options.currentText : undefined,
     }
+    const sent = new Set((options.citations ?? []).map((c) => c.marker))
+    yield* dedupeCitations(generateSection(ctx, target, index, sections.length, revision), sent)
     yield { type: 'done' }
   } catch (err) {
-    const message = err instanceof Error ? err.message : 'Une erreur est survenue.'
-    yield { type: 'error', message }
+    yield options.signal?.aborted ? { type: 'stopped' } : toErrorEvent(err)
     yield { type: 'done' }
   }
 }
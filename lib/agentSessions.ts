@@ -0,0 +1,186 @@
+/**
+ * CDC Agent: persisted conversations (cdc_agent_sessions) and their messages (cdc_agent_messages).
+ * Deep-mode reports are stored with their outline, sources and citations so they survive a reload.
+ */
+
+import { supabase } from './supabaseClient'
+import type { ChatMessage } from './replicate'
+import type { Citation, SearchFilters } from './ragSearch'
+import type { OutlineSection } from './agentPipeline'
+import type { AnswerVerification } from './answerVerification'
+import type { TableQueryResult } from './tableQuery'
+
+export interface AgentSession {
+  id: string
+  user_id: string
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+export interface AgentSessionMessage {
+  id: string
+  session_id: string
+  role: 'user' | 'assistant'
+  content: string
+  mode?: 'quick' | 'deep' | null
+  outline?: OutlineSection[] | null
+  sources?: { doc: string; excerpt: string }[] | null
+  citations?: Citation[] | null
+  /** The generation was cancelled; content is the partial answer */
+  stopped?: boolean
+  /** Verification pass result, when requested; cleared when a section is reworked */
+  verification?: AnswerVerification | null
+  /** Tables computed from tabular documents for a quick answer */
+  table_results?: TableQueryResult[] | null
+  /** Scope the answer was searched in (deep reports: reused when a section is reworked) */
+  filters?: SearchFilters | null
+  created_at: string
+}
+
+export type NewAgentSessionMessage = Omit<AgentSessionMessage, 'id' | 'session_id' | 'created_at'>
+
+// Create a session, titled from the first question
+export async function createAgentSession(userId: string, firstMessage: string): Promise<AgentSession | null> {
+  const title = firstMessage.substring(0, 60) + (firstMessage.length > 60 ? '...' : '')
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_agent_sessions')
+    .insert({ user_id: userId, title, created_at: now, updated_at: now })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating agent session:', error)
+    return null
+  }
+
+  return data
+}
+
+// List a user's sessions, most recently active first
+export async function listAgentSessions(userId: string, limit: number = 50): Promise<AgentSession[]> {
+  const { data, error } = await supabase
+    .from('cdc_agent_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error listing agent sessions:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Get one session
+export async function getAgentSession(sessionId: string): Promise<AgentSession | null> {
+  const { data, error } = await supabase
+    .from('cdc_agent_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching agent session:', error)
+    return null
+  }
+
+  return data
+}
+
+// Get all messages of a session in chronological order
+export async function getAgentMessages(sessionId: string): Promise<AgentSessionMessage[]> {
+  const { data, error } = await supabase
+    .from('cdc_agent_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching agent messages:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Get one message (e.g. a stored report to export)
+export async function getAgentMessage(messageId: string): Promise<AgentSessionMessage | null> {
+  const { data, error } = await supabase
+    .from('cdc_agent_messages')
+    .select('*')
+    .eq('id', messageId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching agent message:', error)
+    return null
+  }
+
+  return data
+}
+
+// Append a message and bump the session's updated_at
+export async function appendAgentMessage(
+  sessionId: string,
+  message: NewAgentSessionMessage
+): Promise<AgentSessionMessage | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_agent_messages')
+    .insert({ ...message, session_id: sessionId, created_at: now })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error storing agent message:', error)
+    return null
+  }
+
+  await supabase.from('cdc_agent_sessions').update({ updated_at: now }).eq('id', sessionId)
+
+  return data
+}
+
+// Update a stored message in place (e.g. a report after one section was regenerated)
+export async function updateAgentMessage(
+  messageId: string,
+  patch: Partial<NewAgentSessionMessage>
+): Promise<AgentSessionMessage | null> {
+  const { data, error } = await supabase
+    .from('cdc_agent_messages')
+    .update(patch)
+    .eq('id', messageId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating agent message:', error)
+    return null
+  }
+
+  return data
+}
+
+// Delete a session (messages cascade)
+export async function deleteAgentSession(sessionId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('cdc_agent_sessions')
+    .delete()
+    .eq('id', sessionId)
+
+  if (error) {
+    console.error('Error deleting agent session:', error)
+    return false
+  }
+
+  return true
+}
+
+// Convert stored messages into pipeline history
+export function toPipelineHistory(messages: AgentSessionMessage[]): ChatMessage[] {
+  return messages.map((m) => ({ role: m.role, content: m.content }))
+}
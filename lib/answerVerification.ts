@@ -0,0 +1,198 @@
+/**
+ * CDC Agent: post-generation verification. The answer is split into claims (sentences), each claim is
+ * checked by the model against the extracts it cites (or the closest ones), and the unsupported or
+ * contradicted statements are reported with a confidence summary.
+ */
+
+import type { LLMProvider } from './llm'
+import type { Citation, CitationIndex } from './ragSearch'
+import { mapWithConcurrency } from './concurrency'
+import { formatChunkLocation } from './chunkLocation'
+
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted'
+
+export interface VerifiedClaim {
+  /** Sentence of the answer, as written (citation markers included) */
+  text: string
+  verdict: ClaimVerdict
+  /** Short justification from the checker */
+  reason?: string
+  /** Citation markers the sentence refers to */
+  markers: number[]
+}
+
+export interface AnswerVerification {
+  /** Unsupported and contradicted claims only, in answer order */
+  claims: VerifiedClaim[]
+  checked: number
+  supported: number
+  unsupported: number
+  contradicted: number
+  /** Claims not checked (answer too long, or missing from the checker's reply) */
+  unchecked: number
+  /** Share of checked claims that are supported, 0..1; null when no claim could be checked */
+  confidence: number | null
+}
+
+const VERIFY_SYSTEM =
+  'Tu vérifies qu\'un texte s\'appuie bien sur des extraits de documents. Pour chaque affirmation numérotée, indique si elle est "supported" (les extraits l\'établissent), "unsupported" (les extraits ne permettent pas de l\'établir) ou "contradicted" (les extraits disent le contraire). Juge uniquement à partir des extraits fournis, pas de tes connaissances. Réponds en JSON valide uniquement, avec ce format: {"results":[{"id":1,"verdict":"supported","reason":"..."}]}. La raison, en français, tient en une phrase courte.'
+
+/** Claims checked per answer; longer reports are verified on their first claims */
+const MAX_CLAIMS = 40
+const CLAIMS_PER_BATCH = 8
+const EVIDENCE_PER_CLAIM = 3
+const EXCERPT_CHARS = 700
+const MIN_CLAIM_CHARS = 30
+
+interface Claim {
+  id: number
+  text: string
+  markers: number[]
+}
+
+/**
+ * Split an answer into checkable sentences: headings, table rows and very short fragments are skipped.
+ */
+export function splitIntoClaims(answer: string): { text: string; markers: number[] }[] {
+  const claims: { text: string; markers: number[] }[] = []
+  for (const rawLine of answer.split('\n')) {
+    const line = rawLine.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '').trim()
+    if (!line || line.startsWith('#') || line.startsWith('|') || line.startsWith('>')) continue
+    const sentences = line.split(/(?<=[.!?…](?:\s*\[\d+\])*)\s+(?=[A-ZÀ-ÖØ-Þ0-9«"(])/)
+    for (const sentence of sentences) {
+      const text = sentence.trim()
+      const plain = text.replace(/\[\d+\]/g, '').replace(/[*_`]/g, '').trim()
+      if (plain.length < MIN_CLAIM_CHARS || !/[a-zA-ZÀ-ÿ]/.test(plain)) continue
+      const markers = Array.from(new Set(Array.from(text.matchAll(/\[(\d+)\]/g), (m) => Number(m[1]))))
+      claims.push({ text, markers })
+    }
+  }
+  return claims
+}
+
+function normalizeWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length >= 4)
+  )
+}
+
+/**
+ * Extracts to check a claim against: the ones it cites, else those sharing the most words with it.
+ */
+function evidenceFor(claim: Claim, citations: Citation[]): Citation[] {
+  const cited = citations.filter((c) => claim.markers.includes(c.marker))
+  if (cited.length > 0) return cited.slice(0, EVIDENCE_PER_CLAIM)
+  const words = normalizeWords(claim.text)
+  return citations
+    .map((c) => {
+      const excerptWords = normalizeWords(c.excerpt)
+      let overlap = 0
+      words.forEach((w) => {
+        if (excerptWords.has(w)) overlap++
+      })
+      return { c, overlap }
+    })
+    .filter((s) => s.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, EVIDENCE_PER_CLAIM)
+    .map((s) => s.c)
+}
+
+function parseVerdicts(raw: string): Map<number, { verdict: ClaimVerdict; reason?: string }> {
+  const verdicts = new Map<number, { verdict: ClaimVerdict; reason?: string }>()
+  const cleaned = raw.slice(raw.indexOf('{'), raw.lastIndexOf('}') + 1)
+  try {
+    const parsed = JSON.parse(cleaned) as { results?: { id?: unknown; verdict?: unknown; reason?: unknown }[] }
+    for (const r of parsed.results ?? []) {
+      const verdict = typeof r.verdict === 'string' ? r.verdict.toLowerCase() : ''
+      if (typeof r.id !== 'number' || !['supported', 'unsupported', 'contradicted'].includes(verdict)) continue
+      verdicts.set(r.id, {
+        verdict: verdict as ClaimVerdict,
+        reason: typeof r.reason === 'string' && r.reason.trim() ? r.reason.trim() : undefined,
+      })
+    }
+  } catch {
+    // Unparseable reply: the batch counts as unchecked
+  }
+  return verdicts
+}
+
+async function verifyBatch(
+  llm: LLMProvider,
+  batch: Claim[],
+  citations: Citation[],
+  signal?: AbortSignal
+): Promise<Map<number, { verdict: ClaimVerdict; reason?: string }>> {
+  const evidence = new Map<number, Citation>()
+  for (const claim of batch) {
+    for (const c of evidenceFor(claim, citations)) evidence.set(c.marker, c)
+  }
+  const extracts = Array.from(evidence.values())
+    .sort((a, b) => a.marker - b.marker)
+    .map((c) => {
+      const location = formatChunkLocation(c)
+      return `[${c.marker}] (source: ${c.document_name}${location ? `, ${location}` : ''})\n${c.excerpt.slice(0, EXCERPT_CHARS)}`
+    })
+    .join('\n\n')
+  const claimList = batch.map((c) => `${c.id}. ${c.text}`).join('\n')
+  const raw = await llm.complete(
+    [{ role: 'user', content: `## EXTRAITS\n\n${extracts || '(aucun extrait)'}\n\n## AFFIRMATIONS\n\n${claimList}` }],
+    {
+      signal,
+      system_prompt: VERIFY_SYSTEM,
+      max_completion_tokens: 1500,
+      verbosity: 'low',
+      reasoning_effort: 'minimal',
+    }
+  )
+  return parseVerdicts(raw)
+}
+
+/**
+ * Check every claim of `answer` against the extracts registered in `citations`.
+ */
+export async function verifyAnswer(
+  llm: LLMProvider,
+  answer: string,
+  citations: CitationIndex,
+  signal?: AbortSignal
+): Promise<AnswerVerification> {
+  const all = splitIntoClaims(answer)
+  const claims: Claim[] = all.slice(0, MAX_CLAIMS).map((c, i) => ({ ...c, id: i + 1 }))
+  const available = Array.from(citations.values())
+  const batches: Claim[][] = []
+  for (let i = 0; i < claims.length; i += CLAIMS_PER_BATCH) batches.push(claims.slice(i, i + CLAIMS_PER_BATCH))
+
+  const verdicts = new Map<number, { verdict: ClaimVerdict; reason?: string }>()
+  const results = await mapWithConcurrency(batches, 2, (batch) => verifyBatch(llm, batch, available, signal))
+  results.forEach((r) => r.forEach((v, id) => verdicts.set(id, v)))
+
+  const summary: AnswerVerification = {
+    claims: [],
+    checked: 0,
+    supported: 0,
+    unsupported: 0,
+    contradicted: 0,
+    unchecked: all.length - claims.length,
+    confidence: null,
+  }
+  for (const claim of claims) {
+    const v = verdicts.get(claim.id)
+    if (!v) {
+      summary.unchecked++
+      continue
+    }
+    summary.checked++
+    summary[v.verdict]++
+    if (v.verdict !== 'supported') {
+      summary.claims.push({ text: claim.text, verdict: v.verdict, reason: v.reason, markers: claim.markers })
+    }
+  }
+  summary.confidence = summary.checked > 0 ? summary.supported / summary.checked : null
+  return summary
+}
@@ -0,0 +1,12 @@
+/**
+ * Client helper: request headers carrying the signed-in user's access token, so API routes can verify
+ * who is calling (see lib/requestAuth). Without a session, the headers are returned unchanged.
+ */
+
+import { supabase } from './supabaseClient'
+
+export async function authHeaders(headers: Record<string, string> = {}): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return token ? { ...headers, Authorization: `Bearer ${token}` } : headers
+}
@@ -0,0 +1,41 @@
+/**
+ * Where a chunk sits in its document (pages and enclosing headings, see documentProcessor), formatted
+ * for citations: "p. 42, §3.2", "p. 12-13, § Introduction". Shared by the prompts, the UI and exports.
+ */
+
+export interface ChunkLocation {
+  page_start?: number | null
+  page_end?: number | null
+  /** Headings enclosing the chunk, outermost first */
+  heading_path?: string[] | null
+  /** Lowest OCR confidence (0-1) of the chunk's pages, when its text was recognised by OCR */
+  ocr_confidence?: number | null
+}
+
+const MAX_HEADING_CHARS = 60
+
+/**
+ * Short location label, or '' when the chunk has none (e.g. ingested before structured chunking).
+ */
+export function formatChunkLocation(location: ChunkLocation): string {
+  const parts: string[] = []
+  const { page_start: start, page_end: end } = location
+  if (start != null) parts.push(end != null && end !== start ? `p. ${start}-${end}` : `p. ${start}`)
+  const heading = location.heading_path?.[location.heading_path.length - 1]
+  if (heading) {
+    const numbered = heading.match(/^(\d+(?:\.\d+)*|[IVXLC]+)\.?\s/)
+    parts.push(
+      numbered
+        ? `§${numbered[1]}`
+        : `§ ${heading.length > MAX_HEADING_CHARS ? `${heading.slice(0, MAX_HEADING_CHARS - 1)}…` : heading}`
+    )
+  }
+  return parts.join(', ')
+}
+
+/**
+ * "OCR 72 %" for chunks read by OCR, '' otherwise.
+ */
+export function formatOcrConfidence(location: ChunkLocation): string {
+  return location.ocr_confidence != null ? `OCR ${Math.round(location.ocr_confidence * 100)} %` : ''
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getCollectionRole, listUserCollections, SHARED_COLLECTION_ID } from './collections'
+import { ANONYMOUS_USER_ID } from './requestAuth'
+import { installTestHarness, seedCdcDocument, seedCollection, memoryAccessToken, type TestHarness } from './testing'
+import { GET as listDocuments, DELETE as deleteDocument } from '@/app/api/agent/documents/route'
+import { PATCH as updateCollection } from '@/app/api/agent/collections/[id]/route'
+
+let harness: TestHarness | null = null
+
+afterEach(() => {
+  harness?.restore()
+  harness = null
+})
+
+describe('shared collection access', () => {
+  it('lets every signed-in user read the shared collection without a membership', async () => {
+    harness = installTestHarness()
+    seedCdcDocument(harness.db, 'rapport.pdf', ['Le budget de la Caisse atteint 10 milliards.'])
+
+    expect(await getCollectionRole(SHARED_COLLECTION_ID, 'user-a')).toBe('viewer')
+    expect((await listUserCollections('user-a')).map((c) => [c.id, c.role])).toEqual([[SHARED_COLLECTION_ID, 'viewer']])
+    const res = await listDocuments(
+      new NextRequest('http://localhost/api/agent/documents', { headers: { Authorization: `Bearer ${memoryAccessToken('user-a')}` } })
+    )
+    expect((await res.json()).documents.map((d: { name: string }) => d.name)).toEqual(['rapport.pdf'])
+  })
+
+  it('keeps the anonymous user read-only, even where it is owner', async () => {
+    harness = installTestHarness()
+    const own = seedCollection(harness.db, 'Anonyme', ANONYMOUS_USER_ID)
+    const doc = seedCdcDocument(harness.db, 'rapport.pdf', ['Le budget de la Caisse atteint 10 milliards.'])
+
+    expect(await getCollectionRole(SHARED_COLLECTION_ID, ANONYMOUS_USER_ID)).toBe('viewer')
+    expect(await getCollectionRole(String(own.id), ANONYMOUS_USER_ID)).toBe('viewer')
+    const deleted = await deleteDocument(new NextRequest(`http://localhost/api/agent/documents?id=${doc.id}`, { method: 'DELETE' }))
+    expect(deleted.status).toBe(401)
+    const renamed = await updateCollection(
+      new NextRequest(`http://localhost/api/agent/collections/${SHARED_COLLECTION_ID}`, { method: 'PATCH', body: JSON.stringify({ name: 'x' }) }),
+      { params: { id: SHARED_COLLECTION_ID } }
+    )
+    expect(renamed.status).toBe(401)
+    expect(harness.db.rows('cdc_documents')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * CDC Agent: knowledge-base collections (cdc_collections) and their members (cdc_collection_members).
+ * Every document belongs to one collection; a user's role in it decides what they can do:
+ * viewer (search and read), editor (+ add, edit and delete documents), admin (+ members, rename, delete).
+ * The owner is always admin. Every user can read the shared collection, and a caller without a verified
+ * token (ANONYMOUS_USER_ID) is at most a viewer anywhere. supabase/migrations/009 and 015 enforce the
+ * same rules with RLS.
+ */
+
+import { supabase } from './supabaseClient'
+import { ANONYMOUS_USER_ID } from './requestAuth'
+import type { SearchFilters } from './ragSearch'
+
+export type CollectionRole = 'viewer' | 'editor' | 'admin'
+
+export interface Collection {
+  id: string
+  name: string
+  description: string | null
+  owner_id: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CollectionWithRole extends Collection {
+  role: CollectionRole
+}
+
+export interface CollectionMember {
+  collection_id: string
+  user_id: string
+  role: CollectionRole
+  created_at: string
+}
+
+/** Collection holding the documents added before collections existed (see migration 009) */
+export const SHARED_COLLECTION_ID = '00000000-0000-0000-0000-00000000c0c0'
+
+/** Role every user has in the shared collection unless a membership grants more */
+const SHARED_COLLECTION_ROLE: CollectionRole = 'viewer'
+
+const ROLE_RANK: Record<CollectionRole, number> = { viewer: 1, editor: 2, admin: 3 }
+
+export function isCollectionRole(value: unknown): value is CollectionRole {
+  return value === 'viewer' || value === 'editor' || value === 'admin'
+}
+
+/**
+ * True when `role` grants at least `required`.
+ */
+export function hasCollectionRole(role: CollectionRole | null | undefined, required: CollectionRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+// The anonymous id is shared by every caller without a token: it never gets more than read access
+function effectiveRole(userId: string, role: CollectionRole): CollectionRole {
+  return userId === ANONYMOUS_USER_ID ? 'viewer' : role
+}
+
+// List the collections a user can read, with their role, by name
+export async function listUserCollections(userId: string): Promise<CollectionWithRole[]> {
+  const [owned, memberships] = await Promise.all([
+    supabase.from('cdc_collections').select('*').eq('owner_id', userId),
+    supabase.from('cdc_collection_members').select('collection_id, role').eq('user_id', userId),
+  ])
+  if (owned.error || memberships.error) {
+    console.error('Error listing collections:', owned.error ?? memberships.error)
+    return []
+  }
+
+  const roles = new Map<string, CollectionRole>([[SHARED_COLLECTION_ID, SHARED_COLLECTION_ROLE]])
+  for (const m of (memberships.data || []) as { collection_id: string; role: CollectionRole }[]) {
+    roles.set(m.collection_id, m.role)
+  }
+  const collections = new Map<string, CollectionWithRole>()
+  for (const c of (owned.data || []) as Collection[]) collections.set(c.id, { ...c, role: effectiveRole(userId, 'admin') })
+
+  const shared = Array.from(roles.keys()).filter((id) => !collections.has(id))
+  if (shared.length > 0) {
+    const { data, error } = await supabase.from('cdc_collections').select('*').in('id', shared)
+    if (error) {
+      console.error('Error listing collections:', error)
+      return []
+    }
+    for (const c of (data || []) as Collection[]) collections.set(c.id, { ...c, role: effectiveRole(userId, roles.get(c.id)!) })
+  }
+
+  return Array.from(collections.values()).sort((a, b) => a.name.localeCompare(b.name, 'fr'))
+}
+
+// Get a user's role in a collection, or null without access
+export async function getCollectionRole(collectionId: string, userId: string): Promise<CollectionRole | null> {
+  const [collection, membership] = await Promise.all([
+    supabase.from('cdc_collections').select('owner_id').eq('id', collectionId).maybeSingle(),
+    supabase
+      .from('cdc_collection_members')
+      .select('role')
+      .eq('collection_id', collectionId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ])
+  if (collection.error || membership.error) {
+    console.error('Error fetching collection role:', collection.error ?? membership.error)
+    return null
+  }
+  if (!collection.data) return null
+  if (collection.data.owner_id === userId) return effectiveRole(userId, 'admin')
+  if (isCollectionRole(membership.data?.role)) return effectiveRole(userId, membership.data.role)
+  return collectionId === SHARED_COLLECTION_ID ? SHARED_COLLECTION_ROLE : null
+}
+
+// Ids of the collections a user can read
+export async function readableCollectionIds(userId: string): Promise<string[]> {
+  return (await listUserCollections(userId)).map((c) => c.id)
+}
+
+/**
+ * Restrict search filters to the collections `userId` can read; collections requested in `filters`
+ * are kept only when readable. The result always has collectionIds (possibly empty: nothing to search).
+ */
+export async function scopeFiltersToUser(userId: string, filters?: SearchFilters): Promise<SearchFilters> {
+  const readable = await readableCollectionIds(userId)
+  const collectionIds = filters?.collectionIds
+    ? filters.collectionIds.filter((id) => readable.includes(id))
+    : readable
+  return { ...filters, collectionIds }
+}
+
+// Create a collection; its owner is also recorded as admin member
+export async function createCollection(
+  userId: string,
+  name: string,
+  description?: string | null
+): Promise<Collection | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_collections')
+    .insert({ name, description: description ?? null, owner_id: userId, created_at: now, updated_at: now })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating collection:', error)
+    return null
+  }
+
+  await setCollectionMember(data.id, userId, 'admin')
+  return data
+}
+
+// Rename or describe a collection
+export async function updateCollection(
+  collectionId: string,
+  patch: { name?: string; description?: string | null }
+): Promise<Collection | null> {
+  const { data, error } = await supabase
+    .from('cdc_collections')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', collectionId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating collection:', error)
+    return null
+  }
+
+  return data
+}
+
+// Delete a collection with its documents and members
+export async function deleteCollection(collectionId: string): Promise<boolean> {
+  const { error } = await supabase.from('cdc_collections').delete().eq('id', collectionId)
+  if (error) {
+    console.error('Error deleting collection:', error)
+    return false
+  }
+  return true
+}
+
+// List the members of a collection
+export async function listCollectionMembers(collectionId: string): Promise<CollectionMember[]> {
+  const { data, error } = await supabase
+    .from('cdc_collection_members')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error listing collection members:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Add a member or change their role
+export async function setCollectionMember(
+  collectionId: string,
+  userId: string,
+  role: CollectionRole
+): Promise<CollectionMember | null> {
+  const { data, error } = await supabase
+    .from('cdc_collection_members')
+    .upsert(
+      { collection_id: collectionId, user_id: userId, role },
+      { onConflict: 'collection_id,user_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving collection member:', error)
+    return null
+  }
+
+  return data
+}
+
+// Remove a member
+export async function removeCollectionMember(collectionId: string, userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('cdc_collection_members')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error removing collection member:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Collection a user's uploads go to when none is chosen: the first one they can edit, else a new
+ * personal collection.
+ */
+export async function getDefaultUploadCollection(userId: string): Promise<CollectionWithRole | null> {
+  const collections = await listUserCollections(userId)
+  const editable = collections.find((c) => c.owner_id === userId) ?? collections.find((c) => hasCollectionRole(c.role, 'editor'))
+  if (editable) return editable
+  const created = await createCollection(userId, 'Mes documents')
+  return created ? { ...created, role: 'admin' } : null
+}
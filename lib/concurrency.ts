@@ -0,0 +1,105 @@
+/**
+ * Bounded concurrency helpers: run independent retrievals or drafts side by side without
+ * exceeding provider rate limits, while keeping results (and streamed output) in input order.
+ */
+
+/**
+ * Read a positive integer limit from the environment, falling back to `fallback`.
+ */
+export function concurrencyFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Map `items` with at most `limit` calls in flight; results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker))
+  return results
+}
+
+/**
+ * Run async generators with at most `limit` active at once and yield their items in task order:
+ * the current task streams live, later ones buffer until their turn. Returns each task's return value.
+ * After a task fails no new task starts, and the error is thrown when that task's turn comes.
+ */
+export async function* orderedMerge<T, R>(
+  tasks: (() => AsyncGenerator<T, R, unknown>)[],
+  limit: number
+): AsyncGenerator<T, R[], unknown> {
+  const buffers: T[][] = tasks.map(() => [])
+  const finished: boolean[] = tasks.map(() => false)
+  const errors = new Map<number, unknown>()
+  const results: R[] = new Array(tasks.length)
+  let started = 0
+  let active = 0
+  let halted = false
+  let waiter: (() => void) | null = null
+
+  const wake = () => {
+    const resolve = waiter
+    waiter = null
+    resolve?.()
+  }
+
+  const run = async (index: number) => {
+    try {
+      const gen = tasks[index]()
+      while (true) {
+        const step = await gen.next()
+        if (step.done) {
+          results[index] = step.value
+          break
+        }
+        buffers[index].push(step.value)
+        wake()
+      }
+    } catch (err) {
+      errors.set(index, err)
+      halted = true
+    } finally {
+      finished[index] = true
+      active--
+      startMore()
+      wake()
+    }
+  }
+
+  const startMore = () => {
+    while (!halted && active < Math.max(limit, 1) && started < tasks.length) {
+      active++
+      void run(started++)
+    }
+  }
+
+  try {
+    startMore()
+    for (let i = 0; i < tasks.length; i++) {
+      while (true) {
+        while (buffers[i].length > 0) yield buffers[i].shift() as T
+        if (errors.has(i)) throw errors.get(i)
+        if (finished[i]) break
+        await new Promise<void>((resolve) => {
+          waiter = resolve
+        })
+      }
+    }
+    return results
+  } finally {
+    // Consumer stopped early: start nothing more (running tasks end through their own abort signal)
+    halted = true
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { packContext, packedSection, summarizeHistory, fitMessages, estimateTokens, type ContextItem } from './contextBudget'
+import { createMockProvider, LLMError } from './llm'
+
+const capabilities = { vision: false, maxOutputTokens: 1000, contextWindow: 4000 }
+const turn = (i: number) => `Message ${i} : ` + 'le budget de la Caisse progresse. '.repeat(60)
+
+function packHistory(count: number) {
+  const items: ContextItem<number>[] = [
+    { section: 'system', text: 'Tu es un assistant.', required: true },
+    ...Array.from({ length: count }, (_, i): ContextItem<number> => ({ section: 'history', text: turn(i), value: i, ref: i })),
+  ]
+  return packContext(items, { capabilities, outputTokens: 1000 })
+}
+
+describe('packContext', () => {
+  it('leaves the oldest turns out first when the history does not fit', () => {
+    const packed = packHistory(8)
+    const kept = packedSection(packed, 'history').map((item) => item.ref)
+    expect(kept.length).toBeGreaterThan(0)
+    expect(kept.length).toBeLessThan(8)
+    expect(kept[kept.length - 1]).toBe(7)
+    expect(packed.dropped.map((item) => item.ref)).toEqual(Array.from({ length: 8 - kept.length }, (_, i) => i))
+    expect(packed.promptTokens).toBeLessThanOrEqual(packed.budgetTokens)
+    expect(estimateTokens(turn(0))).toBeGreaterThan(500)
+  })
+
+  it('reports how much of a shortened item is kept, the truncation note excluded', () => {
+    const note = '[... tronqué ...]'
+    const text = 'Le budget de la Caisse progresse. '.repeat(600)
+    const packed = packContext(
+      [
+        { section: 'system', text: 'Tu es un assistant.', required: true },
+        { section: 'files', text, minTokens: 200 },
+      ],
+      { capabilities, outputTokens: 1000, truncationNote: note }
+    )
+
+    const [file] = packedSection(packed, 'files')
+    expect(file.shortened).toBe(true)
+    expect(file.text.endsWith(note)).toBe(true)
+    expect(file.keptChars).toBeLessThan(file.text.length - note.length)
+    expect(text.startsWith(file.text.slice(0, file.keptChars))).toBe(true)
+  })
+})
+
+describe('summarizeHistory', () => {
+  it('summarizes the turns left out within the budget left', async () => {
+    const packed = packHistory(8)
+    const llm = createMockProvider({ fallback: () => '- Le budget progresse.' })
+    const turns = packed.dropped.map((item) => ({ role: 'user' as const, content: item.text }))
+
+    const summary = await summarizeHistory(llm, turns, packed)
+
+    expect(summary).toBe('- Le budget progresse.')
+    expect(llm.calls).toHaveLength(1)
+    const room = llm.calls[0].options.max_completion_tokens ?? 0
+    expect(room).toBeLessThanOrEqual(packed.budgetTokens - packed.promptTokens)
+    expect(llm.calls[0].messages[0].content).toContain('Message 0')
+  })
+
+  it('writes nothing without turns left out, and leaves them out when the call fails', async () => {
+    const packed = packHistory(8)
+    const llm = createMockProvider({ fallback: () => 'résumé' })
+    expect(await summarizeHistory(llm, [], packed)).toBe('')
+    expect(llm.calls).toHaveLength(0)
+
+    const failing = createMockProvider({ rules: [{ match: /./, response: new LLMError('timeout') }] })
+    expect(await summarizeHistory(failing, [{ role: 'user', content: turn(0) }], packed)).toBe('')
+  })
+})
+
+describe('fitMessages', () => {
+  const small = { vision: false, maxOutputTokens: 2048, contextWindow: 8192 }
+
+  it('leaves messages that fit untouched', () => {
+    const messages = [{ role: 'user' as const, content: 'Quel est le budget ?' }]
+    expect(fitMessages(messages, 'Système', small, 4096)).toEqual({ messages, outputTokens: 2048, fitted: false })
+  })
+
+  it('refits a prompt packed for a larger window, keeping the end of the last message', () => {
+    const context = 'Extrait : le budget de la Caisse progresse. '.repeat(3000)
+    const messages = [
+      { role: 'user' as const, content: turn(0) },
+      { role: 'assistant' as const, content: turn(1) },
+      { role: 'user' as const, content: `${context}\n\n---\n\nQuestion : quel est le budget ?` },
+    ]
+
+    const fit = fitMessages(messages, 'Système', small, 4096)
+
+    expect(fit.fitted).toBe(true)
+    expect(fit.outputTokens).toBe(2048)
+    const last = fit.messages[fit.messages.length - 1]
+    expect(last.content.endsWith('Question : quel est le budget ?')).toBe(true)
+    const promptTokens = fit.messages.reduce((acc, m) => acc + estimateTokens(m.content), estimateTokens('Système'))
+    expect(promptTokens + fit.outputTokens).toBeLessThanOrEqual(small.contextWindow)
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Token-budget-aware prompt assembly. The model's context window, minus the completion, is split
+ * across the prompt sections (system prompt, memories, attached files, retrieved extracts, history);
+ * a section needing less than its share leaves the rest to the others. Within a section the most
+ * valuable items are kept; an item over budget is shortened (its head is kept) when it allows it,
+ * else dropped, lowest value first. History turns left out are then summarized in what the budget
+ * has left (summarizeHistory), so the model still knows what was said.
+ */
+
+import type { LLMCapabilities, LLMProvider, ChatMessage } from './llm'
+
+export type ContextSection = 'system' | 'memories' | 'files' | 'chunks' | 'history'
+
+export interface ContextItem<T = unknown> {
+  section: ContextSection
+  text: string
+  /** Higher is kept first (default 0); ties keep the earlier item */
+  value?: number
+  /** Always kept whole (base system prompt, current question) */
+  required?: boolean
+  /** Shortest useful shortened form, in tokens; without it the item is kept whole or dropped */
+  minTokens?: number
+  /** Caller data carried through (the chunk, message or file the text comes from) */
+  ref?: T
+}
+
+export interface PackedItem<T = unknown> extends ContextItem<T> {
+  /** The text was cut to fit (see shortenText) */
+  shortened: boolean
+  /** Characters of the original text kept, the truncation note excluded */
+  keptChars: number
+}
+
+export interface PackedContext<T = unknown> {
+  /** Kept items, in input order */
+  items: PackedItem<T>[]
+  /** Items left out, in input order */
+  dropped: ContextItem<T>[]
+  /** Estimated prompt size of the kept items */
+  promptTokens: number
+  /** Prompt tokens available once the completion is reserved */
+  budgetTokens: number
+  /** Completion length to request, clamped to what the model and the window allow */
+  outputTokens: number
+}
+
+export interface PackOptions {
+  /** Model limits (LLMProvider.capabilities) */
+  capabilities: LLMCapabilities
+  /** Completion tokens wanted (max_completion_tokens) */
+  outputTokens: number
+  /** Relative share of the prompt budget per section (default DEFAULT_SHARES) */
+  shares?: Partial<Record<ContextSection, number>>
+  /** Appended to shortened texts (default '[...]') */
+  truncationNote?: string
+}
+
+/** Rough characters per token for French and English prose (tokenizers differ; this errs on the safe side) */
+const CHARS_PER_TOKEN = 3.5
+/** Per-item overhead: role markers, separators, headings */
+const ITEM_OVERHEAD_TOKENS = 8
+/** Slack for the estimate's error */
+const SAFETY_RATIO = 0.05
+const MIN_SAFETY_TOKENS = 256
+
+/** Longest summary of left-out history turns */
+const SUMMARY_MAX_TOKENS = 400
+/** Below this much spare budget no summary is written: the turns are just left out */
+const SUMMARY_MIN_TOKENS = 80
+/** Share of the summarizing model's window given to the turns to summarize */
+const SUMMARY_INPUT_RATIO = 0.6
+
+const SUMMARY_SYSTEM =
+  'You summarize earlier turns of a conversation that no longer fit in the prompt. Keep the facts, figures, names, decisions and open questions that later messages may refer to. Write a few short bullet points in the language of the conversation, with no introduction.'
+
+const DEFAULT_SHARES: Record<ContextSection, number> = {
+  system: 1,
+  memories: 1,
+  files: 4,
+  chunks: 4,
+  history: 2,
+}
+
+/**
+ * Estimated token count of a text; the one estimate used for prompt budgets and usage accounting.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+// Size of a text as a prompt item, with its separators
+function itemTokens(text: string): number {
+  return estimateTokens(text) + ITEM_OVERHEAD_TOKENS
+}
+
+/**
+ * Cut `text` to about `maxTokens`, at a paragraph or sentence end when one is close, and append `note`.
+ */
+export function shortenText(text: string, maxTokens: number, note: string = '[...]'): string {
+  return cutText(text, maxTokens, note).text
+}
+
+// shortenText, also giving the length of the original text kept
+function cutText(text: string, maxTokens: number, note: string = '[...]'): { text: string; keptChars: number } {
+  const maxChars = Math.floor((maxTokens - ITEM_OVERHEAD_TOKENS) * CHARS_PER_TOKEN) - note.length - 2
+  if (text.length <= maxChars) return { text, keptChars: text.length }
+  if (maxChars <= 0) return { text: note, keptChars: 0 }
+  const head = text.slice(0, maxChars)
+  const boundary = Math.max(head.lastIndexOf('\n\n'), head.lastIndexOf('. '), head.lastIndexOf('\n'))
+  const cut = (boundary > maxChars * 0.8 ? head.slice(0, boundary + 1) : head).trimEnd()
+  return { text: `${cut}\n\n${note}`, keptChars: cut.length }
+}
+
+/**
+ * Split `available` tokens across sections in proportion to their shares, capped by what each needs;
+ * what a section leaves unused is shared again among the others.
+ */
+function allocate(
+  demand: Record<ContextSection, number>,
+  shares: Record<ContextSection, number>,
+  available: number
+): Record<ContextSection, number> {
+  const allocation: Record<ContextSection, number> = { system: 0, memories: 0, files: 0, chunks: 0, history: 0 }
+  const weight = (s: ContextSection) => (shares[s] > 0 ? shares[s] : 1)
+  let open = (Object.keys(demand) as ContextSection[]).filter((s) => demand[s] > 0)
+  let pool = Math.max(available, 0)
+  while (open.length > 0) {
+    const totalShare = open.reduce((acc, s) => acc + weight(s), 0)
+    const satisfied = open.filter((s) => demand[s] <= (pool * weight(s)) / totalShare)
+    if (satisfied.length === 0) {
+      open.forEach((s) => {
+        allocation[s] = Math.floor((pool * weight(s)) / totalShare)
+      })
+      break
+    }
+    satisfied.forEach((s) => {
+      allocation[s] = demand[s]
+      pool -= demand[s]
+    })
+    open = open.filter((s) => !satisfied.includes(s))
+  }
+  return allocation
+}
+
+/**
+ * Keep what fits in the model's context window. Required items are always kept; the others compete
+ * for the remaining budget by section (see allocate), then by value within their section.
+ */
+export function packContext<T>(items: ContextItem<T>[], options: PackOptions): PackedContext<T> {
+  const { capabilities } = options
+  const outputTokens = Math.max(
+    1,
+    Math.min(options.outputTokens, capabilities.maxOutputTokens, Math.floor(capabilities.contextWindow / 2))
+  )
+  const safety = Math.max(MIN_SAFETY_TOKENS, Math.floor(capabilities.contextWindow * SAFETY_RATIO))
+  const budgetTokens = Math.max(capabilities.contextWindow - outputTokens - safety, 0)
+  const shares = { ...DEFAULT_SHARES, ...options.shares }
+
+  const sized = items.map((item, index) => ({ item, index, tokens: itemTokens(item.text) }))
+  const requiredTokens = sized.filter((s) => s.item.required).reduce((acc, s) => acc + s.tokens, 0)
+  const demand: Record<ContextSection, number> = { system: 0, memories: 0, files: 0, chunks: 0, history: 0 }
+  sized.filter((s) => !s.item.required).forEach((s) => {
+    demand[s.item.section] += s.tokens
+  })
+  const allocation = allocate(demand, shares, budgetTokens - requiredTokens)
+
+  const kept = new Map<number, PackedItem<T>>()
+  sized
+    .filter((s) => s.item.required)
+    .forEach((s) => kept.set(s.index, { ...s.item, shortened: false, keptChars: s.item.text.length }))
+  // Fill each section up to its allocation, then offer what was left over (an item too big to fit
+  // whole) to the items still out, section by section
+  const fill = (section: ContextSection, budget: number): number => {
+    let left = budget
+    const candidates = sized
+      .filter((s) => !s.item.required && s.item.section === section && !kept.has(s.index))
+      .sort((a, b) => (b.item.value ?? 0) - (a.item.value ?? 0) || a.index - b.index)
+    for (const { item, index, tokens } of candidates) {
+      if (tokens <= left) {
+        kept.set(index, { ...item, shortened: false, keptChars: item.text.length })
+        left -= tokens
+      } else if (item.minTokens != null && left >= item.minTokens) {
+        const { text, keptChars } = cutText(item.text, left, options.truncationNote)
+        kept.set(index, { ...item, text, shortened: true, keptChars })
+        left -= itemTokens(text)
+      }
+    }
+    return left
+  }
+  const sections = Object.keys(allocation) as ContextSection[]
+  let spare = sections.reduce((acc, section) => acc + fill(section, allocation[section]), 0)
+  for (const section of sections) spare = fill(section, spare)
+  const promptTokens = requiredTokens + Array.from(kept.values())
+    .filter((item) => !item.required)
+    .reduce((acc, item) => acc + itemTokens(item.text), 0)
+  if (promptTokens > budgetTokens) {
+    console.warn(`Prompt (${promptTokens} tokens) exceeds the ${budgetTokens}-token budget: required items alone do not fit`)
+  }
+
+  return {
+    items: sized.filter((s) => kept.has(s.index)).map((s) => kept.get(s.index)!),
+    dropped: sized.filter((s) => !kept.has(s.index)).map((s) => s.item),
+    promptTokens,
+    budgetTokens,
+    outputTokens,
+  }
+}
+
+/**
+ * Kept items of one section, in input order.
+ */
+export function packedSection<T>(packed: PackedContext<T>, section: ContextSection): PackedItem<T>[] {
+  return packed.items.filter((item) => item.section === section)
+}
+
+/**
+ * Summary of history turns packContext left out, sized to the budget `packed` has left (at most
+ * SUMMARY_MAX_TOKENS). Empty when there is no turn, no room or the call fails; the turns are then
+ * simply left out.
+ */
+export async function summarizeHistory(
+  llm: LLMProvider,
+  turns: ChatMessage[],
+  packed: PackedContext<unknown>,
+  signal?: AbortSignal
+): Promise<string> {
+  const room = Math.min(SUMMARY_MAX_TOKENS, packed.budgetTokens - packed.promptTokens - ITEM_OVERHEAD_TOKENS)
+  if (turns.length === 0 || room < SUMMARY_MIN_TOKENS) return ''
+  const transcript = shortenText(
+    turns.map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n'),
+    Math.floor(llm.capabilities.contextWindow * SUMMARY_INPUT_RATIO)
+  )
+  try {
+    const summary = await llm.complete([{ role: 'user', content: transcript }], {
+      signal,
+      system_prompt: SUMMARY_SYSTEM,
+      max_completion_tokens: room,
+      verbosity: 'low',
+      reasoning_effort: 'minimal',
+    })
+    return shortenText(summary.trim(), room)
+  } catch (err) {
+    if (signal?.aborted) throw err
+    console.error('History summary failed:', err)
+    return ''
+  }
+}
+
+/**
+ * Messages fitted to a model whose window is smaller than the one they were packed for (e.g. a fallback
+ * model): older messages are left out or shortened first; the last one is always sent, cut from its
+ * start when it alone is too long, since its end holds the request. The system prompt is kept whole.
+ */
+export function fitMessages(
+  messages: ChatMessage[],
+  systemPrompt: string,
+  capabilities: LLMCapabilities,
+  outputTokens: number
+): { messages: ChatMessage[]; outputTokens: number; fitted: boolean } {
+  const last = messages[messages.length - 1]
+  const items: ContextItem<number>[] = [
+    { section: 'system', text: systemPrompt, required: true },
+    ...messages.map((m, i): ContextItem<number> => ({
+      section: 'history',
+      text: m.content,
+      value: i,
+      required: i === messages.length - 1,
+      minTokens: 150,
+      ref: i,
+    })),
+  ]
+  const total = items.reduce((acc, item) => acc + itemTokens(item.text), 0)
+  const safety = Math.max(MIN_SAFETY_TOKENS, Math.floor(capabilities.contextWindow * SAFETY_RATIO))
+  const clampedOutput = Math.max(1, Math.min(outputTokens, capabilities.maxOutputTokens, Math.floor(capabilities.contextWindow / 2)))
+  if (total <= capabilities.contextWindow - clampedOutput - safety) {
+    return { messages, outputTokens: clampedOutput, fitted: false }
+  }
+
+  const packed = packContext(items, { capabilities, outputTokens })
+  const fitted = packedSection(packed, 'history').map((item) => ({ ...messages[item.ref!], content: item.text }))
+  const over = packed.promptTokens - packed.budgetTokens
+  if (last && over > 0) {
+    const note = '[...]'
+    const keepChars = Math.max(last.content.length - Math.ceil(over * CHARS_PER_TOKEN) - note.length - 2, 0)
+    const tail = last.content.slice(last.content.length - keepChars)
+    const boundary = tail.indexOf('\n\n')
+    const cut = boundary >= 0 && boundary < keepChars * 0.2 ? tail.slice(boundary + 2) : tail
+    fitted[fitted.length - 1] = { ...last, content: `${note}\n\n${cut.trimStart()}` }
+  }
+  return { messages: fitted, outputTokens: packed.outputTokens, fitted: true }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { toDataTable } from './dataTables'
+
+describe('toDataTable', () => {
+  it('leaves out total rows but keeps data rows whose label starts with "Total"', () => {
+    const table = toDataTable('encours', [
+      ['Client', 'Encours'],
+      ['Total Energies', '500'],
+      ['Bretagne', '300'],
+      ['Sous-total :', '800'],
+      ['Total des dépôts – Région Nord', '200'],
+      ['Total', '1000'],
+    ])
+
+    expect(table?.rows).toEqual([
+      ['Total Energies', 500],
+      ['Bretagne', 300],
+      ['Total des dépôts – Région Nord', 200],
+    ])
+  })
+
+  it('keeps a row labelled "Total" that is followed by data', () => {
+    const table = toDataTable('comptes', [
+      ['Compte', 'Solde'],
+      ['Total', '10'],
+      ['Épargne', '20'],
+    ])
+
+    expect(table?.rows.map((r) => r[0])).toEqual(['Total', 'Épargne'])
+  })
+})
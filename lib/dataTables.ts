@@ -0,0 +1,247 @@
+/**
+ * CDC Agent: typed tables of tabular documents (CSV, XLSX, ODS). At ingestion every table of the file
+ * (one per CSV, one per block of rows in a sheet, see sheetTables) is stored in cdc_document_tables with
+ * its schema, so the agent can filter, group and aggregate it exactly (see tableQuery).
+ */
+
+import { supabase } from './supabaseClient'
+import { filteredDocumentIds, type SearchFilters } from './ragSearch'
+import { findDocumentExtractor, parseCsv, readSheets, sheetTables } from './extractors'
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'text'
+
+export interface TableColumn {
+  name: string
+  type: ColumnType
+  /** Distinct values of a text column that has few (e.g. regions), so queries can filter on them */
+  values?: string[]
+}
+
+/** Number, ISO date ("2023-03-15", "2023-03-15 12:00"), boolean or text; null when the cell is empty */
+export type CellValue = number | string | boolean | null
+
+export interface DataTable {
+  /** Sheet name, with the table's title when the sheet has several tables */
+  name: string
+  columns: TableColumn[]
+  rows: CellValue[][]
+}
+
+/** A row of cdc_document_tables */
+export interface StoredDataTable extends DataTable {
+  id: string
+  document_id: string
+  document_name: string
+  table_index: number
+  row_count: number
+}
+
+/** A stored table without its rows (what the query planner is shown) */
+export type DataTableSchema = Omit<StoredDataTable, 'rows'>
+
+/** Formats stored as tables, by extractor name */
+const TABULAR_EXTRACTORS = ['csv', 'xlsx', 'ods']
+/** Rows stored per table; the chunks of the document still hold the rest as text */
+const MAX_TABLE_ROWS = 50000
+/** Text columns with at most this many distinct values list them in their schema */
+const MAX_LISTED_VALUES = 30
+/** Tables offered to the query planner for one question */
+const MAX_LISTED_TABLES = 30
+
+/**
+ * Number written the French or the English way ("1 234,5", "1.234,5", "1,234.5", "12,5 %", "12 €"),
+ * or null. Codes with a leading zero ("01", "0612") are not numbers.
+ */
+export function parseNumber(raw: string): number | null {
+  let s = raw.replace(/\s/g, '').replace(/(?:€|\$|£|EUR|%)$/i, '')
+  if (/^[-+]?0\d/.test(s)) return null
+  if (/^[-+]?\d{1,3}(?:\.\d{3})+(?:,\d+)?$/.test(s)) s = s.replace(/\./g, '').replace(',', '.')
+  else if (/^[-+]?\d{1,3}(?:,\d{3})+\.\d+$/.test(s)) s = s.replace(/,/g, '')
+  else s = s.replace(',', '.')
+  if (!/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(s)) return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * ISO date of "2023-03-15", "2023-03-15 12:00" or "15/03/2023" (day first), else null.
+ */
+export function parseDate(raw: string): string | null {
+  const s = raw.trim()
+  if (/^\d{4}-\d{2}-\d{2}(?: \d{2}:\d{2})?$/.test(s)) return s
+  const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (!m || Number(m[2]) > 12 || Number(m[1]) > 31) return null
+  return `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`
+}
+
+function parseBoolean(raw: string): boolean | null {
+  const s = raw.trim().toLowerCase()
+  if (s === 'vrai' || s === 'true') return true
+  if (s === 'faux' || s === 'false') return false
+  return null
+}
+
+const PARSERS: Record<Exclude<ColumnType, 'text'>, (raw: string) => CellValue> = {
+  number: parseNumber,
+  date: parseDate,
+  boolean: parseBoolean,
+}
+
+/**
+ * Value of a cell of a column of `type` (null when it does not parse).
+ */
+export function parseCellValue(raw: string, type: ColumnType): CellValue {
+  return type === 'text' ? raw : PARSERS[type](raw)
+}
+
+// The first type every non-empty value of the column parses as, else text
+function columnType(values: string[]): ColumnType {
+  const filled = values.filter(Boolean)
+  if (filled.length === 0) return 'text'
+  for (const type of ['number', 'date', 'boolean'] as const) {
+    if (filled.every((v) => PARSERS[type](v) !== null)) return type
+  }
+  return 'text'
+}
+
+// Header cells as column names: blank ones numbered, duplicates suffixed
+function columnNames(header: string[], width: number): string[] {
+  const names: string[] = []
+  for (let i = 0; i < width; i++) {
+    const base = header[i]?.trim() || `Colonne ${i + 1}`
+    let name = base
+    for (let n = 2; names.includes(name); n++) name = `${base} (${n})`
+    names.push(name)
+  }
+  return names
+}
+
+/**
+ * First cell of a total row: exactly "Total" or "Sous-total" (optionally followed by ":" or "-"), so a
+ * data row such as "Total Energies" is kept. Total rows are left out so sums do not count them twice.
+ */
+const TOTAL_ROW = /^total\s*[:\-–]?$/i
+const SUBTOTAL_ROW = /^sous[- ]?total\s*[:\-–]?$/i
+
+// Data rows of a table body: trailing total rows and sub-total rows anywhere are dropped
+function dataRows(body: string[][]): string[][] {
+  const label = (row: string[]) => (row[0] ?? '').trim()
+  let end = body.length
+  while (end > 0 && (TOTAL_ROW.test(label(body[end - 1])) || SUBTOTAL_ROW.test(label(body[end - 1])))) end--
+  return body.slice(0, end).filter((row) => !SUBTOTAL_ROW.test(label(row)))
+}
+
+/**
+ * Typed table from rows of cells, the first row being the header. Null without data rows.
+ */
+export function toDataTable(name: string, cells: string[][]): DataTable | null {
+  const [header, ...body] = cells.filter((row) => row.some((c) => c.trim()))
+  if (!header) return null
+  const rows = dataRows(body).slice(0, MAX_TABLE_ROWS)
+  if (rows.length === 0) return null
+  const width = rows.reduce((max, r) => Math.max(max, r.length), header.length)
+  const names = columnNames(header, width)
+  const columns: TableColumn[] = names.map((columnName, i) => {
+    const type = columnType(rows.map((r) => (r[i] ?? '').trim()))
+    if (type !== 'text') return { name: columnName, type }
+    const distinct = Array.from(new Set(rows.map((r) => (r[i] ?? '').trim()).filter(Boolean)))
+    return distinct.length <= MAX_LISTED_VALUES ? { name: columnName, type, values: distinct } : { name: columnName, type }
+  })
+  return {
+    name,
+    columns,
+    rows: rows.map((r) =>
+      columns.map((column, i) => {
+        const raw = (r[i] ?? '').trim()
+        return raw ? parseCellValue(raw, column.type) : null
+      })
+    ),
+  }
+}
+
+/**
+ * True for the formats stored as tables (CSV, XLSX, ODS).
+ */
+export function isTabularDocument(mimeType: string, fileName: string): boolean {
+  const extractor = findDocumentExtractor(mimeType, fileName)
+  return !!extractor && TABULAR_EXTRACTORS.includes(extractor.name)
+}
+
+/**
+ * Tables of a CSV, XLSX or ODS file (none for other formats).
+ */
+export async function extractDataTables(buffer: Buffer, mimeType: string, fileName: string): Promise<DataTable[]> {
+  const format = findDocumentExtractor(mimeType, fileName)?.name
+  if (format === 'csv') {
+    const table = toDataTable(fileName.replace(/\.[^.]+$/, ''), parseCsv(buffer.toString('utf-8')))
+    return table ? [table] : []
+  }
+  if (format !== 'xlsx' && format !== 'ods') return []
+  const tables: DataTable[] = []
+  for (const sheet of await readSheets(buffer, format)) {
+    const parts = sheetTables(sheet)
+    parts.forEach((part, i) => {
+      const title = part.title ?? (parts.length > 1 ? `tableau ${i + 1}` : null)
+      const table = toDataTable(title ? `${sheet.name} — ${title}` : sheet.name, part.rows)
+      if (table) tables.push(table)
+    })
+  }
+  return tables
+}
+
+// Store the tables of an ingested document; false on error
+export async function storeDocumentTables(documentId: string, documentName: string, tables: DataTable[]): Promise<boolean> {
+  if (tables.length === 0) return true
+  const { error } = await supabase.from('cdc_document_tables').insert(
+    tables.map((table, i) => ({
+      document_id: documentId,
+      document_name: documentName,
+      table_index: i,
+      name: table.name,
+      columns: table.columns,
+      rows: table.rows,
+      row_count: table.rows.length,
+    }))
+  )
+  if (error) {
+    console.error('Error storing document tables:', error)
+    return false
+  }
+  return true
+}
+
+// List the tables of the searchable documents matching `filters` (schemas only)
+export async function listDataTables(filters?: SearchFilters): Promise<DataTableSchema[]> {
+  const documentIds = await filteredDocumentIds(filters)
+  if (documentIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('cdc_document_tables')
+    .select('id, document_id, document_name, table_index, name, columns, row_count')
+    .in('document_id', documentIds)
+    .order('document_id', { ascending: true })
+    .order('table_index', { ascending: true })
+    .limit(MAX_LISTED_TABLES)
+
+  if (error) {
+    console.error('Error listing document tables:', error)
+    return []
+  }
+
+  return data || []
+}
+
+// Get one table with its rows
+export async function getDataTable(tableId: string): Promise<StoredDataTable | null> {
+  const { data, error } = await supabase
+    .from('cdc_document_tables')
+    .select('*')
+    .eq('id', tableId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching document table:', error)
+    return null
+  }
+
+  return data
+}
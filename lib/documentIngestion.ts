@@ -0,0 +1,309 @@
+/**
+ * CDC Agent: asynchronous document ingestion. An upload stores the file in the cdc-documents bucket and
+ * inserts its cdc_documents row as 'uploaded'; a worker — the request that queued it, or POST
+ * /api/agent/jobs (cron) — claims it and moves it through extracting → chunking → indexing → ready,
+ * or failed with the error. Status and progress live on the row, so any instance can report them.
+ */
+
+import { randomUUID } from 'crypto'
+import { supabase } from './supabaseClient'
+import { extractDocument, documentText, chunkDocument } from './documentProcessor'
+import { embedTexts } from './embeddings'
+import { settleVersionGroup, type DocumentVersion } from './documentVersions'
+import { isTabularDocument, extractDataTables, storeDocumentTables } from './dataTables'
+import type { DocumentMetadata } from './documentMetadata'
+
+export type IngestionStatus = 'uploaded' | 'extracting' | 'chunking' | 'indexing' | 'ready' | 'failed'
+
+export interface DocumentIngestion {
+  id: string
+  collection_id: string
+  name: string
+  file_type: string
+  file_size: number
+  storage_path: string | null
+  version: number
+  version_group_id: string
+  status: IngestionStatus
+  /** Percentage shown in the document panel */
+  progress: number
+  error: string | null
+  chunk_count: number
+  attempts: number
+  status_updated_at: string
+}
+
+export interface NewDocumentIngestion {
+  userId: string
+  collectionId: string
+  file: File
+  /** File contents, already read to compute contentHash */
+  buffer: Buffer
+  contentHash: string
+  metadata: DocumentMetadata
+  /** Document this upload is a new version of (same collection) */
+  previousVersion?: Pick<DocumentVersion, 'version_group_id' | 'version'>
+}
+
+/** Private bucket holding uploaded files until (and after) ingestion, see migration 010 */
+export const INGESTION_BUCKET = 'cdc-documents'
+
+/** Documents ingested at once across workers (extraction and embedding are CPU and rate-limit bound) */
+const MAX_RUNNING_INGESTIONS = Number(process.env.DOCUMENT_INGESTION_CONCURRENCY) || 2
+/** An ingestion not updated for this long is considered abandoned (its worker died) */
+const STALE_INGESTION_MS = 15 * 60 * 1000
+/** Runs of one ingestion before an abandoned one is marked failed */
+const MAX_ATTEMPTS = 2
+const RUNNING_STATUSES: IngestionStatus[] = ['extracting', 'chunking', 'indexing']
+const MAX_CONTENT_TEXT = 500000
+
+// Store the file and queue its ingestion; returns the 'uploaded' row
+export async function enqueueDocumentIngestion(upload: NewDocumentIngestion): Promise<DocumentIngestion | null> {
+  const { file } = upload
+  const storagePath = `${upload.collectionId}/${randomUUID()}-${file.name.replace(/[^\w.\-]+/g, '_')}`
+  const { error: uploadError } = await supabase.storage
+    .from(INGESTION_BUCKET)
+    .upload(storagePath, upload.buffer, {
+      contentType: file.type || 'application/octet-stream',
+      upsert: false,
+    })
+  if (uploadError) {
+    console.error('Error storing uploaded document:', uploadError)
+    return null
+  }
+
+  const id = randomUUID()
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_documents')
+    .insert({
+      id,
+      collection_id: upload.collectionId,
+      owner_id: upload.userId,
+      name: file.name,
+      file_type: file.type,
+      file_size: file.size,
+      chunk_count: 0,
+      uploaded_at: now,
+      storage_path: storagePath,
+      content_hash: upload.contentHash,
+      version_group_id: upload.previousVersion?.version_group_id ?? id,
+      version: upload.previousVersion ? upload.previousVersion.version + 1 : 1,
+      // The previous version stays current until this one is ready
+      superseded_at: null,
+      status: 'uploaded',
+      progress: 0,
+      error: null,
+      attempts: 0,
+      status_updated_at: now,
+      ...upload.metadata,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error queuing document ingestion:', error)
+    await supabase.storage.from(INGESTION_BUCKET).remove([storagePath])
+    return null
+  }
+
+  return data
+}
+
+async function updateIngestion(documentId: string, patch: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from('cdc_documents')
+    .update({ ...patch, status_updated_at: new Date().toISOString() })
+    .eq('id', documentId)
+  if (error) console.error('Error updating document ingestion:', error)
+}
+
+async function countRunningIngestions(): Promise<number> {
+  const { count, error } = await supabase
+    .from('cdc_documents')
+    .select('id', { count: 'exact', head: true })
+    .in('status', RUNNING_STATUSES)
+  if (error) {
+    console.error('Error counting running ingestions:', error)
+    return MAX_RUNNING_INGESTIONS
+  }
+  return count ?? 0
+}
+
+/**
+ * Claim an uploaded document for this worker. The conditional update (status still 'uploaded') makes
+ * the claim atomic. Returns null when taken or at the concurrency limit.
+ */
+async function claimDocumentIngestion(documentId: string): Promise<DocumentIngestion | null> {
+  if ((await countRunningIngestions()) >= MAX_RUNNING_INGESTIONS) return null
+  const { data: current, error: fetchError } = await supabase
+    .from('cdc_documents')
+    .select('attempts, status')
+    .eq('id', documentId)
+    .maybeSingle()
+  if (fetchError) console.error('Error fetching document ingestion:', fetchError)
+  if (!current || current.status !== 'uploaded') return null
+
+  const { data, error } = await supabase
+    .from('cdc_documents')
+    .update({
+      status: 'extracting',
+      progress: 5,
+      error: null,
+      attempts: (current.attempts ?? 0) + 1,
+      status_updated_at: new Date().toISOString(),
+    })
+    .eq('id', documentId)
+    .eq('status', 'uploaded')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error claiming document ingestion:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Put abandoned ingestions back in the queue, or fail them after MAX_ATTEMPTS runs.
+ */
+async function recoverStaleIngestions(): Promise<void> {
+  const cutoff = new Date(Date.now() - STALE_INGESTION_MS).toISOString()
+  const { data, error } = await supabase
+    .from('cdc_documents')
+    .select('id, attempts')
+    .in('status', RUNNING_STATUSES)
+    .lt('status_updated_at', cutoff)
+  if (error) {
+    console.error('Error fetching stale ingestions:', error)
+    return
+  }
+  for (const doc of (data || []) as { id: string; attempts: number }[]) {
+    await supabase.from('cdc_chunks').delete().eq('document_id', doc.id)
+    await supabase.from('cdc_document_tables').delete().eq('document_id', doc.id)
+    if (doc.attempts >= MAX_ATTEMPTS) {
+      await updateIngestion(doc.id, { status: 'failed', error: 'L’indexation a été interrompue (worker arrêté).' })
+    } else {
+      await updateIngestion(doc.id, { status: 'uploaded', progress: 0 })
+    }
+  }
+}
+
+async function downloadDocument(storagePath: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage.from(INGESTION_BUCKET).download(storagePath)
+  if (error || !data) throw new Error('Fichier introuvable dans le stockage.')
+  if (Buffer.isBuffer(data)) return data
+  return Buffer.from(await (data as Blob).arrayBuffer())
+}
+
+/**
+ * Run a claimed ingestion: extract, chunk, embed (best-effort: without embeddings the chunks are still
+ * reachable through full-text search) and store the chunks, plus the typed tables of CSV and spreadsheet
+ * files (see dataTables). Returns the final status.
+ */
+async function executeDocumentIngestion(doc: DocumentIngestion): Promise<IngestionStatus> {
+  try {
+    if (!doc.storage_path) throw new Error('Fichier introuvable dans le stockage.')
+    const buffer = await downloadDocument(doc.storage_path)
+
+    const extracted = await extractDocument(buffer, doc.file_type, doc.name, {
+      onOcrProgress: (done, total) => updateIngestion(doc.id, { progress: 5 + Math.round((25 * done) / total) }),
+    })
+    const contentText = documentText(extracted)
+    if (!contentText.trim()) throw new Error('Aucun texte n’a pu être extrait du document.')
+    await updateIngestion(doc.id, {
+      status: 'chunking',
+      progress: 30,
+      content_text: contentText.slice(0, MAX_CONTENT_TEXT),
+      page_count: extracted.pageCount,
+      ocr_page_count: extracted.ocrPageCount ?? 0,
+    })
+
+    const chunks = chunkDocument(extracted)
+    await updateIngestion(doc.id, { status: 'indexing', progress: 40 })
+
+    let embeddings: number[][] | null = null
+    try {
+      embeddings = await embedTexts(
+        chunks.map((chunk) => chunk.content),
+        (done, total) => updateIngestion(doc.id, { progress: 40 + Math.round((50 * done) / total) })
+      )
+    } catch (embedError) {
+      console.error('cdc_chunks embedding error:', embedError)
+    }
+
+    const documentName = doc.version > 1 ? `${doc.name} (v${doc.version})` : doc.name
+    if (chunks.length > 0) {
+      const { error: chunksError } = await supabase.from('cdc_chunks').insert(
+        chunks.map((chunk, i) => ({
+          document_id: doc.id,
+          document_name: documentName,
+          content: chunk.content,
+          chunk_index: chunk.index,
+          page_start: chunk.pageStart,
+          page_end: chunk.pageEnd,
+          heading_path: chunk.headingPath,
+          ocr_confidence: chunk.ocrConfidence,
+          ...(embeddings && { embedding: embeddings[i] }),
+        }))
+      )
+      if (chunksError) {
+        console.error('cdc_chunks insert error:', chunksError)
+        throw new Error('Les passages du document n’ont pas pu être enregistrés.')
+      }
+    }
+    if (isTabularDocument(doc.file_type, doc.name)) {
+      const tables = await extractDataTables(buffer, doc.file_type, doc.name)
+      if (!(await storeDocumentTables(doc.id, documentName, tables))) {
+        throw new Error('Les tableaux du document n’ont pas pu être enregistrés.')
+      }
+    }
+
+    await updateIngestion(doc.id, { status: 'ready', progress: 100, chunk_count: chunks.length, error: null })
+    await settleVersionGroup(doc.version_group_id)
+    return 'ready'
+  } catch (err) {
+    console.error(`Ingestion of document ${doc.id} failed:`, err)
+    await supabase.from('cdc_chunks').delete().eq('document_id', doc.id)
+    await supabase.from('cdc_document_tables').delete().eq('document_id', doc.id)
+    await updateIngestion(doc.id, {
+      status: 'failed',
+      chunk_count: 0,
+      error: err instanceof Error ? err.message : 'Erreur inconnue',
+    })
+    return 'failed'
+  }
+}
+
+/**
+ * Worker loop: recover abandoned ingestions, then claim and run uploaded documents (oldest first)
+ * until the queue is empty, the concurrency limit is reached or `maxDocuments` ran.
+ * Returns the number of documents processed.
+ */
+export async function processDocumentIngestions(maxDocuments: number = 10): Promise<number> {
+  await recoverStaleIngestions()
+  let processed = 0
+  while (processed < maxDocuments) {
+    const { data, error } = await supabase
+      .from('cdc_documents')
+      .select('id')
+      .eq('status', 'uploaded')
+      .order('uploaded_at', { ascending: true })
+      .limit(5)
+    if (error) {
+      console.error('Error fetching uploaded documents:', error)
+      break
+    }
+    let doc: DocumentIngestion | null = null
+    for (const row of (data || []) as { id: string }[]) {
+      doc = await claimDocumentIngestion(row.id)
+      if (doc) break
+    }
+    if (!doc) break
+    await executeDocumentIngestion(doc)
+    processed++
+  }
+  return processed
+}
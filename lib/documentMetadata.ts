@@ -0,0 +1,53 @@
+/**
+ * CDC Agent: document-level metadata (tags, year, category, author) stored on cdc_documents, used to
+ * scope searches (see SearchFilters in ragSearch) and edited from the agent page.
+ */
+
+export interface DocumentMetadata {
+  tags: string[]
+  year: number | null
+  category: string | null
+  author: string | null
+}
+
+const MAX_TAGS = 20
+const MAX_TAG_CHARS = 40
+const MAX_TEXT_CHARS = 120
+const MIN_YEAR = 1900
+const MAX_YEAR = 2100
+
+/**
+ * Parse tags from a list or a comma-separated string: trimmed, lowercased, deduplicated.
+ */
+export function parseTags(raw: unknown): string[] {
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : []
+  const tags = values
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.trim().toLowerCase().slice(0, MAX_TAG_CHARS))
+    .filter(Boolean)
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS)
+}
+
+function parseText(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null
+  const text = raw.trim().slice(0, MAX_TEXT_CHARS)
+  return text || null
+}
+
+function parseYear(raw: unknown): number | null {
+  const year = typeof raw === 'string' ? parseInt(raw, 10) : raw
+  return typeof year === 'number' && Number.isInteger(year) && year >= MIN_YEAR && year <= MAX_YEAR ? year : null
+}
+
+/**
+ * Validate metadata received from a client (form fields or JSON). Only the fields present in `raw`
+ * are returned, so an update leaves the others untouched; an empty value clears the field.
+ */
+export function sanitizeDocumentMetadata(raw: Record<string, unknown>): Partial<DocumentMetadata> {
+  const metadata: Partial<DocumentMetadata> = {}
+  if (raw.tags !== undefined && raw.tags !== null) metadata.tags = parseTags(raw.tags)
+  if (raw.year !== undefined) metadata.year = parseYear(raw.year)
+  if (raw.category !== undefined) metadata.category = parseText(raw.category)
+  if (raw.author !== undefined) metadata.author = parseText(raw.author)
+  return metadata
+}
@@ -1,142 +1,212 @@
 /**
- * CDC Agent: extract text from PDF/DOCX/TXT and chunk for full-text search.
- * Chunks ~1500 chars with ~300 char overlap, paragraph-aware.
+ * CDC Agent: extract the structure of documents (headings, paragraphs, tables, pages) with the
+ * extractors of lib/extractors (PDF with OCR of scans, Word, OpenDocument, spreadsheets, slides, web
+ * pages, emails, text) and chunk it for search. Chunks follow section boundaries (~1500 chars, long
+ * paragraphs split with ~300 char overlap) and carry their page range and heading path, so citations
+ * can point to "p. 42, §3.2"; chunks read by OCR record the OCR confidence.
  */
 
+import { findDocumentExtractor, textBlocks, type DocumentBlock, type ExtractedDocument, type ExtractOptions } from './extractors'
+
+export type { DocumentBlock, DocumentBlockType, ExtractedDocument, ExtractOptions } from './extractors'
+
 const CHUNK_SIZE = 1500
 const CHUNK_OVERLAP = 300
 
+export interface DocumentChunk {
+  content: string
+  index: number
+  pageStart: number | null
+  pageEnd: number | null
+  /** Headings enclosing the chunk, outermost first */
+  headingPath: string[]
+  /** Lowest OCR confidence (0-1) of the OCR'd pages in the chunk, null when none was OCR'd */
+  ocrConfidence: number | null
+}
+
 export interface ProcessedDocument {
   name: string
   fileType: string
   fileSize: number
   contentText: string
-  chunks: { content: string; index: number }[]
+  pageCount: number | null
+  ocrPageCount: number
+  chunks: DocumentChunk[]
 }
 
-async function extractPdf(buffer: Buffer): Promise<string> {
-  const pdfParse = (await import('pdf-parse/lib/pdf-parse.js')).default
-  const data = await pdfParse(buffer)
-  return data.text || ''
+/**
+ * Extract the structure of a file: headings, paragraphs and tables with their page.
+ * The extractor is picked from the file extension, then the MIME type (see lib/extractors).
+ */
+export async function extractDocument(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  const extractor = findDocumentExtractor(mimeType, fileName)
+  if (!extractor) throw new Error(`Unsupported file type for text extraction: ${mimeType}`)
+  return extractor.extract(buffer, options)
 }
 
-async function extractDocx(buffer: Buffer): Promise<string> {
-  const mammoth = await import('mammoth')
-  const arrayBuffer = buffer.buffer.slice(
-    buffer.byteOffset,
-    buffer.byteOffset + buffer.byteLength
-  ) as ArrayBuffer
-  const result = await mammoth.extractRawText({ arrayBuffer })
-  return result.value || ''
+/**
+ * Plain text of an extracted document, one block per paragraph.
+ */
+export function documentText(doc: ExtractedDocument): string {
+  return doc.blocks.map((b) => b.text).join('\n\n')
 }
 
 /**
- * Extract plain text from a file (Buffer or string).
- * Supports: application/pdf, application/vnd.openxmlformats-officedocument.wordprocessingml.document, text/*
+ * Extract plain text from a file, keeping paragraph boundaries.
  */
 export async function extractText(
   buffer: Buffer,
   mimeType: string,
-  fileName: string
+  fileName: string,
+  options: ExtractOptions = {}
 ): Promise<string> {
-  const trimmed = (s: string) => s.replace(/\s+/g, ' ').trim()
-  if (mimeType === 'application/pdf') {
-    return trimmed(await extractPdf(buffer))
-  }
-  if (
-    mimeType ===
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-    fileName.toLowerCase().endsWith('.docx')
-  ) {
-    return trimmed(await extractDocx(buffer))
-  }
-  if (mimeType.startsWith('text/') || mimeType === 'application/json') {
-    return trimmed(buffer.toString('utf-8'))
-  }
-  throw new Error(`Unsupported file type for text extraction: ${mimeType}`)
+  return documentText(await extractDocument(buffer, mimeType, fileName, options))
 }
 
+// ---------------------------------------------------------------------------
+// Chunking
+// ---------------------------------------------------------------------------
+
 /**
- * Split text into paragraphs (double newline or long single newlines).
+ * Split a paragraph longer than CHUNK_SIZE on sentence boundaries; a sentence longer than
+ * CHUNK_SIZE is cut in windows overlapping by CHUNK_OVERLAP.
  */
-function splitIntoParagraphs(text: string): string[] {
-  const normalized = text.replace(/\r\n/g, '\n').trim()
-  if (!normalized) return []
-  const blocks = normalized.split(/\n\s*\n/)
-  return blocks.filter((p) => p.trim().length > 0)
+function splitParagraph(text: string): string[] {
+  if (text.length <= CHUNK_SIZE) return [text]
+  const pieces: string[] = []
+  let current = ''
+  for (const sentence of text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [text]) {
+    if (sentence.length > CHUNK_SIZE) {
+      if (current.trim()) pieces.push(current.trim())
+      current = ''
+      for (let j = 0; j < sentence.length; j += CHUNK_SIZE - CHUNK_OVERLAP) {
+        const segment = sentence.slice(j, j + CHUNK_SIZE).trim()
+        if (segment) pieces.push(segment)
+      }
+    } else if (current.length + sentence.length > CHUNK_SIZE) {
+      pieces.push(current.trim())
+      current = sentence
+    } else {
+      current += sentence
+    }
+  }
+  if (current.trim()) pieces.push(current.trim())
+  return pieces
 }
 
 /**
- * Chunk text into ~CHUNK_SIZE character segments with CHUNK_OVERLAP overlap.
- * Prefers splitting on paragraph boundaries.
+ * Split a table longer than CHUNK_SIZE by rows, repeating the header row in every piece.
  */
-export function chunkText(text: string): { content: string; index: number }[] {
-  const paragraphs = splitIntoParagraphs(text)
-  const chunks: { content: string; index: number }[] = []
-  let current = ''
-  let currentLen = 0
-  let chunkIndex = 0
-  const pushCurrent = () => {
-    const trimmed = current.replace(/\s+/g, ' ').trim()
-    if (trimmed.length > 0) {
-      chunks.push({ content: trimmed, index: chunkIndex++ })
+function splitTable(text: string): string[] {
+  if (text.length <= CHUNK_SIZE) return [text]
+  const [header, ...rows] = text.split('\n')
+  const pieces: string[] = []
+  let current: string[] = []
+  let length = header.length
+  for (const row of rows) {
+    if (current.length > 0 && length + row.length + 1 > CHUNK_SIZE) {
+      pieces.push([header, ...current].join('\n'))
+      current = []
+      length = header.length
     }
-    current = ''
-    currentLen = 0
+    current.push(row)
+    length += row.length + 1
   }
+  if (current.length > 0) pieces.push([header, ...current].join('\n'))
+  return pieces
+}
 
-  for (let i = 0; i < paragraphs.length; i++) {
-    const p = paragraphs[i]
-    const pWithNewline = p + '\n\n'
-    const pLen = pWithNewline.length
+/**
+ * Chunk an extracted document along its sections: a heading always starts a new chunk, and blocks of
+ * a section are packed into ~CHUNK_SIZE chunks. Each chunk records its page range and heading path.
+ */
+export function chunkDocument(doc: ExtractedDocument): DocumentChunk[] {
+  const chunks: DocumentChunk[] = []
+  const headings: { level: number; text: string }[] = []
+  let parts: string[] = []
+  let length = 0
+  let hasBody = false
+  let pageStart: number | null = null
+  let pageEnd: number | null = null
+  let ocrConfidence: number | null = null
+  let headingPath: string[] = []
 
-    if (currentLen + pLen <= CHUNK_SIZE) {
-      current += pWithNewline
-      currentLen += pLen
-      continue
+  const flush = () => {
+    const content = parts.join('\n\n').trim()
+    if (content && hasBody) {
+      chunks.push({ content, index: chunks.length, pageStart, pageEnd, headingPath, ocrConfidence })
     }
-
-    if (currentLen > 0) {
-      pushCurrent()
+    parts = []
+    length = 0
+    hasBody = false
+    pageStart = null
+    pageEnd = null
+    ocrConfidence = null
+  }
+  const add = (text: string, block: DocumentBlock) => {
+    parts.push(text)
+    length += text.length + 2
+    if (block.page != null) {
+      pageStart = pageStart == null ? block.page : Math.min(pageStart, block.page)
+      pageEnd = pageEnd == null ? block.page : Math.max(pageEnd, block.page)
+    }
+    if (block.ocrConfidence != null) {
+      ocrConfidence = ocrConfidence == null ? block.ocrConfidence : Math.min(ocrConfidence, block.ocrConfidence)
     }
+  }
 
-    if (p.length <= CHUNK_SIZE) {
-      current = pWithNewline
-      currentLen = pLen
+  for (const block of doc.blocks) {
+    if (block.type === 'heading') {
+      // Consecutive headings (a chapter directly followed by its first section) stay together
+      if (hasBody) flush()
+      const level = block.level ?? 1
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop()
+      headings.push({ level, text: block.text })
+      headingPath = headings.map((h) => h.text)
+      add(block.text, block)
       continue
     }
-
-    for (let j = 0; j < p.length; j += CHUNK_SIZE - CHUNK_OVERLAP) {
-      const segment = p.slice(j, j + CHUNK_SIZE)
-      if (segment.trim().length > 0) {
-        chunks.push({ content: segment.trim(), index: chunkIndex++ })
-      }
+    const pieces = block.type === 'table' ? splitTable(block.text) : splitParagraph(block.text)
+    for (const piece of pieces) {
+      if (hasBody && length + piece.length > CHUNK_SIZE) flush()
+      add(piece, block)
+      hasBody = true
     }
   }
-
-  if (current.trim().length > 0) {
-    chunks.push({ content: current.replace(/\s+/g, ' ').trim(), index: chunkIndex })
-  }
-
+  flush()
   return chunks
 }
 
 /**
- * Full pipeline: extract text and chunk. Returns content + chunks for DB storage.
+ * Chunk plain text (paragraphs separated by blank lines, numbered headings detected).
+ */
+export function chunkText(text: string): DocumentChunk[] {
+  return chunkDocument({ blocks: textBlocks(text, false), pageCount: null })
+}
+
+/**
+ * Full pipeline: extract structure and chunk. Returns content + chunks for DB storage.
  */
 export async function processDocument(
   buffer: Buffer,
   mimeType: string,
   fileName: string,
-  fileSize: number
+  fileSize: number,
+  options: ExtractOptions = {}
 ): Promise<ProcessedDocument> {
-  const contentText = await extractText(buffer, mimeType, fileName)
-  const chunks = chunkText(contentText)
+  const extracted = await extractDocument(buffer, mimeType, fileName, options)
   return {
     name: fileName,
     fileType: mimeType,
     fileSize,
-    contentText,
-    chunks,
+    contentText: documentText(extracted),
+    pageCount: extracted.pageCount,
+    ocrPageCount: extracted.ocrPageCount ?? 0,
+    chunks: chunkDocument(extracted),
   }
 }
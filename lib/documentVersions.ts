@@ -0,0 +1,85 @@
+/**
+ * CDC Agent: document versions. Every document belongs to a version group (version_group_id, the id of
+ * its first version); uploading a file as "new version of" a document adds the next version number to
+ * its group. Only the current version — the highest ready one — is searched by default: older ones get
+ * superseded_at (see supabase/migrations/011). content_hash detects exact re-uploads within a collection.
+ */
+
+import { createHash } from 'crypto'
+import { supabase } from './supabaseClient'
+import type { IngestionStatus } from './documentIngestion'
+
+export interface DocumentVersion {
+  id: string
+  collection_id: string
+  name: string
+  version: number
+  version_group_id: string
+  status: IngestionStatus
+  chunk_count: number
+  uploaded_at: string
+  superseded_at: string | null
+}
+
+const VERSION_COLUMNS = 'id, collection_id, name, version, version_group_id, status, chunk_count, uploaded_at, superseded_at'
+
+/**
+ * SHA-256 of a file's bytes, hex-encoded.
+ */
+export function contentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+// Find a document of the collection with the same file (failed uploads excluded)
+export async function findDuplicateDocument(collectionId: string, hash: string): Promise<DocumentVersion | null> {
+  const { data, error } = await supabase
+    .from('cdc_documents')
+    .select(VERSION_COLUMNS)
+    .eq('collection_id', collectionId)
+    .eq('content_hash', hash)
+    .neq('status', 'failed')
+    .limit(1)
+
+  if (error) {
+    console.error('Error checking duplicate document:', error)
+    return null
+  }
+
+  return (data?.[0] as DocumentVersion | undefined) ?? null
+}
+
+// List the versions of a document's group, newest first
+export async function listDocumentVersions(versionGroupId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from('cdc_documents')
+    .select(VERSION_COLUMNS)
+    .eq('version_group_id', versionGroupId)
+    .order('version', { ascending: false })
+
+  if (error) {
+    console.error('Error listing document versions:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Make the highest ready version of a group the current one and mark the lower versions superseded.
+ * Called when a version becomes ready and after a version is deleted (which may restore the previous one).
+ */
+export async function settleVersionGroup(versionGroupId: string): Promise<void> {
+  const versions = await listDocumentVersions(versionGroupId)
+  const current = versions.find((v) => v.status === 'ready')
+  if (!current) return
+  const now = new Date().toISOString()
+  for (const v of versions) {
+    const superseded = v.version < current.version
+    if (superseded === (v.superseded_at != null)) continue
+    const { error } = await supabase
+      .from('cdc_documents')
+      .update({ superseded_at: superseded ? now : null })
+      .eq('id', v.id)
+    if (error) console.error('Error updating document version:', error)
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * CDC Agent: pluggable text embeddings for vector search over cdc_chunks.
+ * The provider is chosen with CDC_EMBEDDING_PROVIDER ('replicate' or 'local');
+ * the local hashing embedder is deterministic and needs no network, so tests can use it.
+ */
+
+import replicate from './replicate'
+
+/** Must match the vector(...) dimension of cdc_chunks.embedding. */
+export const EMBEDDING_DIMENSIONS = 768
+
+const EMBEDDING_BATCH_SIZE = 32
+
+const DEFAULT_REPLICATE_EMBEDDING_MODEL =
+  'replicate/all-mpnet-base-v2:b6b7585c9640cd7a9572c6e129c9549d79c9c31f0d3fdce7baac7c67ca38f305'
+
+export interface EmbeddingProvider {
+  name: string
+  dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0))
+  if (norm === 0) return vector
+  return vector.map((v) => v / norm)
+}
+
+function hashToken(token: string): number {
+  // FNV-1a, 32 bits
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1)
+}
+
+/**
+ * Deterministic feature-hashing embedder (words + character trigrams).
+ * Weak semantically, but stable across runs and fully offline.
+ */
+export function createHashingEmbedder(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0)
+    for (const token of tokenize(text)) {
+      const features = [token]
+      const padded = `#${token}#`
+      for (let i = 0; i + 3 <= padded.length; i++) features.push(padded.slice(i, i + 3))
+      for (const feature of features) {
+        const h = hashToken(feature)
+        vector[h % dimensions] += (h & 0x80000000) === 0 ? 1 : -1
+      }
+    }
+    return normalize(vector)
+  }
+  return {
+    name: 'local-hashing',
+    dimensions,
+    embed: async (texts) => texts.map(embedOne),
+  }
+}
+
+/**
+ * Embedder backed by a Replicate model taking a JSON `text_batch` and returning `{ embedding }[]`.
+ */
+export function createReplicateEmbedder(
+  model: string = process.env.CDC_EMBEDDING_MODEL || DEFAULT_REPLICATE_EMBEDDING_MODEL,
+  dimensions: number = EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    name: `replicate:${model}`,
+    dimensions,
+    embed: async (texts) => {
+      if (texts.length === 0) return []
+      const output = (await replicate.run(model as `${string}/${string}:${string}`, {
+        input: { text_batch: JSON.stringify(texts) },
+      })) as { embedding: number[] }[]
+      if (!Array.isArray(output) || output.length !== texts.length) {
+        throw new Error(`Embedding model ${model} returned an unexpected output`)
+      }
+      return output.map((row) => {
+        if (row.embedding.length !== dimensions) {
+          throw new Error(`Embedding model ${model} returned ${row.embedding.length} dimensions, expected ${dimensions}`)
+        }
+        return row.embedding
+      })
+    },
+  }
+}
+
+let _provider: EmbeddingProvider | null = null
+
+/**
+ * Return the configured embedding provider (created lazily from env).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!_provider) {
+    _provider =
+      process.env.CDC_EMBEDDING_PROVIDER === 'local' ? createHashingEmbedder() : createReplicateEmbedder()
+  }
+  return _provider
+}
+
+/**
+ * Override the embedding provider (tests, scripts). Pass null to go back to the env default.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  _provider = provider
+}
+
+/**
+ * Embed many texts in batches. Returns one vector per input text, in order.
+ * `onProgress` is called after each batch with the number of texts embedded so far.
+ */
+export async function embedTexts(
+  texts: string[],
+  onProgress?: (done: number, total: number) => void | Promise<void>
+): Promise<number[][]> {
+  const provider = getEmbeddingProvider()
+  const vectors: number[][] = []
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    vectors.push(...(await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE))))
+    await onProgress?.(vectors.length, texts.length)
+  }
+  return vectors
+}
+
+/**
+ * Embed a single search query. Returns null if the provider fails, so callers can fall back to FTS only.
+ */
+export async function embedQuery(query: string): Promise<number[] | null> {
+  try {
+    const [vector] = await getEmbeddingProvider().embed([query])
+    return vector ?? null
+  } catch (err) {
+    console.error('embedQuery error:', err)
+    return null
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { openArchive, archivePart } from './archive'
+
+const limits = { maxPartBytes: 1000, maxTotalBytes: 1500 }
+
+async function zipOf(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip()
+  Object.entries(parts).forEach(([name, text]) => zip.file(name, text))
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+describe('archive size limits', () => {
+  it('reads parts within the limits', async () => {
+    const zip = await openArchive(await zipOf({ 'content.xml': '<text>Bonjour</text>' }), limits)
+    expect(await archivePart(zip, 'content.xml')).toBe('<text>Bonjour</text>')
+    expect(await archivePart(zip, 'missing.xml')).toBeNull()
+  })
+
+  it('rejects an archive declaring a part larger than the limit', async () => {
+    const buffer = await zipOf({ 'content.xml': 'a'.repeat(5000) })
+    await expect(openArchive(buffer, limits)).rejects.toThrow('trop volumineux')
+  })
+
+  it('stops reading once the parts read together pass the limit', async () => {
+    const zip = await openArchive(await zipOf({ 'a.xml': 'a'.repeat(900), 'b.xml': 'b'.repeat(900) }), {
+      maxPartBytes: 1000,
+      maxTotalBytes: 2000,
+    })
+    await archivePart(zip, 'a.xml')
+    await archivePart(zip, 'b.xml')
+    await expect(archivePart(zip, 'a.xml')).rejects.toThrow('trop volumineux')
+  })
+
+  it('counts the bytes actually decompressed when the declared size lies', async () => {
+    const buffer = await zipOf({ 'content.xml': 'a'.repeat(5000) })
+    // Declare 10 bytes in the local header and the central directory
+    for (let i = 0; i < buffer.length - 4; i++) {
+      if (buffer.readUInt32LE(i) === 0x04034b50) buffer.writeUInt32LE(10, i + 22)
+      if (buffer.readUInt32LE(i) === 0x02014b50) buffer.writeUInt32LE(10, i + 24)
+    }
+    const zip = await openArchive(buffer, limits)
+    await expect(archivePart(zip, 'content.xml')).rejects.toThrow('trop volumineux')
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Helpers for zipped XML formats (Office Open XML, OpenDocument): archive parts, relationships and
+ * attributes. XML is read with regular expressions, like the HTML of the other extractors.
+ */
+
+import path from 'path'
+import type JSZip from 'jszip'
+import { decodeEntities } from './blocks'
+
+/** Decompressed size limits of an archive: a small zip can expand to gigabytes (zip bomb) */
+export interface ArchiveLimits {
+  /** Largest part read */
+  maxPartBytes: number
+  /** All the parts read from the archive together */
+  maxTotalBytes: number
+}
+
+const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = { maxPartBytes: 50 * 1024 * 1024, maxTotalBytes: 200 * 1024 * 1024 }
+
+// Limits and bytes read so far, by open archive
+const archiveBudgets = new WeakMap<JSZip, ArchiveLimits & { readBytes: number }>()
+
+const tooLarge = () => new Error('Le fichier est trop volumineux une fois décompressé.')
+
+// Size of an entry from the zip directory (private in JSZip's types); it can lie, so reads are counted too
+function declaredSize(file: JSZip.JSZipObject): number {
+  return (file as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0
+}
+
+/**
+ * Open an archive, rejecting it when the sizes it declares exceed `limits`. Parts are then read with
+ * archivePart, which counts the bytes actually decompressed.
+ */
+export async function openArchive(buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): Promise<JSZip> {
+  const JSZipModule = (await import('jszip')).default
+  let zip: JSZip
+  try {
+    zip = await JSZipModule.loadAsync(buffer)
+  } catch {
+    throw new Error('Le fichier est corrompu ou n’est pas au format attendu.')
+  }
+  const sizes = Object.values(zip.files).map(declaredSize)
+  if (sizes.some((size) => size > limits.maxPartBytes) || sizes.reduce((a, b) => a + b, 0) > limits.maxTotalBytes) {
+    throw tooLarge()
+  }
+  archiveBudgets.set(zip, { ...limits, readBytes: 0 })
+  return zip
+}
+
+/**
+ * Text of an archive part, or null when the part does not exist. Throws when the part, or all the parts
+ * read so far, exceed the archive's limits: the size declared by the archive is checked first, then the
+ * bytes actually decompressed, which stop as soon as the limit is passed.
+ */
+export async function archivePart(zip: JSZip, partPath: string): Promise<string | null> {
+  const file = zip.file(partPath)
+  if (!file) return null
+  const budget = archiveBudgets.get(zip) ?? { ...DEFAULT_ARCHIVE_LIMITS, readBytes: 0 }
+  const limit = Math.min(budget.maxPartBytes, budget.maxTotalBytes - budget.readBytes)
+  if (declaredSize(file) > limit) throw tooLarge()
+
+  const chunks: Buffer[] = []
+  let size = 0
+  await new Promise<void>((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer')
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size <= limit) {
+        chunks.push(chunk)
+        return
+      }
+      stream.removeAllListeners('data')
+      stream.pause()
+      reject(tooLarge())
+    })
+    stream.on('end', () => resolve())
+    stream.on('error', reject)
+  })
+  budget.readBytes += size
+  archiveBudgets.set(zip, budget)
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+/**
+ * Value of an attribute of an XML start tag (entities decoded).
+ */
+export function xmlAttr(tag: string, name: string): string | undefined {
+  const m = tag.match(new RegExp(`\\s${name.replace(/[.:]/g, '\\$&')}="([^"]*)"`))
+  return m ? decodeEntities(m[1]) : undefined
+}
+
+interface Relationship {
+  id: string
+  type: string
+  target: string
+}
+
+function parseRelationships(relsXml: string | null, baseDir: string): Relationship[] {
+  const relationships: Relationship[] = []
+  for (const tag of relsXml?.match(/<Relationship\b[^>]*>/g) || []) {
+    const id = xmlAttr(tag, 'Id')
+    const target = xmlAttr(tag, 'Target')
+    if (!id || !target || xmlAttr(tag, 'TargetMode') === 'External') continue
+    relationships.push({
+      id,
+      type: xmlAttr(tag, 'Type') || '',
+      target: target.startsWith('/') ? target.slice(1) : path.posix.join(baseDir, target),
+    })
+  }
+  return relationships
+}
+
+/**
+ * Relationship id -> archive path, from a .rels part. Relative targets are resolved against `baseDir`.
+ */
+export function readRelationships(relsXml: string | null, baseDir: string): Map<string, string> {
+  return new Map(parseRelationships(relsXml, baseDir).map((r) => [r.id, r.target]))
+}
+
+/**
+ * Archive path of the first relationship of a type (e.g. "notesSlide"), or null.
+ */
+export function relationshipTarget(relsXml: string | null, baseDir: string, type: string): string | null {
+  return parseRelationships(relsXml, baseDir).find((r) => r.type.endsWith(`/${type}`))?.target ?? null
+}
+
+/**
+ * The .rels part describing the relationships of an archive part ("ppt/slides/slide1.xml" ->
+ * "ppt/slides/_rels/slide1.xml.rels").
+ */
+export function relationshipsPart(partPath: string): string {
+  return path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`)
+}
+
+/**
+ * Text of an OpenDocument fragment on one line: spaces (<text:s/>), tabs and line breaks become
+ * spaces, notes are dropped.
+ */
+export function odfText(xml: string): string {
+  const text = xml
+    .replace(/<text:note\b[\s\S]*?<\/text:note>/g, '')
+    .replace(/<text:(?:s|tab|line-break)\b[^>]*\/>/g, ' ')
+    .replace(/<[^>]+>/g, '')
+  return decodeEntities(text).replace(/\s+/g, ' ').trim()
+}
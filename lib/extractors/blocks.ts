@@ -0,0 +1,167 @@
+/**
+ * Helpers shared by the extractors: heading heuristics, HTML and plain text to blocks.
+ */
+
+import type { OcrPage } from '../ocr'
+import type { DocumentBlock } from './types'
+
+/** Headings longer than this are treated as text */
+export const MAX_HEADING_CHARS = 150
+
+export const collapse = (s: string) => s.replace(/\s+/g, ' ').trim()
+
+// "3.2 Titre", "3.2. Titre", "IV. Titre" -> numbering depth, else 0
+function numberingDepth(line: string): number {
+  const m = line.match(/^(\d+(?:\.\d+)*)\.?\s+\S/)
+  if (m) return m[1].split('.').length
+  return /^[IVXLC]+\.\s+\S/.test(line) ? 1 : 0
+}
+
+// Short line without sentence punctuation, numbered or in capitals: a heading in plain text
+export function looksLikeHeading(line: string): number {
+  if (line.length > 80 || /[.,;:!?]$/.test(line)) return 0
+  const depth = numberingDepth(line)
+  if (depth > 0 && /^[^a-zà-ÿ]*[A-ZÀ-Ý]/.test(line.replace(/^[\dIVXLC.]+\s+/, ''))) return depth
+  const letters = line.replace(/[^A-Za-zÀ-ÿ]/g, '')
+  return letters.length >= 4 && letters === letters.toUpperCase() ? 1 : 0
+}
+
+/**
+ * A table block from rows of cells; empty rows are dropped.
+ */
+export function tableBlock(rows: string[][], page: number | null): DocumentBlock | null {
+  const kept = rows.filter((cells) => cells.some(Boolean))
+  if (kept.length === 0) return null
+  return { type: 'table', text: kept.map((r) => r.join(' | ')).join('\n'), page }
+}
+
+// ---------------------------------------------------------------------------
+// HTML (and XML text)
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', lt: '<', gt: '>', quot: '"', apos: "'", amp: '&',
+  eacute: 'é', egrave: 'è', ecirc: 'ê', euml: 'ë', agrave: 'à', acirc: 'â', ccedil: 'ç', icirc: 'î', iuml: 'ï',
+  ocirc: 'ô', ouml: 'ö', ugrave: 'ù', ucirc: 'û', uuml: 'ü', Eacute: 'É', Egrave: 'È', Agrave: 'À', Ccedil: 'Ç',
+  oelig: 'œ', OElig: 'Œ', euro: '€', laquo: '«', raquo: '»', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', ndash: '–', mdash: '—', deg: '°', copy: '©', reg: '®', middot: '·', bull: '•', times: '×',
+}
+
+/**
+ * Decode HTML/XML character references (numeric and the usual named ones).
+ */
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[ref] ?? match
+  })
+}
+
+export function htmlText(html: string): string {
+  return collapse(decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' ')))
+}
+
+/**
+ * Headings (h1-h6), paragraphs, list items, quotes and tables of an HTML fragment, in document order.
+ */
+export function htmlBlocks(html: string, page: number | null = null): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  const re = /<(h[1-6]|p|li|table|blockquote|pre|dd|dt|figcaption)\b[^>]*>([\s\S]*?)<\/\1>/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(html)) !== null) {
+    const tag = m[1].toLowerCase()
+    const inner = m[2]
+    if (tag === 'table') {
+      const rows = (inner.match(/<tr\b[^>]*>[\s\S]*?<\/tr>/gi) || []).map((row) =>
+        (row.match(/<t[dh]\b[^>]*>[\s\S]*?<\/t[dh]>/gi) || []).map(htmlText)
+      )
+      const table = tableBlock(rows, page)
+      if (table) blocks.push(table)
+      continue
+    }
+    const text = htmlText(inner)
+    if (!text) continue
+    if (/^h[1-6]$/.test(tag) && text.length <= MAX_HEADING_CHARS) {
+      blocks.push({ type: 'heading', text, page, level: parseInt(tag.slice(1), 10) })
+    } else {
+      blocks.push({ type: 'paragraph', text: tag === 'li' ? `- ${text}` : text, page })
+    }
+  }
+  return blocks
+}
+
+// ---------------------------------------------------------------------------
+// Plain text and Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Blocks of plain text or Markdown: pages split on form feeds, paragraphs on blank lines, Markdown
+ * headings (#) and tables (| a | b |), numbered or capitalised one-line headings.
+ */
+export function textBlocks(text: string, markdown: boolean): DocumentBlock[] {
+  const pages = text.replace(/\r\n/g, '\n').split('\f')
+  const paged = pages.length > 1
+  const blocks: DocumentBlock[] = []
+  pages.forEach((pageText, p) => {
+    const page = paged ? p + 1 : null
+    let paragraph: string[] = []
+    let table: string[] = []
+    const flush = () => {
+      if (table.length > 0) {
+        const rows = table
+          .filter((row) => !/^\|?[\s:|-]+\|?$/.test(row))
+          .map((row) => row.replace(/^\||\|$/g, '').split('|').map((c) => c.trim()).join(' | '))
+        blocks.push({ type: 'table', text: rows.join('\n'), page })
+        table = []
+      }
+      if (paragraph.length > 0) {
+        const joined = collapse(paragraph.join(' '))
+        const level = paragraph.length === 1 ? looksLikeHeading(joined) : 0
+        blocks.push(level > 0 ? { type: 'heading', text: joined, page, level } : { type: 'paragraph', text: joined, page })
+        paragraph = []
+      }
+    }
+    for (const raw of pageText.split('\n')) {
+      const line = raw.trim()
+      const heading = markdown ? line.match(/^(#{1,6})\s+(.+?)\s*#*$/) : null
+      if (!line) {
+        flush()
+      } else if (heading) {
+        flush()
+        blocks.push({ type: 'heading', text: heading[2], page, level: heading[1].length })
+      } else if (markdown && line.startsWith('|')) {
+        if (paragraph.length > 0) flush()
+        table.push(line)
+      } else {
+        if (table.length > 0) flush()
+        paragraph.push(line)
+      }
+    }
+    flush()
+  })
+  return blocks
+}
+
+// ---------------------------------------------------------------------------
+// OCR: paragraphs of scanned pages; a one-line paragraph set larger than the page's text is a heading
+// ---------------------------------------------------------------------------
+
+// Surfaced as the ingestion error of the document
+export const OCR_UNAVAILABLE = 'La reconnaissance de texte (OCR) n’est pas disponible sur ce serveur'
+
+export function ocrBlocks(page: OcrPage, pageNumber: number | null): DocumentBlock[] {
+  const heights = page.paragraphs.filter((p) => p.lines > 1).map((p) => p.lineHeight).sort((a, b) => a - b)
+  const bodyHeight = heights[Math.floor(heights.length / 2)] ?? 0
+  return page.paragraphs.map((p): DocumentBlock => {
+    const text = collapse(p.text.replace(/([a-zà-ÿ])-\n(?=[a-zà-ÿ])/g, '$1'))
+    const level = looksLikeHeading(text)
+    const larger = bodyHeight > 0 && p.lineHeight >= bodyHeight * 1.3
+    if (p.lines === 1 && text.length <= MAX_HEADING_CHARS && (level > 0 || larger)) {
+      return { type: 'heading', text, page: pageNumber, level: level || 1, ocrConfidence: page.confidence }
+    }
+    return { type: 'paragraph', text, page: pageNumber, ocrConfidence: page.confidence }
+  })
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, csvExtractor } from './csvExtractor'
+
+describe('parseCsv', () => {
+  it('keeps a line break inside a quoted cell in that cell', () => {
+    const text = 'Projet;Description;Montant\r\n"Logement";"Rénovation\r\nde 200 logements; phase 1";1200\r\nÉcoles;"Dit ""prioritaire""";300\r\n'
+
+    expect(parseCsv(text)).toEqual([
+      ['Projet', 'Description', 'Montant'],
+      ['Logement', 'Rénovation\nde 200 logements; phase 1', '1200'],
+      ['Écoles', 'Dit "prioritaire"', '300'],
+    ])
+  })
+
+  it('guesses the separator from the header row and skips blank lines', () => {
+    const text = '\uFEFFville,"population; 2024"\n\nLyon,522000\n  \nLille,236000'
+
+    expect(parseCsv(text)).toEqual([
+      ['ville', 'population; 2024'],
+      ['Lyon', '522000'],
+      ['Lille', '236000'],
+    ])
+  })
+
+  it('keeps a quote inside an unquoted cell as text', () => {
+    expect(parseCsv('Écran;Prix\nDalle 27";300\nClavier;50')).toEqual([
+      ['Écran', 'Prix'],
+      ['Dalle 27"', '300'],
+      ['Clavier', '50'],
+    ])
+  })
+})
+
+describe('csvExtractor', () => {
+  it('writes one table row per CSV row, even with multi-line cells', async () => {
+    const { blocks } = await csvExtractor.extract(Buffer.from('Projet;Description\nLogement;"Rénovation\nde 200 logements"'), {})
+
+    expect(blocks).toEqual([{ type: 'table', text: 'Projet | Description\nLogement | Rénovation de 200 logements', page: null }])
+  })
+})
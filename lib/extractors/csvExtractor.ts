@@ -0,0 +1,76 @@
+/**
+ * CSV files: one table, separator (";" or ",") guessed from the header row, quoted cells supported
+ * (including separators, doubled quotes and line breaks inside the quotes).
+ */
+
+import type { DocumentExtractor } from './types'
+import { collapse } from './blocks'
+
+// Separator used most in the header row, counted outside quoted cells
+function detectSeparator(text: string): string {
+  let semicolons = 0
+  let commas = 0
+  let quoted = false
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted
+    else if (quoted) continue
+    else if (ch === '\n') break
+    else if (ch === ';') semicolons++
+    else if (ch === ',') commas++
+  }
+  return semicolons > commas ? ';' : ','
+}
+
+/**
+ * Rows of cells of a CSV text (blank lines skipped). Parsed character by character, so a line break
+ * inside a quoted cell stays in the cell instead of starting a new row.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const separator = detectSeparator(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(cell.trim())
+    if (row.some((c) => c)) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch !== '"') cell += ch
+      else if (input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else quoted = false
+    } else if (ch === '"' && !cell.trim()) quoted = true
+    else if (ch === separator) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (ch === '\n') endRow()
+    else cell += ch
+  }
+  endRow()
+  return rows
+}
+
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+  mimeTypes: ['text/csv'],
+  extensions: ['.csv'],
+  async extract(buffer) {
+    const rows = parseCsv(buffer.toString('utf-8'))
+    return {
+      blocks:
+        rows.length > 0
+          ? [{ type: 'table', text: rows.map((r) => r.map(collapse).join(' | ')).join('\n'), page: null }]
+          : [],
+      pageCount: null,
+    }
+  },
+}
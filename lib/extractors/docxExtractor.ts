@@ -0,0 +1,21 @@
+/**
+ * Word documents: mammoth's HTML keeps Word heading styles (h1-h6), lists and tables; there are no pages.
+ */
+
+import { openArchive } from './archive'
+import { htmlBlocks } from './blocks'
+import type { DocumentExtractor } from './types'
+
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  async extract(buffer) {
+    // mammoth unzips on its own: reject archives declaring oversized parts first
+    await openArchive(buffer)
+    const mammoth = await import('mammoth')
+    // The Node build of mammoth reads { buffer }; { arrayBuffer } is browser-only
+    const result = await mammoth.convertToHtml({ buffer })
+    return { blocks: htmlBlocks(result.value || ''), pageCount: null }
+  },
+}
@@ -0,0 +1,188 @@
+/**
+ * Emails (EML) and mailbox archives (MBOX): one section per message, headed by its subject, with
+ * sender, recipients and date, the body (plain text preferred over HTML, quoted replies and signature
+ * removed) and the names of the attachments.
+ */
+
+import { htmlPageBlocks } from './htmlExtractor'
+import { textBlocks } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+interface MimePart {
+  headers: Map<string, string>
+  /** Raw body, one character per byte (latin1) */
+  body: string
+}
+
+interface EmailMessage {
+  subject: string
+  from: string
+  to: string
+  date: string
+  text: string | null
+  html: string | null
+  attachments: string[]
+}
+
+function decodeBytes(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return bytes.toString('utf-8')
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes = text.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  return Buffer.from(bytes, 'latin1')
+}
+
+// RFC 2047 encoded words ("=?UTF-8?B?...?="); headers sent as raw UTF-8 are decoded too
+function decodeHeader(value: string): string {
+  const raw = decodeBytes(Buffer.from(value, 'latin1'), 'utf-8')
+  return raw
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      decodeBytes(
+        encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64') : decodeQuotedPrintable(text.replace(/_/g, ' ')),
+        charset
+      )
+    )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function parsePart(raw: string): MimePart {
+  const split = raw.search(/\r?\n\r?\n/)
+  const head = split >= 0 ? raw.slice(0, split) : raw
+  const body = split >= 0 ? raw.slice(split).replace(/^\r?\n\r?\n/, '') : ''
+  const headers = new Map<string, string>()
+  // Continuation lines start with whitespace
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+  }
+  return { headers, body }
+}
+
+// "text/plain; charset=utf-8" -> { type: 'text/plain', params: { charset: 'utf-8' } }
+function headerParams(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || '').split(';')
+  const params: Record<string, string> = {}
+  for (const param of rest) {
+    const eq = param.indexOf('=')
+    if (eq <= 0) continue
+    const value = param.slice(eq + 1).trim().replace(/^"|"$/g, '')
+    // RFC 2231 "filename*=utf-8''Rapport%20annuel.pdf": bytes kept one character each, like raw headers
+    const extended = value.match(/^[\w-]*'[\w-]*'(.*)$/)
+    params[param.slice(0, eq).trim().toLowerCase().replace(/\*$/, '')] = extended
+      ? extended[1].replace(/%([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+      : value
+  }
+  return { type: type.trim().toLowerCase(), params }
+}
+
+function partText(part: MimePart, charset: string | undefined): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase()
+  const bytes =
+    encoding === 'base64'
+      ? Buffer.from(part.body.replace(/\s+/g, ''), 'base64')
+      : encoding === 'quoted-printable'
+        ? decodeQuotedPrintable(part.body)
+        : Buffer.from(part.body, 'latin1')
+  return decodeBytes(bytes, charset)
+}
+
+// Walk the MIME tree: first text/plain and text/html bodies, attachment names
+function collectParts(part: MimePart, message: EmailMessage): void {
+  const { type, params } = headerParams(part.headers.get('content-type') || 'text/plain')
+  const disposition = headerParams(part.headers.get('content-disposition'))
+  const fileName = disposition.params.filename || params.name
+  if (disposition.type === 'attachment' || (fileName && !type.startsWith('multipart/'))) {
+    if (fileName) message.attachments.push(decodeHeader(fileName))
+    return
+  }
+  if (type.startsWith('multipart/') && params.boundary) {
+    const boundary = params.boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const sections = part.body.split(new RegExp(`^--${boundary}(?:--)?[ \\t]*\\r?$`, 'm'))
+    for (const section of sections.slice(1, -1)) collectParts(parsePart(section.replace(/^\r?\n/, '')), message)
+    return
+  }
+  if (type === 'message/rfc822') {
+    // Forwarded message: its body is part of this one
+    collectParts(parsePart(part.body), message)
+    return
+  }
+  if (type === 'text/plain' && message.text == null) message.text = partText(part, params.charset)
+  else if (type === 'text/html' && message.html == null) message.html = partText(part, params.charset)
+}
+
+function parseMessage(raw: string): EmailMessage {
+  const root = parsePart(raw)
+  const message: EmailMessage = {
+    subject: decodeHeader(root.headers.get('subject') || ''),
+    from: decodeHeader(root.headers.get('from') || ''),
+    to: decodeHeader(root.headers.get('to') || ''),
+    date: decodeHeader(root.headers.get('date') || ''),
+    text: null,
+    html: null,
+    attachments: [],
+  }
+  collectParts(root, message)
+  return message
+}
+
+// Drop quoted replies ("> ...", with their "X a écrit :" line) and the signature ("-- ")
+function stripReplies(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const signature = lines.findIndex((l) => l === '-- ' || l === '--')
+  const kept = (signature >= 0 ? lines.slice(0, signature) : lines).filter((l) => !l.startsWith('>'))
+  return kept.filter((l, i) => !(/(a écrit|wrote)\s*:\s*$/.test(l) && !kept.slice(i + 1).some((next) => next.trim()))).join('\n')
+}
+
+function messageBlocks(message: EmailMessage): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [{ type: 'heading', text: message.subject || '(sans objet)', page: null, level: 1 }]
+  const meta = [
+    message.from && `De : ${message.from}`,
+    message.to && `À : ${message.to}`,
+    message.date && `Date : ${message.date}`,
+  ].filter(Boolean)
+  if (meta.length > 0) blocks.push({ type: 'paragraph', text: meta.join(' — '), page: null })
+  const body = message.text?.trim()
+    ? textBlocks(stripReplies(message.text), false)
+    : message.html
+      ? htmlPageBlocks(message.html)
+      : []
+  // Headings of the body sit under the subject
+  blocks.push(...body.map((b) => (b.type === 'heading' ? { ...b, level: (b.level ?? 1) + 1 } : b)))
+  if (message.attachments.length > 0) {
+    blocks.push({ type: 'paragraph', text: `Pièces jointes : ${message.attachments.join(', ')}`, page: null })
+  }
+  return blocks
+}
+
+export const emlExtractor: DocumentExtractor = {
+  name: 'eml',
+  mimeTypes: ['message/rfc822'],
+  extensions: ['.eml'],
+  async extract(buffer) {
+    return { blocks: messageBlocks(parseMessage(buffer.toString('latin1'))), pageCount: null }
+  },
+}
+
+export const mboxExtractor: DocumentExtractor = {
+  name: 'mbox',
+  mimeTypes: ['application/mbox'],
+  extensions: ['.mbox', '.mbx'],
+  async extract(buffer) {
+    // Messages start with a "From " line; body lines starting with "From " were escaped as ">From "
+    const messages = buffer
+      .toString('latin1')
+      .split(/(?:^|\r?\n)From [^\n]*\n/)
+      .filter((raw) => raw.trim())
+      .map((raw) => parseMessage(raw.replace(/^>(>*From )/gm, '$1')))
+    return { blocks: messages.flatMap(messageBlocks), pageCount: null }
+  },
+}
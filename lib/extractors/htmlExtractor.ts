@@ -0,0 +1,65 @@
+/**
+ * Saved web pages: the main content (<main> or <article> when the page has them) without scripts,
+ * styles, navigation, headers, footers, sidebars and forms. The page title heads the document when it
+ * has no <h1>.
+ */
+
+import { htmlBlocks, htmlText, textBlocks } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+/** Elements dropped with their content */
+const SCRIPT_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe']
+const NAVIGATION_TAGS = ['nav', 'aside', 'form', 'button', 'select']
+/** Dropped too when the page has no <main>/<article> (inside one, they hold its title and byline) */
+const PAGE_FRAME_TAGS = ['header', 'footer']
+
+function dropElements(html: string, tags: string[]): string {
+  return tags.reduce((out, tag) => out.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' '), html)
+}
+
+// Charset from a BOM or a <meta> tag, else UTF-8
+function decodeHtml(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return buffer.toString('utf-8', 3)
+  const head = buffer.subarray(0, 2048).toString('latin1')
+  const charset = head.match(/<meta\b[^>]*charset=["']?([\w-]+)/i)?.[1]
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(buffer)
+  } catch {
+    return buffer.toString('utf-8')
+  }
+}
+
+/**
+ * Blocks of an HTML page with its boilerplate removed.
+ */
+export function htmlPageBlocks(html: string): DocumentBlock[] {
+  const title = htmlText(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '')
+  const page = dropElements(html.replace(/<!--[\s\S]*?-->/g, '').replace(/<head\b[\s\S]*?<\/head>/i, ''), SCRIPT_TAGS)
+  const main =
+    page.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ?? page.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi)?.join('\n')
+  const content = main ? dropElements(main, NAVIGATION_TAGS) : dropElements(page, [...NAVIGATION_TAGS, ...PAGE_FRAME_TAGS])
+
+  let blocks = htmlBlocks(content)
+  if (blocks.length === 0) {
+    // Text laid out in <div>s only: one line per block element
+    const text = content
+      .replace(/<\/?(div|section|br|tr|h[1-6])\b[^>]*>/gi, '\n\n')
+      .split(/\n{2,}/)
+      .map(htmlText)
+      .join('\n\n')
+    blocks = textBlocks(text, false)
+  }
+  if (title && !blocks.some((b) => b.type === 'heading' && b.level === 1)) {
+    blocks.unshift({ type: 'heading', text: title, page: null, level: 1 })
+  }
+  return blocks
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  async extract(buffer) {
+    return { blocks: htmlPageBlocks(decodeHtml(buffer)), pageCount: null }
+  },
+}
@@ -0,0 +1,18 @@
+/**
+ * Scanned images, read by OCR.
+ */
+
+import { ocrImage } from '../ocr'
+import { ocrBlocks, OCR_UNAVAILABLE } from './blocks'
+import type { DocumentExtractor } from './types'
+
+export const imageExtractor: DocumentExtractor = {
+  name: 'image',
+  mimeTypes: ['image/png', 'image/jpeg', 'image/tiff'],
+  extensions: ['.png', '.jpg', '.jpeg', '.tif', '.tiff'],
+  async extract(buffer) {
+    const page = await ocrImage(buffer)
+    if (!page) throw new Error(`${OCR_UNAVAILABLE}.`)
+    return { blocks: ocrBlocks(page, null), pageCount: null, ocrPageCount: 1 }
+  },
+}
@@ -0,0 +1,65 @@
+/**
+ * Document extractors, one per family of formats, looked up by file extension, then MIME type
+ * ("text/*" entries last). Extractors registered later take precedence over the built-in ones.
+ */
+
+import { csvExtractor } from './csvExtractor'
+import { docxExtractor } from './docxExtractor'
+import { emlExtractor, mboxExtractor } from './emailExtractor'
+import { htmlExtractor } from './htmlExtractor'
+import { imageExtractor } from './imageExtractor'
+import { odtExtractor } from './odtExtractor'
+import { pdfExtractor } from './pdfExtractor'
+import { pptxExtractor } from './presentationExtractor'
+import { odsExtractor, xlsxExtractor } from './spreadsheetExtractor'
+import { markdownExtractor, textExtractor } from './textExtractor'
+import type { DocumentExtractor } from './types'
+
+export * from './types'
+export { textBlocks } from './blocks'
+export { parseCsv } from './csvExtractor'
+export { readSheets, sheetTables, type Sheet, type SheetRow, type SheetTable } from './spreadsheetExtractor'
+
+const _extractors: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  odtExtractor,
+  xlsxExtractor,
+  odsExtractor,
+  pptxExtractor,
+  htmlExtractor,
+  emlExtractor,
+  mboxExtractor,
+  csvExtractor,
+  markdownExtractor,
+  textExtractor,
+  imageExtractor,
+]
+
+/**
+ * Add an extractor (or replace a built-in one for the formats it lists).
+ */
+export function registerDocumentExtractor(extractor: DocumentExtractor): void {
+  _extractors.unshift(extractor)
+}
+
+/**
+ * Extractor for a file, or null when its format is not supported.
+ */
+export function findDocumentExtractor(mimeType: string, fileName: string): DocumentExtractor | null {
+  const lower = fileName.toLowerCase()
+  const type = mimeType.toLowerCase().split(';')[0].trim()
+  return (
+    _extractors.find((e) => e.extensions.some((ext) => lower.endsWith(ext))) ??
+    _extractors.find((e) => e.mimeTypes.includes(type)) ??
+    _extractors.find((e) => e.mimeTypes.some((m) => m.endsWith('/*') && type.startsWith(m.slice(0, -1)))) ??
+    null
+  )
+}
+
+/**
+ * File extensions of all supported formats (e.g. for a file picker).
+ */
+export function supportedDocumentExtensions(): string[] {
+  return Array.from(new Set(_extractors.flatMap((e) => e.extensions)))
+}
@@ -0,0 +1,47 @@
+/**
+ * OpenDocument text (ODT): headings with their outline level, paragraphs, list items and tables.
+ * There are no pages.
+ */
+
+import { archivePart, odfText, openArchive, xmlAttr } from './archive'
+import { MAX_HEADING_CHARS, tableBlock } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+export const odtExtractor: DocumentExtractor = {
+  name: 'odt',
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+  extensions: ['.odt'],
+  async extract(buffer) {
+    const zip = await openArchive(buffer)
+    const content = await archivePart(zip, 'content.xml')
+    if (!content) throw new Error('Document OpenDocument illisible (content.xml manquant).')
+    // Footnotes and comments hold paragraphs of their own, which would break the one they sit in
+    const body = (content.match(/<office:text\b[^>]*>([\s\S]*)<\/office:text>/)?.[1] || '')
+      .replace(/<text:note\b[\s\S]*?<\/text:note>|<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+
+    const blocks: DocumentBlock[] = []
+    // Self-closing (empty) paragraphs are skipped by requiring the start tag not to end with "/>"
+    const re =
+      /(<text:h(?=[\s>])(?:[^>]*[^/>])?>)([\s\S]*?)<\/text:h>|<text:p(?=[\s>])(?:[^>]*[^/>])?>([\s\S]*?)<\/text:p>|<table:table(?=[\s>])[^>]*>([\s\S]*?)<\/table:table>/g
+    let m: RegExpExecArray | null
+    while ((m = re.exec(body)) !== null) {
+      const [, headingTag, headingXml, paragraphXml, tableXml] = m
+      if (tableXml != null) {
+        const rows = (tableXml.match(/<table:table-row\b[\s\S]*?<\/table:table-row>/g) || []).map((row) =>
+          (row.match(/<table:table-cell\b[^>]*?(?:\/>|>[\s\S]*?<\/table:table-cell>)/g) || []).map(odfText)
+        )
+        const table = tableBlock(rows, null)
+        if (table) blocks.push(table)
+        continue
+      }
+      const text = odfText(headingXml ?? paragraphXml)
+      if (!text) continue
+      if (headingTag && text.length <= MAX_HEADING_CHARS) {
+        blocks.push({ type: 'heading', text, page: null, level: Number(xmlAttr(headingTag, 'text:outline-level')) || 1 })
+      } else {
+        blocks.push({ type: 'paragraph', text, page: null })
+      }
+    }
+    return { blocks, pageCount: null }
+  },
+}
@@ -0,0 +1,173 @@
+/**
+ * PDF extractor: lines from pdf.js text items; headings from font size, tables from column gaps.
+ * Pages without a text layer (scans) are read by OCR.
+ */
+
+import { ocrPdfPages } from '../ocr'
+import { collapse, looksLikeHeading, MAX_HEADING_CHARS, ocrBlocks, OCR_UNAVAILABLE, textBlocks } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+/** A page with fewer text-layer characters than this is treated as scanned */
+const MIN_PAGE_TEXT_CHARS = 20
+
+interface PdfLine {
+  page: number
+  y: number
+  size: number
+  cells: string[]
+}
+
+interface PdfTextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+}
+
+async function readPdfLines(
+  buffer: Buffer
+): Promise<{ lines: PdfLine[]; pageCount: number; rawText: string; pageChars: number[] }> {
+  const pdfParse = (await import('pdf-parse/lib/pdf-parse.js')).default
+  const lines: PdfLine[] = []
+  // Text-layer characters per page (index = page - 1), to spot scanned pages
+  const pageChars: number[] = []
+  let pageNumber = 0
+  const data = await pdfParse(buffer, {
+    pagerender: async (pageData: { getTextContent: (options: object) => Promise<{ items: PdfTextItem[] }> }) => {
+      const page = ++pageNumber
+      const { items } = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+      let current: (PdfLine & { end: number }) | null = null
+      const texts: string[] = []
+      for (const item of items) {
+        if (!item.str) continue
+        const [, , c, d, x, y] = item.transform
+        const size = Math.round(Math.hypot(c, d) * 10) / 10 || item.height
+        if (!current || Math.abs(current.y - y) > Math.max(2, size * 0.3)) {
+          current = { page, y, size, cells: [item.str], end: x + item.width }
+          lines.push(current)
+        } else {
+          // A gap wider than ~2 characters separates table cells
+          if (x - current.end > size * 1.5) current.cells.push(item.str)
+          else current.cells[current.cells.length - 1] += (x - current.end > size * 0.15 ? ' ' : '') + item.str
+          current.size = Math.max(current.size, size)
+          current.end = x + item.width
+        }
+        texts.push(item.str)
+      }
+      pageChars[page - 1] = texts.join('').replace(/\s+/g, '').length
+      return texts.join(' ')
+    },
+  })
+  for (const line of lines) line.cells = line.cells.map(collapse).filter(Boolean)
+  return {
+    lines: lines.filter((l) => l.cells.length > 0),
+    pageCount: data.numpages,
+    rawText: data.text || '',
+    pageChars: Array.from({ length: data.numpages }, (_, i) => pageChars[i] ?? 0),
+  }
+}
+
+function pdfBlocks(lines: PdfLine[], pageCount: number): DocumentBlock[] {
+  // Body text size: the size carrying the most characters
+  const weights = new Map<number, number>()
+  for (const l of lines) weights.set(l.size, (weights.get(l.size) ?? 0) + l.cells.join(' ').length)
+  const bodySize = Array.from(weights.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 10
+  const headingSizes = Array.from(weights.keys())
+    .filter((s) => s >= bodySize * 1.15)
+    .sort((a, b) => b - a)
+
+  // Running headers and footers: the same line on most pages, and bare page numbers
+  const perPage = new Map<string, Set<number>>()
+  for (const l of lines) {
+    const key = l.cells.join(' ').replace(/\d+/g, '#')
+    if (!perPage.has(key)) perPage.set(key, new Set())
+    perPage.get(key)!.add(l.page)
+  }
+  const isFurniture = (l: PdfLine) => {
+    const text = l.cells.join(' ')
+    if (/^(page\s*)?\d+(\s*(\/|sur)\s*\d+)?$/i.test(text)) return true
+    return pageCount >= 3 && perPage.get(text.replace(/\d+/g, '#'))!.size >= Math.max(3, pageCount * 0.6)
+  }
+
+  const blocks: DocumentBlock[] = []
+  let paragraph: string[] = []
+  let paragraphPage = 1
+  let table: string[][] = []
+  let tablePage = 1
+  let previous: PdfLine | null = null
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: collapse(paragraph.join(' ')), page: paragraphPage })
+    paragraph = []
+  }
+  const flushTable = () => {
+    if (table.length >= 2) blocks.push({ type: 'table', text: table.map((r) => r.join(' | ')).join('\n'), page: tablePage })
+    else if (table.length === 1) paragraph.push(table[0].join(' '))
+    table = []
+  }
+
+  for (const line of lines) {
+    if (isFurniture(line)) continue
+    const text = line.cells.join(' ')
+    const gap = previous && previous.page === line.page ? previous.y - line.y : Infinity
+    const newBlock = gap > Math.max(previous?.size ?? 0, line.size) * 1.6 || gap < 0
+
+    const sizeRank = headingSizes.indexOf(line.size)
+    const numbered = newBlock && line.size >= bodySize && looksLikeHeading(text) > 0
+    if ((sizeRank >= 0 || numbered) && text.length <= MAX_HEADING_CHARS && line.cells.length === 1) {
+      flushTable()
+      flushParagraph()
+      const last = blocks[blocks.length - 1]
+      // A heading wrapped over two lines
+      if (last?.type === 'heading' && !newBlock && previous?.size === line.size) last.text += ` ${text}`
+      else blocks.push({ type: 'heading', text, page: line.page, level: sizeRank >= 0 ? sizeRank + 1 : looksLikeHeading(text) })
+    } else if (line.cells.length >= 3 || (line.cells.length === 2 && table.length > 0)) {
+      if (table.length === 0) {
+        flushParagraph()
+        tablePage = line.page
+      }
+      table.push(line.cells)
+    } else {
+      flushTable()
+      if (newBlock || line.page !== paragraphPage) flushParagraph()
+      if (paragraph.length === 0) paragraphPage = line.page
+      // Rejoin words hyphenated at the end of a line
+      const lastIndex = paragraph.length - 1
+      if (lastIndex >= 0 && /[a-zà-ÿ]-$/.test(paragraph[lastIndex]) && /^[a-zà-ÿ]/.test(text)) {
+        paragraph[lastIndex] = paragraph[lastIndex].slice(0, -1) + text
+      } else {
+        paragraph.push(text)
+      }
+    }
+    previous = line
+  }
+  flushTable()
+  flushParagraph()
+  return blocks
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  async extract(buffer, options) {
+    const { lines, pageCount, rawText, pageChars } = await readPdfLines(buffer)
+    const blocks = pdfBlocks(lines, pageCount)
+    const scanned = pageChars.flatMap((chars, i) => (chars < MIN_PAGE_TEXT_CHARS ? [i + 1] : []))
+    if (scanned.length === 0) {
+      if (blocks.length === 0 && rawText.trim()) return { blocks: textBlocks(rawText, false), pageCount }
+      return { blocks, pageCount }
+    }
+
+    const ocr = await ocrPdfPages(buffer, scanned, options.onOcrProgress)
+    if (!ocr) {
+      if (blocks.length === 0 && !rawText.trim()) throw new Error(`${OCR_UNAVAILABLE} : ce PDF ne contient pas de texte.`)
+      return { blocks, pageCount }
+    }
+    // OCR text replaces whatever little text layer a scanned page had (stamps, page numbers)
+    const merged = [
+      ...blocks.filter((b) => b.page == null || !ocr.has(b.page)),
+      ...Array.from(ocr.entries()).flatMap(([page, result]) => ocrBlocks(result, page)),
+    ].sort((a, b) => (a.page ?? 0) - (b.page ?? 0))
+    return { blocks: merged, pageCount, ocrPageCount: ocr.size }
+  },
+}
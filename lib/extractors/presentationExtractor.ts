@@ -0,0 +1,101 @@
+/**
+ * Slide decks (PPTX): one section per slide, headed by its title, with the text of its shapes and
+ * tables, then the speaker notes. A block's page is its slide number; hidden slides are skipped.
+ */
+
+import path from 'path'
+import { archivePart, openArchive, readRelationships, relationshipsPart, relationshipTarget, xmlAttr } from './archive'
+import { collapse, decodeEntities, MAX_HEADING_CHARS, tableBlock } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+/** Placeholders repeated on every slide (date, footer, slide number) */
+const FURNITURE_PLACEHOLDERS = ['dt', 'ftr', 'sldNum', 'hdr']
+
+// Text of a DrawingML paragraph (<a:p>): runs joined, line breaks as spaces
+function paragraphText(xml: string): string {
+  return collapse(
+    decodeEntities(
+      (xml.replace(/<a:br\b[^>]*\/>/g, '<a:t> </a:t>').match(/<a:t>[\s\S]*?<\/a:t>|<a:t\/>/g) || [])
+        .map((t) => t.replace(/<[^>]+>/g, ''))
+        .join('')
+    )
+  )
+}
+
+function shapeParagraphs(shapeXml: string): string[] {
+  return (shapeXml.match(/<a:p(?=[\s>])[\s\S]*?<\/a:p>/g) || []).map(paragraphText).filter(Boolean)
+}
+
+function placeholderType(shapeXml: string): string | null {
+  const ph = shapeXml.match(/<p:ph\b[^>]*>/)?.[0]
+  if (!ph) return null
+  return xmlAttr(ph, 'type') || 'body'
+}
+
+function slideBlocks(slideXml: string, slide: number, notesXml: string | null): DocumentBlock[] {
+  let title: string | null = null
+  const body: DocumentBlock[] = []
+  // Shapes and tables in drawing order (shapes nested in groups included)
+  const re = /<p:sp(?=[\s>])[\s\S]*?<\/p:sp>|<a:tbl(?=[\s>])[\s\S]*?<\/a:tbl>/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(slideXml)) !== null) {
+    const xml = m[0]
+    if (xml.startsWith('<a:tbl')) {
+      const rows = (xml.match(/<a:tr\b[\s\S]*?<\/a:tr>/g) || []).map((row) =>
+        (row.match(/<a:tc\b[\s\S]*?<\/a:tc>/g) || []).map((cell) => shapeParagraphs(cell).join(' '))
+      )
+      const table = tableBlock(rows, slide)
+      if (table) body.push(table)
+      continue
+    }
+    const type = placeholderType(xml)
+    if (type && FURNITURE_PLACEHOLDERS.includes(type)) continue
+    const paragraphs = shapeParagraphs(xml)
+    if (paragraphs.length === 0) continue
+    if ((type === 'title' || type === 'ctrTitle') && !title) {
+      title = paragraphs.join(' ')
+      continue
+    }
+    for (const text of paragraphs) {
+      body.push({ type: 'paragraph', text: paragraphs.length > 1 ? `- ${text}` : text, page: slide })
+    }
+  }
+
+  const notes = notesXml
+    ? (notesXml.match(/<p:sp(?=[\s>])[\s\S]*?<\/p:sp>/g) || [])
+        .filter((sp) => placeholderType(sp) === 'body')
+        .flatMap(shapeParagraphs)
+    : []
+  if (notes.length > 0) body.push({ type: 'paragraph', text: `Notes : ${notes.join(' ')}`, page: slide })
+  if (body.length === 0 && !title) return []
+
+  const heading = title && title.length <= MAX_HEADING_CHARS ? title : `Diapositive ${slide}`
+  if (title && title !== heading) body.unshift({ type: 'paragraph', text: title, page: slide })
+  return [{ type: 'heading', text: heading, page: slide, level: 1 }, ...body]
+}
+
+export const pptxExtractor: DocumentExtractor = {
+  name: 'pptx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  extensions: ['.pptx'],
+  async extract(buffer) {
+    const zip = await openArchive(buffer)
+    const presentation = await archivePart(zip, 'ppt/presentation.xml')
+    if (!presentation) throw new Error('Présentation PowerPoint illisible (ppt/presentation.xml manquant).')
+    const targets = readRelationships(await archivePart(zip, 'ppt/_rels/presentation.xml.rels'), 'ppt')
+    const slidePaths = (presentation.match(/<p:sldId\b[^>]*>/g) || [])
+      .map((tag) => targets.get(xmlAttr(tag, 'r:id') || ''))
+      .filter((p): p is string => !!p)
+
+    const blocks: DocumentBlock[] = []
+    for (let i = 0; i < slidePaths.length; i++) {
+      const slideXml = await archivePart(zip, slidePaths[i])
+      if (!slideXml || /<p:sld\b[^>]*\sshow="(0|false)"/.test(slideXml)) continue
+      const rels = await archivePart(zip, relationshipsPart(slidePaths[i]))
+      const notesPath = relationshipTarget(rels, path.posix.dirname(slidePaths[i]), 'notesSlide')
+      const notesXml = notesPath ? await archivePart(zip, notesPath) : null
+      blocks.push(...slideBlocks(slideXml, i + 1, notesXml))
+    }
+    return { blocks, pageCount: slidePaths.length }
+  },
+}
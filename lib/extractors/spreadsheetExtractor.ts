@@ -0,0 +1,250 @@
+/**
+ * Spreadsheets (XLSX, ODS): one heading per sheet, then its tables row by row. Blank rows separate
+ * tables; a lone cell above a table is taken as its title. Dates are written YYYY-MM-DD, numbers
+ * unformatted.
+ */
+
+import type JSZip from 'jszip'
+import { archivePart, odfText, openArchive, readRelationships, xmlAttr } from './archive'
+import { decodeEntities, MAX_HEADING_CHARS, tableBlock } from './blocks'
+import type { DocumentBlock, DocumentExtractor } from './types'
+
+export interface SheetRow {
+  /** 1-based row number in the sheet */
+  index: number
+  cells: string[]
+}
+
+export interface Sheet {
+  name: string
+  rows: SheetRow[]
+}
+
+export interface SheetTable {
+  /** Lone cell above the table, e.g. "Encours par région" */
+  title: string | null
+  rows: string[][]
+}
+
+/** Cells read per row at most (ODS files repeat empty cells up to the last column) */
+const MAX_COLUMNS = 1000
+/** Copies of an ODS row stored with a repeat count, at most */
+const MAX_REPEATED_ROWS = 1000
+
+function formatNumber(value: string): string {
+  const n = Number(value)
+  return Number.isFinite(n) ? String(Number(n.toPrecision(15))) : value
+}
+
+function trimRow(cells: string[]): string[] {
+  let end = cells.length
+  while (end > 0 && !cells[end - 1]) end--
+  return cells.slice(0, end)
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+/** Built-in number formats that display dates (ECMA-376 §18.8.30) */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+// Style index -> whether the cell displays a date, from styles.xml
+function dateStyles(stylesXml: string | null): boolean[] {
+  if (!stylesXml) return []
+  const customDates = new Set<number>()
+  for (const tag of stylesXml.match(/<numFmt\b[^>]*>/g) || []) {
+    // Date codes use d, m, y or h outside quoted text and [colour]/[locale] brackets
+    const code = (xmlAttr(tag, 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')
+    if (/[dmyh]/i.test(code)) customDates.add(Number(xmlAttr(tag, 'numFmtId')))
+  }
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || ''
+  return (cellXfs.match(/<xf\b[^>]*>/g) || []).map((tag) => {
+    const id = Number(xmlAttr(tag, 'numFmtId') || 0)
+    return BUILTIN_DATE_FORMATS.has(id) || customDates.has(id)
+  })
+}
+
+function excelDate(serial: number, date1904: boolean): string {
+  const ms = Math.round((serial + (date1904 ? 1462 : 0)) * 86400000) + Date.UTC(1899, 11, 30)
+  const iso = new Date(ms).toISOString()
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+}
+
+// "AB12" -> 27 (0-based column)
+function columnIndex(ref: string): number {
+  let index = 0
+  for (const ch of ref.replace(/\d+$/, '')) index = index * 26 + (ch.charCodeAt(0) - 64)
+  return index - 1
+}
+
+function runText(xml: string): string {
+  return (xml.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) || []).map((t) => decodeEntities(t.replace(/<[^>]+>/g, ''))).join('')
+}
+
+async function readXlsxSheets(zip: JSZip): Promise<Sheet[]> {
+  const workbook = await archivePart(zip, 'xl/workbook.xml')
+  if (!workbook) throw new Error('Classeur Excel illisible (xl/workbook.xml manquant).')
+  const targets = readRelationships(await archivePart(zip, 'xl/_rels/workbook.xml.rels'), 'xl')
+  const sharedStrings = ((await archivePart(zip, 'xl/sharedStrings.xml'))?.match(/<si\b[^>]*>[\s\S]*?<\/si>/g) || []).map(
+    (si) => runText(si.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''))
+  )
+  const isDateStyle = dateStyles(await archivePart(zip, 'xl/styles.xml'))
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbook)
+
+  const sheets: Sheet[] = []
+  for (const tag of workbook.match(/<sheet\b[^>]*>/g) || []) {
+    if (/state="(hidden|veryHidden)"/.test(tag)) continue
+    const target = targets.get(xmlAttr(tag, 'r:id') || '')
+    const xml = target ? await archivePart(zip, target) : null
+    if (!xml) continue
+    const rows: SheetRow[] = []
+    const rowRe = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+    let r: RegExpExecArray | null
+    while ((r = rowRe.exec(xml)) !== null) {
+      const [, rowAttrs, row = ''] = r
+      const cells: string[] = []
+      const cellRe = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+      let m: RegExpExecArray | null
+      while ((m = cellRe.exec(row)) !== null) {
+        const [, attrs, inner = ''] = m
+        const tagText = `<c${attrs}>`
+        const ref = xmlAttr(tagText, 'r')
+        const column = ref ? columnIndex(ref) : cells.length
+        if (column < 0 || column >= MAX_COLUMNS) continue
+        const type = xmlAttr(tagText, 't') || 'n'
+        const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+        let value = ''
+        if (type === 'inlineStr') value = runText(inner)
+        else if (raw == null) value = ''
+        else if (type === 's') value = sharedStrings[Number(raw)] ?? ''
+        else if (type === 'b') value = raw === '1' ? 'VRAI' : 'FAUX'
+        else if (type === 'str' || type === 'e') value = decodeEntities(raw)
+        else if (isDateStyle[Number(xmlAttr(tagText, 's') || 0)] && Number.isFinite(Number(raw))) value = excelDate(Number(raw), date1904)
+        else value = formatNumber(raw)
+        while (cells.length < column) cells.push('')
+        cells[column] = value.replace(/\s+/g, ' ').trim()
+      }
+      const trimmed = trimRow(cells)
+      if (trimmed.length > 0) rows.push({ index: Number(xmlAttr(`<row${rowAttrs}>`, 'r')) || rows.length + 1, cells: trimmed })
+    }
+    sheets.push({ name: xmlAttr(tag, 'name') || `Feuille ${sheets.length + 1}`, rows })
+  }
+  return sheets
+}
+
+// ---------------------------------------------------------------------------
+// ODS
+// ---------------------------------------------------------------------------
+
+function odsCellValue(attrsTag: string, inner: string): string {
+  switch (xmlAttr(attrsTag, 'office:value-type')) {
+    case 'float':
+    case 'currency':
+    case 'percentage':
+      return formatNumber(xmlAttr(attrsTag, 'office:value') || '')
+    case 'date':
+      return (xmlAttr(attrsTag, 'office:date-value') || '').replace(/T00:00:00$/, '').replace('T', ' ').slice(0, 16)
+    case 'boolean':
+      return xmlAttr(attrsTag, 'office:boolean-value') === 'true' ? 'VRAI' : 'FAUX'
+    default:
+      return (inner.match(/<text:p\b[^>]*>[\s\S]*?<\/text:p>/g) || []).map(odfText).join(' ').trim()
+  }
+}
+
+async function readOdsSheets(zip: JSZip): Promise<Sheet[]> {
+  const content = await archivePart(zip, 'content.xml')
+  if (!content) throw new Error('Classeur OpenDocument illisible (content.xml manquant).')
+  const sheets: Sheet[] = []
+  for (const table of content.match(/<table:table(?=[\s>])[^>]*>[\s\S]*?<\/table:table>/g) || []) {
+    const rows: SheetRow[] = []
+    let rowIndex = 0
+    const rowRe = /<table:table-row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/table:table-row>)/g
+    let r: RegExpExecArray | null
+    while ((r = rowRe.exec(table)) !== null) {
+      const [, rowAttrs, rowInner = ''] = r
+      const repeatRows = Number(xmlAttr(`<r${rowAttrs}>`, 'table:number-rows-repeated')) || 1
+      const cells: string[] = []
+      const cellRe = /<table:(?:covered-)?table-cell\b([^>]*?)(?:\/>|>([\s\S]*?)<\/table:(?:covered-)?table-cell>)/g
+      let c: RegExpExecArray | null
+      while ((c = cellRe.exec(rowInner)) !== null && cells.length < MAX_COLUMNS) {
+        const attrsTag = `<c${c[1]}>`
+        const value = odsCellValue(attrsTag, c[2] || '')
+        const repeat = Math.min(Number(xmlAttr(attrsTag, 'table:number-columns-repeated')) || 1, MAX_COLUMNS - cells.length)
+        for (let i = 0; i < repeat; i++) cells.push(value)
+      }
+      const trimmed = trimRow(cells)
+      // Identical consecutive rows are stored once with a repeat count (blank ones fill the sheet to its end)
+      if (trimmed.length > 0) {
+        for (let i = 0; i < Math.min(repeatRows, MAX_REPEATED_ROWS); i++) rows.push({ index: rowIndex + i + 1, cells: trimmed })
+      }
+      rowIndex += repeatRows
+    }
+    sheets.push({ name: xmlAttr(table.match(/<table:table(?=[\s>])[^>]*>/)![0], 'table:name') || `Feuille ${sheets.length + 1}`, rows })
+  }
+  return sheets
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Sheets of an XLSX or ODS workbook (visible sheets only for XLSX), rows without trailing empty cells.
+ */
+export async function readSheets(buffer: Buffer, format: 'xlsx' | 'ods'): Promise<Sheet[]> {
+  const zip = await openArchive(buffer)
+  return format === 'xlsx' ? readXlsxSheets(zip) : readOdsSheets(zip)
+}
+
+/**
+ * Split a sheet into tables at blank rows; a one-cell first row is the table's title.
+ */
+export function sheetTables(sheet: Sheet): SheetTable[] {
+  const groups: string[][][] = []
+  let previous = -1
+  for (const row of sheet.rows) {
+    if (groups.length === 0 || row.index > previous + 1) groups.push([])
+    groups[groups.length - 1].push(row.cells)
+    previous = row.index
+  }
+  return groups.map((rows) => {
+    const first = rows[0]
+    if (rows.length > 1 && first.length === 1 && first[0].length <= MAX_HEADING_CHARS) {
+      return { title: first[0], rows: rows.slice(1) }
+    }
+    return { title: null, rows }
+  })
+}
+
+function sheetBlocks(sheets: Sheet[]): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  for (const sheet of sheets) {
+    if (sheet.rows.length === 0) continue
+    blocks.push({ type: 'heading', text: sheet.name, page: null, level: 1 })
+    for (const table of sheetTables(sheet)) {
+      if (table.title) blocks.push({ type: 'heading', text: table.title, page: null, level: 2 })
+      // Cells are padded so every row has the header's columns
+      const width = Math.max(...table.rows.map((r) => r.length))
+      const block = tableBlock(table.rows.map((r) => [...r, ...Array(width - r.length).fill('')]), null)
+      if (block) blocks.push(block)
+    }
+  }
+  return blocks
+}
+
+export const xlsxExtractor: DocumentExtractor = {
+  name: 'xlsx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  extensions: ['.xlsx'],
+  async extract(buffer) {
+    return { blocks: sheetBlocks(await readSheets(buffer, 'xlsx')), pageCount: null }
+  },
+}
+
+export const odsExtractor: DocumentExtractor = {
+  name: 'ods',
+  mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'],
+  extensions: ['.ods'],
+  async extract(buffer) {
+    return { blocks: sheetBlocks(await readSheets(buffer, 'ods')), pageCount: null }
+  },
+}
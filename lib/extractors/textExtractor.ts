@@ -0,0 +1,30 @@
+/**
+ * Plain text, Markdown and JSON, read as UTF-8. Form feeds separate pages.
+ */
+
+import { textBlocks } from './blocks'
+import type { DocumentExtractor, ExtractedDocument } from './types'
+
+function extractText(buffer: Buffer, markdown: boolean): ExtractedDocument {
+  const text = buffer.toString('utf-8')
+  const blocks = textBlocks(text, markdown)
+  return { blocks, pageCount: text.includes('\f') ? blocks.reduce((n, b) => Math.max(n, b.page ?? 0), 0) : null }
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  name: 'markdown',
+  mimeTypes: ['text/markdown'],
+  extensions: ['.md', '.markdown'],
+  async extract(buffer) {
+    return extractText(buffer, true)
+  },
+}
+
+export const textExtractor: DocumentExtractor = {
+  name: 'text',
+  mimeTypes: ['text/*', 'application/json'],
+  extensions: ['.txt', '.json'],
+  async extract(buffer) {
+    return extractText(buffer, false)
+  },
+}
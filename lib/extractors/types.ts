@@ -0,0 +1,36 @@
+export type DocumentBlockType = 'heading' | 'paragraph' | 'table'
+
+export interface DocumentBlock {
+  type: DocumentBlockType
+  /** Paragraph text on one line; table rows on separate lines, cells separated by " | " */
+  text: string
+  /** 1-based page (PDF, text with form feeds) or slide, when the format has them */
+  page: number | null
+  /** Heading level, 1 = top */
+  level?: number
+  /** OCR confidence (0-1) of the page, when the text was recognised from an image */
+  ocrConfidence?: number | null
+}
+
+export interface ExtractedDocument {
+  blocks: DocumentBlock[]
+  pageCount: number | null
+  /** Pages (or images) whose text comes from OCR */
+  ocrPageCount?: number
+}
+
+export interface ExtractOptions {
+  /** Called after each OCR'd page */
+  onOcrProgress?: (done: number, total: number) => void | Promise<void>
+}
+
+/** Reads one family of file formats into blocks (see lib/extractors/index.ts for the registry). */
+export interface DocumentExtractor {
+  /** Identifier used in logs, e.g. "pdf" */
+  name: string
+  /** MIME types handled; "text/*" matches a whole family */
+  mimeTypes: string[]
+  /** Lower-case file extensions handled, with the dot */
+  extensions: string[]
+  extract(buffer: Buffer, options: ExtractOptions): Promise<ExtractedDocument>
+}
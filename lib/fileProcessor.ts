@@ -180,8 +180,9 @@ export function createFilePreview(file: File): Promise<string | null> {
   })
 }
 
-// Build file context for AI
-export function buildFileContext(files: ProcessedFile[]): string {
+// Build file context for AI. `maxChars` limits the contents shown per file id (see lib/contextBudget);
+// a file missing from it is shown whole, a limit of 0 lists the file without its contents.
+export function buildFileContext(files: ProcessedFile[], maxChars: Record<string, number> = {}): string {
   if (files.length === 0) return ''
 
   const textFiles = files.filter(f => !f.file_type.startsWith('image/'))
@@ -195,9 +196,12 @@ export function buildFileContext(files: ProcessedFile[]): string {
     context += `\n### Document ${i + 1}: "${file.file_name}"\n`
     context += `Type: ${file.file_type} | Size: ${formatFileSize(file.file_size)}\n`
     
-    if (file.content) {
-      const truncatedContent = file.content.length > 10000 
-        ? file.content.substring(0, 10000) + '\n\n[... content truncated for length ...]'
+    const limit = maxChars[file.id]
+    if (file.content && limit === 0) {
+      context += `\n(File content omitted: it does not fit in the model's context window)\n`
+    } else if (file.content) {
+      const truncatedContent = limit != null && file.content.length > limit
+        ? file.content.substring(0, limit) + '\n\n[... content truncated for length ...]'
         : file.content
       context += `\n**File Contents:**\n\`\`\`\n${truncatedContent}\n\`\`\`\n`
     } else {
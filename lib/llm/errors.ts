@@ -0,0 +1,103 @@
+/**
+ * Typed LLM errors, so callers can tell an expired token from a busy model and surface them
+ * as errors instead of treating a canned apology as model output.
+ */
+
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'timeout' | 'content_filter' | 'model_unavailable' | 'aborted' | 'unknown'
+
+/** Kinds worth retrying on the same model after a pause. */
+const RETRYABLE: LLMErrorKind[] = ['rate_limit', 'timeout', 'model_unavailable']
+
+const DEFAULT_MESSAGES: Record<LLMErrorKind, string> = {
+  auth: 'The LLM provider rejected the credentials (check the API token).',
+  rate_limit: 'The LLM provider is rate limiting requests. Please retry in a moment.',
+  timeout: 'The LLM provider did not answer in time.',
+  content_filter: 'The request was blocked by the model content filter.',
+  model_unavailable: 'No model is currently available to answer.',
+  aborted: 'The request was cancelled.',
+  unknown: 'The LLM provider returned an unexpected error.',
+}
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind
+  readonly retryable: boolean
+  /** HTTP status returned by the provider, when known */
+  readonly status?: number
+  /** Model that produced the error */
+  readonly model?: string
+
+  constructor(kind: LLMErrorKind, message?: string, details: { status?: number; model?: string; cause?: unknown } = {}) {
+    super(message || DEFAULT_MESSAGES[kind])
+    this.name = 'LLMError'
+    this.kind = kind
+    this.retryable = RETRYABLE.includes(kind)
+    this.status = details.status
+    this.model = details.model
+    if (details.cause !== undefined) (this as { cause?: unknown }).cause = details.cause
+  }
+}
+
+function statusOf(err: unknown): number | undefined {
+  if (!err || typeof err !== 'object') return undefined
+  const e = err as { status?: unknown; response?: { status?: unknown } }
+  if (typeof e.status === 'number') return e.status
+  if (typeof e.response?.status === 'number') return e.response.status
+  return undefined
+}
+
+function kindFromStatus(status: number): LLMErrorKind | null {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 429) return 'rate_limit'
+  if (status === 408 || status === 504) return 'timeout'
+  if (status === 404 || status === 422 || status >= 500) return 'model_unavailable'
+  return null
+}
+
+function kindFromMessage(message: string): LLMErrorKind {
+  const m = message.toLowerCase()
+  if (/unauthori[sz]ed|unauthenticated|invalid (api )?token|authentication|forbidden/.test(m)) return 'auth'
+  if (/rate.?limit|too many requests|throttl/.test(m)) return 'rate_limit'
+  if (/timed? ?out|etimedout|deadline|aborted/.test(m)) return 'timeout'
+  if (/flagged|content (policy|filter)|safety|nsfw|moderation/.test(m)) return 'content_filter'
+  if (/not found|does not exist|unavailable|overloaded|econnrefused|econnreset|enotfound|fetch failed|no output/.test(m)) {
+    return 'model_unavailable'
+  }
+  return 'unknown'
+}
+
+/**
+ * Classify any thrown value (Replicate ApiError, fetch failure, AbortError...) as an LLMError.
+ */
+export function toLLMError(err: unknown, model?: string): LLMError {
+  if (err instanceof LLMError) return err
+  const status = statusOf(err)
+  const raw = (err as { message?: unknown } | null)?.message
+  const message = typeof raw === 'string' ? raw : typeof err === 'string' ? err : ''
+  const kind =
+    (status != null ? kindFromStatus(status) : null) ??
+    (err instanceof Error && err.name === 'AbortError' ? 'timeout' : kindFromMessage(message))
+  return new LLMError(kind, `${DEFAULT_MESSAGES[kind]}${message ? ` (${message.slice(0, 200)})` : ''}`, {
+    status,
+    model,
+    cause: err,
+  })
+}
+
+/**
+ * Throw an 'aborted' LLMError once the request's signal has fired (between calls, sections...).
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new LLMError('aborted')
+}
+
+/**
+ * Exponential backoff with jitter: base, 2×base, 4×base... (±25%).
+ */
+export function backoffDelay(attempt: number, baseMs: number = 1000): number {
+  const delay = baseMs * 2 ** attempt
+  return Math.round(delay * (0.75 + Math.random() * 0.5))
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,87 @@
+/**
+ * LLM providers, selected per route by configuration:
+ *   LLM_PROVIDER_<ROUTE> (CHAT, AGENT, TITLE), else LLM_PROVIDER, else 'replicate'.
+ * Values: 'replicate' | 'openai-compatible' | 'mock'.
+ * Replicate models per route: REPLICATE_MODELS_<ROUTE>, else REPLICATE_MODELS (comma-separated).
+ * OpenAI-compatible: OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_MODEL, OPENAI_COMPAT_API_KEY,
+ *   OPENAI_COMPAT_VISION, OPENAI_COMPAT_MAX_OUTPUT_TOKENS, OPENAI_COMPAT_CONTEXT_WINDOW (each may be suffixed _<ROUTE>).
+ */
+
+import { createReplicateProvider } from './replicateProvider'
+import { createOpenAICompatibleProvider } from './openaiCompatibleProvider'
+import { createMockProvider } from './mockProvider'
+import type { LLMProvider, LLMProviderKind, LLMRoute } from './types'
+
+export * from './types'
+export { LLMError, toLLMError, throwIfAborted, type LLMErrorKind } from './errors'
+export { createReplicateProvider } from './replicateProvider'
+export { createOpenAICompatibleProvider, type OpenAICompatibleConfig } from './openaiCompatibleProvider'
+export { createMockProvider, type MockRule, type MockResponse, type MockProviderOptions, type MockLLMProvider, type MockCall } from './mockProvider'
+
+/** Replicate models used when nothing is configured for a route. */
+const ROUTE_DEFAULT_REPLICATE_MODELS: Partial<Record<LLMRoute, string[]>> = {
+  title: ['meta/meta-llama-3-8b-instruct'],
+}
+
+const _providers = new Map<LLMRoute, LLMProvider>()
+const _overrides = new Map<LLMRoute, LLMProvider>()
+
+function routeEnv(name: string, route: LLMRoute): string | undefined {
+  return process.env[`${name}_${route.toUpperCase()}`] || process.env[name] || undefined
+}
+
+function listEnv(name: string, route: LLMRoute): string[] | undefined {
+  const raw = routeEnv(name, route)
+  const list = raw?.split(',').map((m) => m.trim()).filter(Boolean)
+  return list && list.length > 0 ? list : undefined
+}
+
+function numberEnv(name: string, route: LLMRoute): number | undefined {
+  const value = Number(routeEnv(name, route))
+  return Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+function createProvider(route: LLMRoute): LLMProvider {
+  const kind = (routeEnv('LLM_PROVIDER', route) || 'replicate') as LLMProviderKind
+  switch (kind) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: routeEnv('OPENAI_COMPAT_BASE_URL', route) || 'http://localhost:11434/v1',
+        model: routeEnv('OPENAI_COMPAT_MODEL', route) || 'llama3.1',
+        apiKey: routeEnv('OPENAI_COMPAT_API_KEY', route),
+        vision: routeEnv('OPENAI_COMPAT_VISION', route) === 'true',
+        maxOutputTokens: numberEnv('OPENAI_COMPAT_MAX_OUTPUT_TOKENS', route),
+        contextWindow: numberEnv('OPENAI_COMPAT_CONTEXT_WINDOW', route),
+      })
+    case 'mock':
+      return createMockProvider()
+    case 'replicate':
+      return createReplicateProvider(
+        listEnv('REPLICATE_MODELS', route) ?? ROUTE_DEFAULT_REPLICATE_MODELS[route]
+      )
+    default:
+      throw new Error(`Unknown LLM provider "${kind}" for route ${route}`)
+  }
+}
+
+/**
+ * Provider configured for a route (created lazily, then cached).
+ */
+export function getLLMProvider(route: LLMRoute): LLMProvider {
+  const override = _overrides.get(route)
+  if (override) return override
+  let provider = _providers.get(route)
+  if (!provider) {
+    provider = createProvider(route)
+    _providers.set(route, provider)
+  }
+  return provider
+}
+
+/**
+ * Force a provider for a route (tests, scripts). Pass null to go back to the configured one.
+ */
+export function setLLMProvider(route: LLMRoute, provider: LLMProvider | null): void {
+  if (provider) _overrides.set(route, provider)
+  else _overrides.delete(route)
+}
@@ -0,0 +1,88 @@
+import { throwIfAborted } from './errors'
+import { collectStream, type LLMProvider, type LLMCapabilities, type ChatMessage, type LLMRequestOptions } from './types'
+
+export interface MockRule {
+  /** Matched against the system prompt, then the last user message */
+  match: string | RegExp
+  /**
+   * Response to stream; an array is replayed in order on successive matches (last one repeats).
+   * A function computes it from the request; an Error is thrown instead of streaming (failure paths).
+   */
+  response: MockResponse | MockResponse[]
+}
+
+export type MockResponse = string | Error | ((messages: ChatMessage[], options: LLMRequestOptions) => string)
+
+export interface MockProviderOptions {
+  rules?: MockRule[]
+  /** Response when no rule matches (default: a fixed French sentence echoing the question) */
+  fallback?: (messages: ChatMessage[], options: LLMRequestOptions) => string
+  capabilities?: Partial<LLMCapabilities>
+  /** Pause between tokens, to exercise slow streams and cancellation */
+  tokenDelayMs?: number
+}
+
+export interface MockCall {
+  messages: ChatMessage[]
+  options: LLMRequestOptions
+  response: string
+}
+
+export interface MockLLMProvider extends LLMProvider {
+  /** Every call made, in order, for assertions */
+  calls: MockCall[]
+}
+
+function matches(rule: MockRule, text: string): boolean {
+  return typeof rule.match === 'string' ? text.includes(rule.match) : rule.match.test(text)
+}
+
+/**
+ * Deterministic provider for tests and offline development: no network, scripted responses,
+ * streamed word by word so consumers exercise their streaming paths.
+ */
+export function createMockProvider(config: MockProviderOptions = {}): MockLLMProvider {
+  const rules = config.rules ?? []
+  const replayed = new Map<MockRule, number>()
+  const fallback =
+    config.fallback ??
+    ((messages: ChatMessage[]) => {
+      const question = [...messages].reverse().find((m) => m.role === 'user')?.content ?? ''
+      return `Réponse simulée à : ${question.slice(-200).trim()}`
+    })
+
+  const respond = (messages: ChatMessage[], options: LLMRequestOptions): string => {
+    const response = pickResponse(messages, options)
+    if (response instanceof Error) throw response
+    return typeof response === 'function' ? response(messages, options) : response
+  }
+
+  const pickResponse = (messages: ChatMessage[], options: LLMRequestOptions): MockResponse => {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user')?.content ?? ''
+    const rule =
+      rules.find((r) => matches(r, options.system_prompt ?? '')) ?? rules.find((r) => matches(r, lastUser))
+    if (!rule) return fallback(messages, options)
+    if (!Array.isArray(rule.response)) return rule.response
+    const n = replayed.get(rule) ?? 0
+    replayed.set(rule, n + 1)
+    return rule.response[Math.min(n, rule.response.length - 1)]
+  }
+
+  const provider: MockLLMProvider = {
+    name: 'mock',
+    capabilities: { vision: false, maxOutputTokens: 8192, contextWindow: 32768, ...config.capabilities },
+    calls: [],
+    async *stream(messages, options = {}) {
+      const response = respond(messages, options)
+      provider.calls.push({ messages, options, response })
+      for (const token of response.match(/\S+\s*|\s+/g) ?? []) {
+        if (config.tokenDelayMs) await new Promise((resolve) => setTimeout(resolve, config.tokenDelayMs))
+        throwIfAborted(options.signal)
+        yield token
+      }
+      options.onReport?.({ provider: 'mock', model: 'mock', fallbackIndex: 0, attempts: 1 })
+    },
+    complete: (messages, options) => collectStream(provider.stream(messages, options)),
+  }
+  return provider
+}
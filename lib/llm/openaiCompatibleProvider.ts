@@ -0,0 +1,141 @@
+import { LLMError, toLLMError, throwIfAborted, backoffDelay, sleep } from './errors'
+import { collectStream, type LLMProvider, type ChatMessage, type LLMRequestOptions } from './types'
+
+export interface OpenAICompatibleConfig {
+  /** Base URL including the version prefix, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp) */
+  baseUrl: string
+  model: string
+  apiKey?: string
+  vision?: boolean
+  maxOutputTokens?: number
+  contextWindow?: number
+  /** Retries on rate limits, timeouts and 5xx before the first token (default 2) */
+  maxRetries?: number
+}
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+
+function toOpenAIMessages(messages: ChatMessage[], options: LLMRequestOptions, vision: boolean) {
+  const out: { role: string; content: string | ContentPart[] }[] = []
+  if (options.system_prompt) out.push({ role: 'system', content: options.system_prompt })
+  const images = vision ? options.image_input ?? [] : []
+  const lastUser = messages.map((m) => m.role).lastIndexOf('user')
+  messages.forEach((m, i) => {
+    if (i === lastUser && images.length > 0) {
+      out.push({
+        role: m.role,
+        content: [{ type: 'text', text: m.content }, ...images.map((url) => ({ type: 'image_url' as const, image_url: { url } }))],
+      })
+    } else {
+      out.push({ role: m.role, content: m.content })
+    }
+  })
+  return out
+}
+
+/**
+ * Provider for any server exposing the OpenAI /chat/completions API with streaming
+ * (llama.cpp server, Ollama, vLLM, LM Studio, OpenAI itself...).
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const capabilities = {
+    vision: config.vision ?? false,
+    maxOutputTokens: config.maxOutputTokens ?? 4096,
+    contextWindow: config.contextWindow ?? 8192,
+  }
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+  const maxRetries = config.maxRetries ?? 2
+
+  async function* stream(messages: ChatMessage[], options: LLMRequestOptions = {}): AsyncGenerator<string, void, unknown> {
+    const body = JSON.stringify({
+      model: config.model,
+      messages: toOpenAIMessages(messages, options, capabilities.vision),
+      max_tokens: Math.min(options.max_completion_tokens || 4096, capabilities.maxOutputTokens),
+      stream: true,
+      // Final chunk carries token counts (ignored by servers that do not support it)
+      stream_options: { include_usage: true },
+    })
+
+    // Retry transient failures before the first token; once streaming, errors propagate
+    let res: Response | null = null
+    let attempts = 0
+    for (let attempt = 0; !res; attempt++) {
+      attempts++
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+          },
+          body,
+          signal: options.signal,
+        })
+        if (!response.ok || !response.body) {
+          const detail = await response.text().catch(() => '')
+          throw toLLMError({ status: response.status, message: detail.slice(0, 300) }, config.model)
+        }
+        res = response
+      } catch (err) {
+        throwIfAborted(options.signal)
+        const error = toLLMError(err, config.model)
+        if (!error.retryable || attempt >= maxRetries) throw error
+        await sleep(backoffDelay(attempt))
+        throwIfAborted(options.signal)
+      }
+    }
+    if (!res.body) throw new LLMError('model_unavailable', undefined, { model: config.model })
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined
+    const report = () =>
+      options.onReport?.({
+        provider: 'openai-compatible',
+        model: config.model,
+        fallbackIndex: 0,
+        attempts,
+        promptTokens: usage?.prompt_tokens,
+        completionTokens: usage?.completion_tokens,
+      })
+    while (true) {
+      const { done, value } = await reader.read().catch((err) => {
+        throwIfAborted(options.signal)
+        throw toLLMError(err, config.model)
+      })
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        const data = line.trim()
+        if (!data.startsWith('data:')) continue
+        const payload = data.slice(5).trim()
+        if (payload === '[DONE]') {
+          report()
+          return
+        }
+        try {
+          const parsed = JSON.parse(payload) as {
+            choices?: { delta?: { content?: string } }[]
+            usage?: { prompt_tokens?: number; completion_tokens?: number }
+          }
+          if (parsed.usage) usage = parsed.usage
+          const text = parsed.choices?.[0]?.delta?.content
+          if (text) yield text
+        } catch {
+          // Ignore keep-alives and partial frames
+        }
+      }
+    }
+    report()
+  }
+
+  return {
+    name: `openai-compatible:${config.model}`,
+    capabilities,
+    stream,
+    complete: (messages, options) => collectStream(stream(messages, options)),
+  }
+}
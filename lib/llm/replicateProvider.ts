@@ -0,0 +1,28 @@
+import { streamGPT5, getReplicateModelSpec, resolveReplicateModels } from '../replicate'
+import { collectStream, type LLMProvider } from './types'
+
+/**
+ * Replicate provider: streamGPT5 with an ordered fallback list of models.
+ * Capabilities are those of the primary (first) model; streamGPT5 refits the prompt for a fallback
+ * model with a smaller context window.
+ */
+export function createReplicateProvider(models?: string[]): LLMProvider {
+  const resolved = resolveReplicateModels(models)
+  const primary = getReplicateModelSpec(resolved[0])
+  const provider: LLMProvider = {
+    name: `replicate:${resolved[0]}`,
+    capabilities: {
+      vision: primary.vision,
+      maxOutputTokens: primary.maxOutputTokens,
+      contextWindow: primary.contextWindow,
+    },
+    stream: (messages, { onReport, ...options } = {}) =>
+      streamGPT5(messages, {
+        ...options,
+        models: resolved,
+        onServed: (served) => onReport?.({ provider: 'replicate', ...served }),
+      }),
+    complete: (messages, options) => collectStream(provider.stream(messages, options)),
+  }
+  return provider
+}
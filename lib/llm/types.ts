@@ -0,0 +1,59 @@
+import type { ChatMessage, GPT5StreamOptions } from '../replicate'
+
+export type { ChatMessage }
+
+/** What a provider reports once a call has completed. */
+export interface LLMCallReport {
+  /** Provider kind, e.g. "replicate" */
+  provider: string
+  /** Model that actually answered */
+  model: string
+  /** Position of that model in the fallback list (0 = primary) */
+  fallbackIndex: number
+  /** Attempts made in total, retries and fallbacks included */
+  attempts: number
+  /** Token counts when the provider returns them (otherwise callers estimate) */
+  promptTokens?: number
+  completionTokens?: number
+}
+
+/** Generation options shared by all providers (a provider ignores what it cannot honour). */
+export type LLMRequestOptions = Omit<GPT5StreamOptions, 'models' | 'onServed'> & {
+  /** Called once the call has completed successfully */
+  onReport?: (report: LLMCallReport) => void
+}
+
+export interface LLMCapabilities {
+  /** Accepts image inputs (image_input) */
+  vision: boolean
+  /** Largest completion the provider will produce */
+  maxOutputTokens: number
+  /** Total context window in tokens (prompt + completion) */
+  contextWindow: number
+}
+
+export interface LLMProvider {
+  /** Identifier used in logs, e.g. "replicate" or "openai-compatible:llama3.1" */
+  name: string
+  capabilities: LLMCapabilities
+  /** Stream the completion token by token */
+  stream(messages: ChatMessage[], options?: LLMRequestOptions): AsyncGenerator<string, void, unknown>
+  /** Return the whole completion (trimmed) */
+  complete(messages: ChatMessage[], options?: LLMRequestOptions): Promise<string>
+}
+
+/** Routes that pick their provider independently (LLM_PROVIDER_<ROUTE>). */
+export type LLMRoute = 'chat' | 'agent' | 'title'
+
+export type LLMProviderKind = 'replicate' | 'openai-compatible' | 'mock'
+
+/**
+ * Default complete(): drain stream() into a string.
+ */
+export async function collectStream(stream: AsyncGenerator<string, void, unknown>): Promise<string> {
+  let full = ''
+  for await (const chunk of stream) {
+    full += chunk
+  }
+  return full.trim()
+}
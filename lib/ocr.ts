@@ -0,0 +1,172 @@
+/**
+ * CDC Agent: local OCR for scanned documents. PDF pages are rasterised with poppler's pdftoppm and
+ * read by the tesseract CLI, offline, in French by default. Both binaries must be installed on the
+ * server (e.g. apt install poppler-utils tesseract-ocr tesseract-ocr-fra); without them OCR is skipped.
+ */
+
+import { execFile } from 'child_process'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+const TESSERACT = process.env.OCR_TESSERACT_PATH || 'tesseract'
+const PDFTOPPM = process.env.OCR_PDFTOPPM_PATH || 'pdftoppm'
+/** Tesseract languages, '+'-separated (traineddata files must be installed) */
+const LANGUAGES = process.env.OCR_LANGUAGES || 'fra'
+const DPI = Number(process.env.OCR_DPI) || 300
+/** Pages OCR'd per document at most; the others stay without text */
+export const OCR_MAX_PAGES = Number(process.env.OCR_MAX_PAGES) || 200
+const PAGE_TIMEOUT_MS = 2 * 60 * 1000
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024
+
+export interface OcrParagraph {
+  text: string
+  lines: number
+  /** Median height of the paragraph's lines, in pixels */
+  lineHeight: number
+}
+
+export interface OcrPage {
+  paragraphs: OcrParagraph[]
+  /** Mean word confidence (0-1, weighted by word length), null when no word was recognised */
+  confidence: number | null
+}
+
+let unavailable = false
+
+/**
+ * True unless OCR_ENABLED=false or the binaries were found missing.
+ */
+export function isOcrAvailable(): boolean {
+  return process.env.OCR_ENABLED !== 'false' && !unavailable
+}
+
+function isMissingBinary(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * Parse tesseract's TSV output (one row per page, block, paragraph, line and word) into paragraphs.
+ */
+function parseTesseractTsv(tsv: string): OcrPage {
+  const paragraphs = new Map<string, { lines: Map<string, string[]>; heights: number[] }>()
+  let weighted = 0
+  let weight = 0
+  for (const row of tsv.split('\n').slice(1)) {
+    const cols = row.split('\t')
+    if (cols.length < 12) continue
+    const [level, , block, par, line, , , , , height, conf] = cols
+    const text = cols.slice(11).join('\t').trim()
+    const key = `${block}.${par}`
+    if (!paragraphs.has(key)) paragraphs.set(key, { lines: new Map(), heights: [] })
+    const paragraph = paragraphs.get(key)!
+    if (level === '4') paragraph.heights.push(Number(height))
+    if (level !== '5' || !text) continue
+    if (!paragraph.lines.has(line)) paragraph.lines.set(line, [])
+    paragraph.lines.get(line)!.push(text)
+    const confidence = Number(conf)
+    if (confidence >= 0) {
+      weighted += confidence * text.length
+      weight += text.length
+    }
+  }
+
+  const result: OcrParagraph[] = []
+  paragraphs.forEach(({ lines, heights }) => {
+    const text = Array.from(lines.values())
+      .map((words) => words.join(' '))
+      .join('\n')
+      .trim()
+    if (!text) return
+    const sorted = [...heights].sort((a, b) => a - b)
+    result.push({ text, lines: lines.size, lineHeight: sorted[Math.floor(sorted.length / 2)] ?? 0 })
+  })
+  return { paragraphs: result, confidence: weight > 0 ? Math.round((weighted / weight) * 10) / 1000 : null }
+}
+
+async function runTesseract(imagePath: string): Promise<OcrPage> {
+  const { stdout } = await execFileAsync(TESSERACT, [imagePath, 'stdout', '-l', LANGUAGES, 'tsv'], {
+    timeout: PAGE_TIMEOUT_MS,
+    maxBuffer: MAX_OUTPUT_BYTES,
+  })
+  return parseTesseractTsv(stdout)
+}
+
+async function withTempDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'cdc-ocr-'))
+  try {
+    return await run(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * OCR an image (PNG, JPEG, TIFF). Returns null when OCR is unavailable.
+ */
+export async function ocrImage(image: Buffer): Promise<OcrPage | null> {
+  if (!isOcrAvailable()) return null
+  try {
+    return await withTempDir(async (dir) => {
+      const imagePath = path.join(dir, 'image')
+      await writeFile(imagePath, image)
+      return runTesseract(imagePath)
+    })
+  } catch (err) {
+    if (isMissingBinary(err)) {
+      unavailable = true
+      console.error(`OCR unavailable: ${TESSERACT} not found`)
+      return null
+    }
+    throw err
+  }
+}
+
+/**
+ * OCR some pages (1-based) of a PDF, one at a time. Pages that fail are left out of the result;
+ * `onPage` is called after each page. Returns null when OCR is unavailable.
+ */
+export async function ocrPdfPages(
+  pdf: Buffer,
+  pages: number[],
+  onPage?: (done: number, total: number) => void | Promise<void>
+): Promise<Map<number, OcrPage> | null> {
+  if (!isOcrAvailable()) return null
+  const selected = pages.slice(0, OCR_MAX_PAGES)
+  try {
+    return await withTempDir(async (dir) => {
+      const pdfPath = path.join(dir, 'document.pdf')
+      await writeFile(pdfPath, pdf)
+      const result = new Map<number, OcrPage>()
+      for (let i = 0; i < selected.length; i++) {
+        const page = selected[i]
+        const prefix = path.join(dir, `page-${page}`)
+        try {
+          await execFileAsync(
+            PDFTOPPM,
+            ['-r', String(DPI), '-f', String(page), '-l', String(page), '-png', '-singlefile', pdfPath, prefix],
+            { timeout: PAGE_TIMEOUT_MS }
+          )
+          result.set(page, await runTesseract(`${prefix}.png`))
+        } catch (err) {
+          if (isMissingBinary(err)) throw err
+          console.error(`OCR of page ${page} failed:`, err)
+        } finally {
+          await rm(`${prefix}.png`, { force: true })
+        }
+        await onPage?.(i + 1, selected.length)
+      }
+      return result
+    })
+  } catch (err) {
+    if (isMissingBinary(err)) {
+      unavailable = true
+      console.error(`OCR unavailable: ${PDFTOPPM} or ${TESSERACT} not found`)
+      return null
+    }
+    throw err
+  }
+}
@@ -1,8 +1,17 @@
 /**
- * CDC Agent: full-text search over cdc_chunks and context building for the LLM.
+ * CDC Agent: hybrid (full-text + vector) search over cdc_chunks and context building for the LLM.
+ * Searches can be scoped with document metadata filters (see SearchFilters).
  */
 
 import { supabase } from './supabaseClient'
+import { embedQuery } from './embeddings'
+import { mapWithConcurrency, concurrencyFromEnv } from './concurrency'
+import { formatChunkLocation, formatOcrConfidence } from './chunkLocation'
+
+/** Standard reciprocal rank fusion constant (Cormack et al.). */
+const RRF_K = 60
+/** Searches of one multiQuerySearch run at once (each embeds its query, so this bounds embedding calls too) */
+const RETRIEVAL_CONCURRENCY = concurrencyFromEnv('RETRIEVAL_CONCURRENCY', 4)
 
 export interface SearchChunk {
   id: string
@@ -10,16 +19,171 @@ export interface SearchChunk {
   document_name: string
   content: string
   chunk_index: number
+  /** Pages spanned by the chunk, when the document has pages */
+  page_start?: number | null
+  page_end?: number | null
+  /** Headings enclosing the chunk, outermost first */
+  heading_path?: string[] | null
+  /** OCR confidence (0-1) when the chunk was read from a scanned page */
+  ocr_confidence?: number | null
   rank: number
 }
 
 /**
- * Return total number of chunks in the base (to detect empty base).
+ * Scope of a search: only chunks of documents matching every given criterion. Within a criterion,
+ * any listed value matches (e.g. a document carrying one of `tags`).
+ */
+export interface SearchFilters {
+  /** Collections searched; set by the API routes to those the caller can read (see lib/collections) */
+  collectionIds?: string[]
+  /** Documents searched; the only way to search a superseded version (otherwise current versions only) */
+  documentIds?: string[]
+  tags?: string[]
+  categories?: string[]
+  authors?: string[]
+  /** Inclusive year range on cdc_documents.year */
+  yearFrom?: number
+  yearTo?: number
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  const list = Array.from(new Set(value.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean)))
+  return list.length > 0 ? list.slice(0, 100) : undefined
+}
+
+function yearValue(value: unknown): number | undefined {
+  const year = typeof value === 'string' ? parseInt(value, 10) : value
+  return typeof year === 'number' && Number.isInteger(year) ? year : undefined
+}
+
+/**
+ * Validate filters received from a client (request body, stored job). Returns undefined when nothing constrains the search.
  */
-export async function getChunkCount(): Promise<number> {
+export function normalizeSearchFilters(raw: unknown): SearchFilters | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const r = raw as Record<string, unknown>
+  const filters: SearchFilters = {
+    collectionIds: stringList(r.collectionIds),
+    documentIds: stringList(r.documentIds),
+    tags: stringList(r.tags),
+    categories: stringList(r.categories),
+    authors: stringList(r.authors),
+    yearFrom: yearValue(r.yearFrom),
+    yearTo: yearValue(r.yearTo),
+  }
+  const defined = Object.entries(filters).filter(([, v]) => v !== undefined)
+  return defined.length > 0 ? (Object.fromEntries(defined) as SearchFilters) : undefined
+}
+
+/** RPC arguments of search_cdc_chunks / match_cdc_chunks for `filters` (NULL = no constraint) */
+function filterArgs(filters?: SearchFilters): Record<string, unknown> {
+  if (!filters) return {}
+  return {
+    filter_collection_ids: filters.collectionIds ?? null,
+    filter_document_ids: filters.documentIds ?? null,
+    filter_tags: filters.tags ?? null,
+    filter_categories: filters.categories ?? null,
+    filter_authors: filters.authors ?? null,
+    filter_year_from: filters.yearFrom ?? null,
+    filter_year_to: filters.yearTo ?? null,
+  }
+}
+
+/**
+ * Ids of the searchable documents matching `filters`: ready current versions, plus superseded ones picked
+ * in documentIds. Documents still being ingested, or whose ingestion failed, are left out.
+ */
+export async function filteredDocumentIds(filters: SearchFilters = {}): Promise<string[]> {
+  let query = supabase.from('cdc_documents').select('id').eq('status', 'ready')
+  if (!filters.documentIds) query = query.is('superseded_at', null)
+  if (filters.collectionIds) query = query.in('collection_id', filters.collectionIds)
+  if (filters.documentIds) query = query.in('id', filters.documentIds)
+  if (filters.tags) query = query.overlaps('tags', filters.tags)
+  if (filters.categories) query = query.in('category', filters.categories)
+  if (filters.authors) query = query.in('author', filters.authors)
+  if (filters.yearFrom != null) query = query.gte('year', filters.yearFrom)
+  if (filters.yearTo != null) query = query.lte('year', filters.yearTo)
+  const { data, error } = await query
+  if (error) {
+    console.error('cdc_documents filter error:', error)
+    return []
+  }
+  return (data || []).map((row: { id: string }) => row.id)
+}
+
+/**
+ * A numbered extract shown to the model; answers cite it as [marker].
+ */
+export interface Citation {
+  marker: number
+  chunk_id: string
+  document_id: string
+  document_name: string
+  chunk_index: number
+  page_start?: number | null
+  page_end?: number | null
+  heading_path?: string[] | null
+  ocr_confidence?: number | null
+  excerpt: string
+}
+
+/** Chunk id -> citation. One index per answer so the same chunk keeps the same marker across sections. */
+export type CitationIndex = Map<string, Citation>
+
+export function createCitationIndex(): CitationIndex {
+  return new Map()
+}
+
+/**
+ * Rebuild an index from citations already shown to the user (e.g. a stored report),
+ * so newly retrieved chunks get markers after the existing ones.
+ */
+export function seedCitationIndex(citations: Citation[]): CitationIndex {
+  const index = createCitationIndex()
+  for (const c of citations) index.set(c.chunk_id, c)
+  return index
+}
+
+/**
+ * Assign markers to chunks not yet in the index. Returns only the newly added citations.
+ */
+export function registerCitations(index: CitationIndex, chunks: SearchChunk[]): Citation[] {
+  const added: Citation[] = []
+  let nextMarker = 1
+  index.forEach((c) => {
+    nextMarker = Math.max(nextMarker, c.marker + 1)
+  })
+  for (const c of chunks) {
+    if (index.has(c.id)) continue
+    const citation: Citation = {
+      marker: nextMarker++,
+      chunk_id: c.id,
+      document_id: c.document_id,
+      document_name: c.document_name,
+      chunk_index: c.chunk_index,
+      page_start: c.page_start ?? null,
+      page_end: c.page_end ?? null,
+      heading_path: c.heading_path ?? null,
+      ocr_confidence: c.ocr_confidence ?? null,
+      excerpt: c.content,
+    }
+    index.set(c.id, citation)
+    added.push(citation)
+  }
+  return added
+}
+
+/**
+ * Return total number of chunks in the base, or in the documents matching `filters` (to detect an empty base or scope).
+ */
+export async function getChunkCount(filters?: SearchFilters): Promise<number> {
+  const documentIds = await filteredDocumentIds(filters)
+  if (documentIds.length === 0) return 0
   const { count, error } = await supabase
     .from('cdc_chunks')
     .select('id', { count: 'exact', head: true })
+    .in('document_id', documentIds)
   if (error) {
     console.error('getChunkCount error:', error)
     return 0
@@ -30,10 +194,13 @@ export async function getChunkCount(): Promise<number> {
 /**
  * Fetch recent chunks without full-text filter (fallback when FTS returns nothing).
  */
-export async function getRecentChunks(limit: number = 12): Promise<SearchChunk[]> {
+export async function getRecentChunks(limit: number = 12, filters?: SearchFilters): Promise<SearchChunk[]> {
+  const documentIds = await filteredDocumentIds(filters)
+  if (documentIds.length === 0) return []
   const { data, error } = await supabase
     .from('cdc_chunks')
-    .select('id, document_id, document_name, content, chunk_index')
+    .select('id, document_id, document_name, content, chunk_index, page_start, page_end, heading_path, ocr_confidence')
+    .in('document_id', documentIds)
     .order('document_id', { ascending: true })
     .order('chunk_index', { ascending: true })
     .limit(limit)
@@ -47,6 +214,10 @@ export async function getRecentChunks(limit: number = 12): Promise<SearchChunk[]
     document_name: row.document_name,
     content: row.content,
     chunk_index: row.chunk_index,
+    page_start: row.page_start,
+    page_end: row.page_end,
+    heading_path: row.heading_path,
+    ocr_confidence: row.ocr_confidence,
     rank: 0.5,
   })) as SearchChunk[]
 }
@@ -56,14 +227,19 @@ export async function getRecentChunks(limit: number = 12): Promise<SearchChunk[]
  */
 export async function searchChunks(
   query: string,
-  limit: number = 8
+  limit: number = 8,
+  signal?: AbortSignal,
+  filters?: SearchFilters
 ): Promise<SearchChunk[]> {
   const q = query.trim()
   if (!q) return []
-  const { data, error } = await supabase.rpc('search_cdc_chunks', {
+  let request = supabase.rpc('search_cdc_chunks', {
     query: q,
     match_count: limit,
+    ...filterArgs(filters),
   })
+  if (signal) request = request.abortSignal(signal)
+  const { data, error } = await request
   if (error) {
     console.error('search_cdc_chunks error:', error)
     return []
@@ -72,17 +248,89 @@ export async function searchChunks(
 }
 
 /**
- * Run multiple queries and merge results, deduplicating by chunk id (keep highest rank).
+ * Run a single vector-similarity query against cdc_chunks (cosine over stored embeddings).
+ */
+export async function vectorSearchChunks(
+  query: string,
+  limit: number = 8,
+  signal?: AbortSignal,
+  filters?: SearchFilters
+): Promise<SearchChunk[]> {
+  const q = query.trim()
+  if (!q) return []
+  const embedding = await embedQuery(q)
+  if (!embedding || signal?.aborted) return []
+  let request = supabase.rpc('match_cdc_chunks', {
+    query_embedding: embedding,
+    match_count: limit,
+    ...filterArgs(filters),
+  })
+  if (signal) request = request.abortSignal(signal)
+  const { data, error } = await request
+  if (error) {
+    console.error('match_cdc_chunks error:', error)
+    return []
+  }
+  return (data || []) as SearchChunk[]
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion: score = sum of 1 / (k + position).
+ * The fused score replaces `rank`, so results from different queries stay comparable.
+ */
+export function fuseRankings(lists: SearchChunk[][], k: number = RRF_K): SearchChunk[] {
+  const fused = new Map<string, SearchChunk>()
+  for (const list of lists) {
+    list.forEach((row, position) => {
+      const score = 1 / (k + position + 1)
+      const existing = fused.get(row.id)
+      if (existing) {
+        existing.rank += score
+      } else {
+        fused.set(row.id, { ...row, rank: score })
+      }
+    })
+  }
+  return Array.from(fused.values()).sort((a, b) => b.rank - a.rank)
+}
+
+/**
+ * Run full-text and vector search for one query and fuse both rankings.
+ * Either side may be empty (no lexical match, no embeddings yet); the other still contributes.
+ */
+export async function hybridSearchChunks(
+  query: string,
+  limit: number = 8,
+  signal?: AbortSignal,
+  filters?: SearchFilters
+): Promise<SearchChunk[]> {
+  const q = query.trim()
+  if (!q) return []
+  const [ftsResults, vectorResults] = await Promise.all([
+    searchChunks(q, limit, signal, filters),
+    vectorSearchChunks(q, limit, signal, filters),
+  ])
+  return fuseRankings([ftsResults, vectorResults]).slice(0, limit)
+}
+
+/**
+ * Run multiple queries (hybrid search each, RETRIEVAL_CONCURRENCY at once) and merge results,
+ * deduplicating by chunk id (keep highest rank). `filters` scopes every query.
+ * Once `signal` is aborted the remaining queries are skipped and what was found so far is returned.
  */
 export async function multiQuerySearch(
   queries: string[],
   limitPerQuery: number = 12,
-  totalLimit: number = 50
+  totalLimit: number = 50,
+  signal?: AbortSignal,
+  filters?: SearchFilters
 ): Promise<SearchChunk[]> {
   const seen = new Map<string, SearchChunk>()
-  for (const q of queries) {
-    if (!q.trim()) continue
-    const results = await searchChunks(q.trim(), limitPerQuery)
+  const terms = queries.map((q) => q.trim()).filter(Boolean)
+  const perQuery = await mapWithConcurrency(terms, RETRIEVAL_CONCURRENCY, (q) =>
+    signal?.aborted ? Promise.resolve([]) : hybridSearchChunks(q, limitPerQuery, signal, filters)
+  )
+  for (const results of perQuery) {
     for (const row of results) {
       const existing = seen.get(row.id)
       if (!existing || row.rank > existing.rank) {
@@ -97,11 +345,16 @@ export async function multiQuerySearch(
 
 /**
  * Format retrieved chunks into a single context string for the LLM prompt.
+ * Each extract is labelled with its citation marker, location (page, section) and, for scanned pages,
+ * OCR confidence, registering chunks in `citations` as needed.
  */
-export function buildContext(chunks: SearchChunk[]): string {
+export function buildContext(chunks: SearchChunk[], citations: CitationIndex = createCitationIndex()): string {
   if (chunks.length === 0) return ''
-  const parts = chunks.map((c, i) => {
-    return `### Extrait ${i + 1} (source: ${c.document_name})\n${c.content}`
+  registerCitations(citations, chunks)
+  const parts = chunks.map((c) => {
+    const marker = citations.get(c.id)!.marker
+    const label = [c.document_name, formatChunkLocation(c), formatOcrConfidence(c)].filter(Boolean).join(', ')
+    return `### Extrait [${marker}] (source: ${label})\n${c.content}`
   })
   return '\n---\n## EXTRAITS DE DOCUMENTS (base de connaissances CDC)\n\n' + parts.join('\n\n') + '\n---\n'
 }
@@ -1,4 +1,6 @@
 import Replicate from 'replicate'
+import { LLMError, toLLMError, throwIfAborted, backoffDelay, sleep } from './llm/errors'
+import { fitMessages } from './contextBudget'
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN!,
@@ -32,14 +34,186 @@ export interface GPT5StreamOptions {
   
   /** Optional image inputs for multimodal tasks */
   image_input?: string[]
+
+  /** Replicate models to try in order (defaults to REPLICATE_MODELS or DEFAULT_REPLICATE_MODELS) */
+  models?: string[]
+
+  /** Aborting stops the stream and cancels the running Replicate prediction */
+  signal?: AbortSignal
+
+  /** Called once a model has answered: which one (index in the fallback list) and after how many attempts in total */
+  onServed?: (served: { model: string; fallbackIndex: number; attempts: number }) => void
 }
 
-interface ModelConfig {
-  name: ReplicateModelId
-  input: Record<string, unknown>
+export interface ReplicateModelSpec {
   description: string
+  /** Accepts image_input */
+  vision: boolean
+  /** Upper bound for the completion length the model accepts */
+  maxOutputTokens: number
+  /** Total context window in tokens */
+  contextWindow: number
+  /** Translate generic options into this model's input schema */
+  buildInput: (request: ReplicateInputRequest) => Record<string, unknown>
+}
+
+interface ReplicateInputRequest {
+  messages: ChatMessage[]
+  prompt: string
+  options: GPT5StreamOptions
+}
+
+const DEFAULT_SYSTEM_PROMPT = 'You are ChatCDC, an advanced AI assistant. Provide clear, helpful, and accurate responses. Use markdown formatting when appropriate.'
+
+// Prompt-style input shared by the Llama family and unknown models
+const promptInput = (maxTokens: number) => ({ prompt, options }: ReplicateInputRequest) => ({
+  prompt,
+  system_prompt: options.system_prompt || 'You are ChatCDC, an advanced AI assistant.',
+  max_tokens: Math.min(options.max_completion_tokens || maxTokens, maxTokens),
+  temperature: 0.7,
+})
+
+// Model configurations following Replicate's GPT-5, GPT-4o-mini and Llama 3 specs
+export const REPLICATE_MODEL_SPECS: Record<string, ReplicateModelSpec> = {
+  'openai/gpt-5': {
+    description: "GPT-5 - OpenAI's most capable model for advanced reasoning",
+    vision: true,
+    maxOutputTokens: 128000,
+    contextWindow: 400000,
+    buildInput: ({ messages, options }) => ({
+      messages,
+      system_prompt: options.system_prompt || DEFAULT_SYSTEM_PROMPT,
+      reasoning_effort: options.reasoning_effort || 'medium',
+      verbosity: options.verbosity || 'medium',
+      max_completion_tokens: options.max_completion_tokens || 4096,
+      image_input: options.image_input || [],
+    }),
+  },
+  'openai/gpt-4o-mini': {
+    description: 'GPT-4o-mini - Fast, low-latency OpenAI model',
+    vision: true,
+    maxOutputTokens: 16384,
+    contextWindow: 128000,
+    buildInput: ({ messages, options }) => ({
+      messages,
+      system_prompt: options.system_prompt || DEFAULT_SYSTEM_PROMPT,
+      max_completion_tokens: options.max_completion_tokens || 4096,
+      temperature: 0.7,
+      top_p: 1,
+      image_input: options.image_input || [],
+    }),
+  },
+  'meta/meta-llama-3-70b-instruct': {
+    description: "Llama 3 70B - Meta's powerful open model",
+    vision: false,
+    maxOutputTokens: 2048,
+    contextWindow: 8192,
+    buildInput: promptInput(2048),
+  },
+  'meta/meta-llama-3-8b-instruct': {
+    description: 'Llama 3 8B - small and fast, good for short utility prompts',
+    vision: false,
+    maxOutputTokens: 2048,
+    contextWindow: 8192,
+    buildInput: promptInput(2048),
+  },
+}
+
+export const DEFAULT_REPLICATE_MODELS = ['openai/gpt-5', 'openai/gpt-4o-mini', 'meta/meta-llama-3-70b-instruct']
+
+/**
+ * Spec for a Replicate model; unknown models get a conservative prompt-style spec.
+ */
+export function getReplicateModelSpec(model: string): ReplicateModelSpec {
+  return REPLICATE_MODEL_SPECS[model] ?? {
+    description: model,
+    vision: false,
+    maxOutputTokens: 2048,
+    contextWindow: 8192,
+    buildInput: promptInput(2048),
+  }
+}
+
+/**
+ * Models to try, in order: explicit list, then the REPLICATE_MODELS env (comma-separated), then the defaults.
+ */
+export function resolveReplicateModels(models?: string[]): string[] {
+  if (models && models.length > 0) return models
+  const fromEnv = (process.env.REPLICATE_MODELS || '').split(',').map((m) => m.trim()).filter(Boolean)
+  return fromEnv.length > 0 ? fromEnv : DEFAULT_REPLICATE_MODELS
+}
+
+/**
+ * Create a streaming prediction and yield its output events. Unlike replicate.stream(), the prediction id
+ * is kept so that aborting `signal` also cancels the prediction instead of letting it run to completion.
+ */
+async function* streamPrediction(
+  model: ReplicateModelId,
+  input: Record<string, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<string, void, unknown> {
+  const [name, version] = model.split(':')
+  const prediction = await replicate.predictions.create(
+    version ? { version, input, stream: true } : { model: name, input, stream: true }
+  )
+  if (!prediction.urls?.stream) throw new Error(`Model ${model} does not support streaming`)
+
+  let finished = false
+  const cancel = () => {
+    if (finished) return
+    finished = true
+    replicate.predictions.cancel(prediction.id).catch((err) => console.error('Could not cancel prediction:', err))
+  }
+  if (signal?.aborted) cancel()
+  signal?.addEventListener('abort', cancel, { once: true })
+  try {
+    throwIfAborted(signal)
+    const res = await fetch(prediction.urls.stream, { headers: { Accept: 'text/event-stream' }, signal })
+    if (!res.ok || !res.body) throw Object.assign(new Error(`Stream request failed (${res.status})`), { status: res.status })
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let event = ''
+    let data: string[] = []
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        finished = true
+        return
+      }
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const raw of lines) {
+        const line = raw.replace(/\r$/, '')
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+        else if (line === '') {
+          // Blank line: dispatch the event
+          const payload = data.join('\n')
+          if (event === 'output' && payload) yield payload
+          else if (event === 'error' || event === 'done') {
+            finished = true
+            if (event === 'error') throw new Error(payload || 'Prediction failed')
+            return
+          }
+          event = ''
+          data = []
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+    // Consumer stopped early (or the stream broke): do not leave the prediction running
+    cancel()
+  }
 }
 
+/**
+ * Stream a completion, falling back through the configured models.
+ * Throws an LLMError when no model could answer (never yields an apology as model output).
+ */
 export async function* streamGPT5(
   messages: ChatMessage[],
   options: GPT5StreamOptions = {}
@@ -56,100 +230,65 @@ export async function* streamGPT5(
   }))
 
   // Build prompt from messages if needed (for models that use prompt instead of messages)
-  const promptFromMessages = formattedMessages
+  const toPrompt = (msgs: ChatMessage[]) => msgs
     .map(m => `${m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System'}: ${m.content}`)
     .join('\n\n') + '\n\nAssistant:'
 
-  // Get the last user message for simple prompt
-  const lastUserMessage = [...messages].reverse().find(m => m.role === 'user')?.content || ''
-
-  // Model configurations following Replicate's GPT-5 and GPT-4o-mini specs
-  const modelFallbackList: ModelConfig[] = [
-    { 
-      // Primary: GPT-5 - OpenAI's most capable model
-      name: "openai/gpt-5" as ReplicateModelId, 
-      input: {
-        messages: formattedMessages,
-        system_prompt: options.system_prompt || 'You are ChatCDC, an advanced AI assistant. Provide clear, helpful, and accurate responses. Use markdown formatting when appropriate.',
-        reasoning_effort: options.reasoning_effort || 'medium',
-        verbosity: options.verbosity || 'medium',
-        max_completion_tokens: options.max_completion_tokens || 4096,
-        image_input: options.image_input || [],
-      },
-      description: "GPT-5 - OpenAI's most capable model for advanced reasoning"
-    },
-    { 
-      // Fallback: GPT-4o-mini - Fast and cost-effective
-      name: "openai/gpt-4o-mini" as ReplicateModelId, 
-      input: {
-        messages: formattedMessages,
-        system_prompt: options.system_prompt || 'You are ChatCDC, an advanced AI assistant. Provide clear, helpful, and accurate responses. Use markdown formatting when appropriate.',
-        max_completion_tokens: options.max_completion_tokens || 4096,
-        temperature: 0.7,
-        top_p: 1,
-        image_input: options.image_input || [],
-      },
-      description: "GPT-4o-mini - Fast, low-latency OpenAI model"
-    },
-    { 
-      // Secondary fallback: Meta Llama
-      name: "meta/meta-llama-3-70b-instruct" as ReplicateModelId, 
-      input: { 
-        prompt: promptFromMessages,
-        system_prompt: options.system_prompt || 'You are ChatCDC, an advanced AI assistant.',
-        max_tokens: Math.min(options.max_completion_tokens || 2048, 2048),
-        temperature: 0.7,
-      },
-      description: "Llama 3 70B - Meta's powerful open model"
-    },
-  ]
-
-  // Attempt models with comprehensive error handling
-  for (const model of modelFallbackList) {
-    try {
-      console.log(`Attempting model: ${model.name} - ${model.description}`)
-      console.log('Input:', JSON.stringify(model.input, null, 2))
-      
-      const stream = replicate.stream(model.name, { input: model.input })
+  // The prompt was packed for the first model's window: a fallback with a smaller one gets it refitted
+  const modelFallbackList = resolveReplicateModels(options.models).map((name) => {
+    const spec = getReplicateModelSpec(name)
+    const fit = fitMessages(formattedMessages, options.system_prompt ?? '', spec, options.max_completion_tokens || 4096)
+    if (fit.fitted) console.log(`Prompt refitted to the ${spec.contextWindow}-token window of ${name}`)
+    const modelOptions = fit.fitted ? { ...options, max_completion_tokens: fit.outputTokens } : options
+    return {
+      name: name as ReplicateModelId,
+      description: spec.description,
+      input: spec.buildInput({ messages: fit.messages, prompt: toPrompt(fit.messages), options: modelOptions }),
+    }
+  })
+
+  const maxRetries = Math.max(0, Number(process.env.REPLICATE_MAX_RETRIES ?? 2))
+  let lastError: LLMError | null = null
+  let attempts = 0
+
+  // Try each model in order; retry transient failures on the same model with backoff
+  for (let fallbackIndex = 0; fallbackIndex < modelFallbackList.length; fallbackIndex++) {
+    const model = modelFallbackList[fallbackIndex]
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
       let hasYielded = false
-      
-      for await (const event of stream) {
-        // Handle different event types from Replicate
-        if (typeof event === 'string') {
+      attempts++
+      try {
+        console.log(`Attempting model: ${model.name} - ${model.description}${attempt > 0 ? ` (retry ${attempt})` : ''}`)
+        console.log('Input:', JSON.stringify(model.input, null, 2))
+
+        for await (const text of streamPrediction(model.name, model.input, options.signal)) {
           hasYielded = true
-          yield event
-        } else if (event && typeof event === 'object') {
-          if ('data' in event && typeof event.data === 'string') {
-            hasYielded = true
-            yield event.data
-          } else if ('content' in event && typeof event.content === 'string') {
-            hasYielded = true
-            yield event.content
-          }
+          yield text
         }
+
+        if (hasYielded) {
+          console.log(`Successfully used model: ${model.name}`)
+          options.onServed?.({ model: model.name, fallbackIndex, attempts })
+          return
+        }
+        throw new LLMError('model_unavailable', `Model ${model.name} returned no output.`, { model: model.name })
+      } catch (modelError) {
+        if (options.signal?.aborted) throw new LLMError('aborted', undefined, { model: model.name })
+        const error = toLLMError(modelError, model.name)
+        console.error(`Model ${model.name} failed (${error.kind}):`, error.message)
+        // Part of the answer is already out: retrying or switching model would duplicate it
+        if (hasYielded) throw error
+        // Same token and same prompt for every model: no point trying the others
+        if (error.kind === 'auth' || error.kind === 'content_filter') throw error
+        lastError = error
+        if (!error.retryable || attempt === maxRetries) break
+        await sleep(backoffDelay(attempt))
+        throwIfAborted(options.signal)
       }
-      
-      if (hasYielded) {
-        console.log(`Successfully used model: ${model.name}`)
-        return
-      }
-    } catch (modelError) {
-      console.error(`Model ${model.name} failed:`, modelError)
-      
-      if (modelError instanceof Error) {
-        console.error('Error details:', {
-          name: modelError.name,
-          message: modelError.message,
-        })
-      }
-      
-      // Continue to next model
-      continue
     }
   }
 
-  // If all models fail, yield an error message
-  yield "I apologize, but I'm currently experiencing technical difficulties. Please try again in a moment."
+  throw lastError ?? new LLMError('model_unavailable')
 }
 
 export default replicate
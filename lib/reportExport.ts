@@ -0,0 +1,469 @@
+/**
+ * CDC Agent: export a deep-mode report (markdown content + outline + sources) to DOCX and PDF.
+ * The markdown is parsed into a small block model (headings, paragraphs, lists, tables, quotes)
+ * that both renderers consume, so the two formats stay structurally identical.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import type { OutlineSection } from './agentPipeline'
+import type { Citation } from './ragSearch'
+import { formatChunkLocation } from './chunkLocation'
+
+export interface ReportDocument {
+  title: string
+  content: string
+  outline: OutlineSection[]
+  sources?: { doc: string; excerpt: string }[] | null
+  citations?: Citation[] | null
+  createdAt?: string
+}
+
+export type ReportFormat = 'docx' | 'pdf'
+
+export interface ReportRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; runs: ReportRun[] }
+  | { type: 'list'; ordered: boolean; items: ReportRun[][] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'quote'; runs: ReportRun[] }
+
+export interface BibliographyEntry {
+  label: string
+  document: string
+  detail: string
+}
+
+// ---------------------------------------------------------------------------
+// Markdown -> blocks
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse inline markdown into styled runs. Links keep their label, code spans their text.
+ */
+export function parseInline(text: string): ReportRun[] {
+  const cleaned = text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+  const runs: ReportRun[] = []
+  const re = /(\*\*|__)(.+?)\1|(\*|_)(?!\s)(.+?)\3/g
+  let last = 0
+  let m: RegExpExecArray | null
+  while ((m = re.exec(cleaned)) !== null) {
+    if (m.index > last) runs.push({ text: cleaned.slice(last, m.index) })
+    if (m[2] != null) runs.push({ text: m[2], bold: true })
+    else runs.push({ text: m[4], italic: true })
+    last = m.index + m[0].length
+  }
+  if (last < cleaned.length) runs.push({ text: cleaned.slice(last) })
+  return runs.filter((r) => r.text.length > 0)
+}
+
+function plainText(runs: ReportRun[]): string {
+  return runs.map((r) => r.text).join('')
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => plainText(parseInline(cell.trim())))
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/
+
+/**
+ * Parse report markdown into blocks. Handles the subset the agent produces:
+ * ATX headings, paragraphs, bullet/numbered lists, GFM tables and blockquotes.
+ */
+export function parseReportMarkdown(markdown: string): ReportBlock[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+  const blocks: ReportBlock[] = []
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) })
+      paragraph = []
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (!trimmed || /^(-{3,}|\*{3,}|_{3,})$/.test(trimmed) || trimmed.startsWith('```')) {
+      flushParagraph()
+      continue
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/)
+    if (heading) {
+      flushParagraph()
+      blocks.push({ type: 'heading', level: heading[1].length, text: plainText(parseInline(heading[2])) })
+      continue
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      flushParagraph()
+      const header = splitTableRow(trimmed)
+      const rows: string[][] = []
+      i += 2
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        const cells = splitTableRow(lines[i])
+        rows.push(header.map((_, c) => cells[c] ?? ''))
+        i++
+      }
+      i--
+      blocks.push({ type: 'table', header, rows })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      flushParagraph()
+      const ordered = /\d/.test(item[1])
+      const items: ReportRun[][] = [parseInline(item[2])]
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1].match(LIST_ITEM)
+        if (!next || /\d/.test(next[1]) !== ordered) break
+        items.push(parseInline(next[2]))
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    if (trimmed.startsWith('>')) {
+      flushParagraph()
+      const quoted: string[] = [trimmed.replace(/^>\s?/, '')]
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('>')) {
+        quoted.push(lines[++i].trim().replace(/^>\s?/, ''))
+      }
+      blocks.push({ type: 'quote', runs: parseInline(quoted.join(' ')) })
+      continue
+    }
+
+    paragraph.push(trimmed)
+  }
+  flushParagraph()
+  return blocks
+}
+
+/**
+ * Bibliography: one entry per citation marker used in the content, or, for reports
+ * produced without citations, one entry per source document.
+ */
+export function buildBibliography(report: ReportDocument): BibliographyEntry[] {
+  const citations = report.citations ?? []
+  if (citations.length > 0) {
+    const used = new Set<number>()
+    const re = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g
+    let m: RegExpExecArray | null
+    while ((m = re.exec(report.content)) !== null) {
+      m[1].split(/[,;]/).forEach((n) => used.add(parseInt(n.trim(), 10)))
+    }
+    return citations
+      .filter((c) => used.has(c.marker))
+      .sort((a, b) => a.marker - b.marker)
+      .map((c) => ({
+        label: `[${c.marker}]`,
+        document: c.document_name,
+        detail: `${formatChunkLocation(c) || `extrait n°${c.chunk_index + 1}`} — « ${c.excerpt.replace(/\s+/g, ' ').slice(0, 200).trim()}${c.excerpt.length > 200 ? '…' : ''} »`,
+      }))
+  }
+  const docs = new Map<string, number>()
+  for (const s of report.sources ?? []) docs.set(s.doc, (docs.get(s.doc) ?? 0) + 1)
+  return Array.from(docs.entries()).map(([doc, count], i) => ({
+    label: `${i + 1}.`,
+    document: doc,
+    detail: `${count} extrait(s) consulté(s)`,
+  }))
+}
+
+function formatDate(iso?: string): string {
+  const date = iso ? new Date(iso) : new Date()
+  return date.toLocaleDateString('fr-FR', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+/**
+ * File name for the exported report (ASCII only, safe for Content-Disposition).
+ */
+export function reportFileName(title: string, format: ReportFormat): string {
+  const base = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${base || 'rapport-cdc'}.${format}`
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+]
+
+function docxRuns(runs: ReportRun[]): TextRun[] {
+  return runs.map((r) => new TextRun({ text: r.text, bold: r.bold, italics: r.italic }))
+}
+
+function docxTable(header: string[], rows: string[][]): Table {
+  const border = { style: BorderStyle.SINGLE, size: 4, color: '999999' }
+  const cell = (text: string, bold: boolean) =>
+    new TableCell({
+      borders: { top: border, bottom: border, left: border, right: border },
+      children: [new Paragraph({ children: [new TextRun({ text, bold })] })],
+    })
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: header.map((h) => cell(h, true)) }),
+      ...rows.map((row) => new TableRow({ children: row.map((c) => cell(c, false)) })),
+    ],
+  })
+}
+
+export async function renderReportDocx(report: ReportDocument): Promise<Buffer> {
+  const blocks = parseReportMarkdown(report.content)
+  const bibliography = buildBibliography(report)
+  let orderedListInstance = 0
+
+  const titlePage = [
+    new Paragraph({ spacing: { before: 3000 }, alignment: AlignmentType.CENTER, heading: HeadingLevel.TITLE, text: report.title }),
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: 'Rapport — Agent CDC', italics: true })] }),
+    new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(formatDate(report.createdAt))] }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ]
+
+  const toc = [
+    new Paragraph({ heading: HeadingLevel.HEADING_1, text: 'Sommaire' }),
+    ...report.outline.map(
+      (s, i) => new Paragraph({ spacing: { after: 80 }, children: [new TextRun(`${i + 1}. ${s.title}`)] })
+    ),
+    ...(bibliography.length > 0
+      ? [new Paragraph({ spacing: { after: 80 }, children: [new TextRun('Bibliographie')] })]
+      : []),
+    new Paragraph({ children: [new PageBreak()] }),
+  ]
+
+  const body: (Paragraph | Table)[] = []
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      body.push(new Paragraph({ heading: DOCX_HEADINGS[Math.min(block.level, 6) - 1], text: block.text }))
+    } else if (block.type === 'paragraph') {
+      body.push(new Paragraph({ spacing: { after: 120 }, children: docxRuns(block.runs) }))
+    } else if (block.type === 'quote') {
+      body.push(new Paragraph({ indent: { left: 720 }, children: docxRuns(block.runs.map((r) => ({ ...r, italic: true }))) }))
+    } else if (block.type === 'list') {
+      const instance = orderedListInstance++
+      for (const item of block.items) {
+        body.push(
+          new Paragraph({
+            children: docxRuns(item),
+            ...(block.ordered
+              ? { numbering: { reference: 'report-ordered', level: 0, instance } }
+              : { bullet: { level: 0 } }),
+          })
+        )
+      }
+    } else if (block.type === 'table') {
+      body.push(docxTable(block.header, block.rows))
+      body.push(new Paragraph({ text: '' }))
+    }
+  }
+
+  if (bibliography.length > 0) {
+    body.push(new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, text: 'Bibliographie' }))
+    for (const entry of bibliography) {
+      body.push(
+        new Paragraph({
+          spacing: { after: 120 },
+          children: [
+            new TextRun({ text: `${entry.label} `, bold: true }),
+            new TextRun({ text: entry.document, italics: true }),
+            new TextRun(` — ${entry.detail}`),
+          ],
+        })
+      )
+    }
+  }
+
+  const doc = new Document({
+    title: report.title,
+    creator: 'Agent CDC',
+    numbering: {
+      config: [
+        {
+          reference: 'report-ordered',
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }],
+        },
+      ],
+    },
+    sections: [{ children: [...titlePage, ...toc, ...body] }],
+  })
+  return Packer.toBuffer(doc)
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const PDF_MARGIN = 60
+const PDF_HEADING_SIZES = [22, 17, 14, 12, 11, 11]
+
+export async function renderReportPdf(report: ReportDocument): Promise<Buffer> {
+  const PDFDocument = (await import('pdfkit')).default
+  const blocks = parseReportMarkdown(report.content)
+  const bibliography = buildBibliography(report)
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PDF_MARGIN,
+    info: { Title: report.title, Author: 'Agent CDC' },
+  })
+  const chunks: Buffer[] = []
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  const width = doc.page.width - PDF_MARGIN * 2
+  const bottom = () => doc.page.height - PDF_MARGIN
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bottom()) doc.addPage()
+  }
+  const writeRuns = (runs: ReportRun[], options: { indent?: number; italic?: boolean } = {}) => {
+    const x = PDF_MARGIN + (options.indent ?? 0)
+    const w = width - (options.indent ?? 0)
+    if (runs.length === 0) return
+    runs.forEach((run, i) => {
+      const italic = run.italic || options.italic
+      doc.font(run.bold ? (italic ? 'Helvetica-BoldOblique' : 'Helvetica-Bold') : italic ? 'Helvetica-Oblique' : 'Helvetica')
+      const runOptions = { width: w, continued: i < runs.length - 1, lineGap: 2 }
+      if (i === 0) doc.text(run.text, x, doc.y, runOptions)
+      else doc.text(run.text, runOptions)
+    })
+    doc.font('Helvetica')
+  }
+
+  // Title page
+  doc.font('Helvetica-Bold').fontSize(26).text(report.title, PDF_MARGIN, 250, { width, align: 'center' })
+  doc.moveDown(1)
+  doc.font('Helvetica-Oblique').fontSize(13).text('Rapport — Agent CDC', { width, align: 'center' })
+  doc.font('Helvetica').fontSize(12).text(formatDate(report.createdAt), { width, align: 'center' })
+
+  // Table of contents
+  doc.addPage()
+  doc.font('Helvetica-Bold').fontSize(PDF_HEADING_SIZES[0]).text('Sommaire', PDF_MARGIN, PDF_MARGIN, { width })
+  doc.moveDown(0.8)
+  doc.font('Helvetica').fontSize(12)
+  report.outline.forEach((s, i) => {
+    ensureSpace(20)
+    doc.text(`${i + 1}. ${s.title}`, PDF_MARGIN, doc.y, { width, lineGap: 4 })
+  })
+  if (bibliography.length > 0) doc.text('Bibliographie', PDF_MARGIN, doc.y, { width, lineGap: 4 })
+
+  // Body
+  doc.addPage()
+  doc.fontSize(11)
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const size = PDF_HEADING_SIZES[Math.min(block.level, 6) - 1]
+      ensureSpace(size * 3)
+      doc.moveDown(0.6)
+      doc.font('Helvetica-Bold').fontSize(size).text(block.text, PDF_MARGIN, doc.y, { width })
+      doc.moveDown(0.3)
+      doc.font('Helvetica').fontSize(11)
+    } else if (block.type === 'paragraph') {
+      ensureSpace(30)
+      writeRuns(block.runs)
+      doc.moveDown(0.5)
+    } else if (block.type === 'quote') {
+      ensureSpace(30)
+      writeRuns(block.runs, { indent: 20, italic: true })
+      doc.moveDown(0.5)
+    } else if (block.type === 'list') {
+      block.items.forEach((item, i) => {
+        ensureSpace(20)
+        const y = doc.y
+        doc.font('Helvetica').text(block.ordered ? `${i + 1}.` : '•', PDF_MARGIN + 6, y, { width: 18 })
+        doc.y = y
+        writeRuns(item, { indent: 24 })
+      })
+      doc.moveDown(0.5)
+    } else if (block.type === 'table') {
+      const columns = Math.max(block.header.length, 1)
+      const colWidth = width / columns
+      const drawRow = (cells: string[], bold: boolean) => {
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9)
+        const height = Math.max(...cells.map((c) => doc.heightOfString(c || ' ', { width: colWidth - 8 }))) + 8
+        if (doc.y + height > bottom()) doc.addPage()
+        const y = doc.y
+        cells.forEach((c, col) => {
+          const x = PDF_MARGIN + col * colWidth
+          doc.rect(x, y, colWidth, height).strokeColor('#999999').lineWidth(0.5).stroke()
+          doc.fillColor('#000000').text(c, x + 4, y + 4, { width: colWidth - 8 })
+        })
+        doc.y = y + height
+      }
+      drawRow(block.header, true)
+      block.rows.forEach((row) => drawRow(row, false))
+      doc.font('Helvetica').fontSize(11)
+      doc.x = PDF_MARGIN
+      doc.moveDown(0.8)
+    }
+  }
+
+  // Bibliography
+  if (bibliography.length > 0) {
+    doc.addPage()
+    doc.font('Helvetica-Bold').fontSize(PDF_HEADING_SIZES[0]).text('Bibliographie', PDF_MARGIN, PDF_MARGIN, { width })
+    doc.moveDown(0.8)
+    doc.fontSize(10)
+    for (const entry of bibliography) {
+      ensureSpace(40)
+      writeRuns([{ text: `${entry.label} `, bold: true }, { text: entry.document, italic: true }, { text: ` — ${entry.detail}` }])
+      doc.moveDown(0.4)
+    }
+  }
+
+  doc.end()
+  return finished
+}
+
+export async function renderReport(report: ReportDocument, format: ReportFormat): Promise<Buffer> {
+  return format === 'pdf' ? renderReportPdf(report) : renderReportDocx(report)
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { enqueueReportJob, claimReportJob, executeReportJob, getReportJob } from './reportJobs'
+import { createAgentSession } from './agentSessions'
+import { installTestHarness, seedCdcDocument, type TestHarness } from './testing'
+
+let harness: TestHarness | null = null
+
+afterEach(() => {
+  harness?.restore()
+  harness = null
+})
+
+async function claimNewJob() {
+  const session = await createAgentSession('user-a', 'Rédige un rapport sur la Caisse')
+  const queued = await enqueueReportJob({ userId: 'user-a', sessionId: session!.id, message: 'Rédige un rapport sur la Caisse' })
+  return (await claimReportJob(queued!.id))!
+}
+
+describe('executeReportJob', () => {
+  it('stores the partial report as stopped when the reader leaves before the end', async () => {
+    harness = installTestHarness({ script: { outline: [{ title: 'Contexte' }, { title: 'Perspectives' }] } })
+    seedCdcDocument(harness.db, 'rapport.pdf', ['Le budget de la Caisse atteint 10 milliards.'])
+    const job = await claimNewJob()
+
+    for await (const event of executeReportJob(job)) {
+      if (event.type === 'content') break
+    }
+
+    const settled = await getReportJob(job.id)
+    expect(settled?.status).toBe('done')
+    const report = harness.db.rows('cdc_agent_messages').find((m) => m.id === settled?.result_message_id)
+    expect(report).toMatchObject({ role: 'assistant', stopped: true })
+  })
+
+  it('fails the job when nothing was written', async () => {
+    harness = installTestHarness()
+    const job = await claimNewJob()
+
+    for await (const event of executeReportJob(job)) {
+      if (event.type === 'status') break
+    }
+
+    expect(await getReportJob(job.id)).toMatchObject({ status: 'failed' })
+  })
+})
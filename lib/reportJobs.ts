@@ -0,0 +1,390 @@
+/**
+ * Deep-report jobs (cdc_report_jobs): a deep request is queued, then claimed and run by a worker —
+ * the request that queued it, a worker draining the queue after its own job, or POST /api/agent/jobs
+ * (cron). Progress is persisted from the pipeline's status events, so a client can follow a job from
+ * any instance and open the finished report later.
+ */
+
+import { supabase } from './supabaseClient'
+import { runPipeline, type SSEEvent, type OutlineSection } from './agentPipeline'
+import { appendAgentMessage, getAgentMessage } from './agentSessions'
+import { getLLMProvider, type LLMProvider } from './llm'
+import { createUsageTracker } from './usage'
+import type { ChatMessage } from './replicate'
+import type { Citation, SearchFilters } from './ragSearch'
+import type { AnswerVerification } from './answerVerification'
+import type { TableQueryResult } from './tableQuery'
+
+export type ReportJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+/** Last `status` event of the running pipeline */
+export type ReportJobProgress = Omit<Extract<SSEEvent, { type: 'status' }>, 'type'>
+
+export interface ReportJob {
+  id: string
+  user_id: string
+  session_id: string
+  message: string
+  /** Conversation before the request, oldest first */
+  history: ChatMessage[]
+  /** Approved outline, when the plan was reviewed first */
+  outline: OutlineSection[] | null
+  /** Run the verification pass on the finished report */
+  verify: boolean
+  /** Scope of the report's searches, when the request was limited to some documents */
+  filters: SearchFilters | null
+  status: ReportJobStatus
+  progress: ReportJobProgress | null
+  /** Stored report (cdc_agent_messages.id) once done */
+  result_message_id: string | null
+  error: string | null
+  attempts: number
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+  updated_at: string
+}
+
+export interface NewReportJob {
+  userId: string
+  sessionId: string
+  message: string
+  history?: ChatMessage[]
+  outline?: OutlineSection[]
+  verify?: boolean
+  filters?: SearchFilters
+}
+
+/** Jobs running at once across workers, to respect provider rate limits */
+const MAX_RUNNING_JOBS = Number(process.env.REPORT_JOB_CONCURRENCY) || 2
+/** A running job not updated for this long is considered abandoned (its worker died) */
+const STALE_JOB_MS = 15 * 60 * 1000
+/** Runs of one job before an abandoned job is marked failed */
+const MAX_ATTEMPTS = 2
+/** Minimum interval between heartbeat updates while content streams */
+const HEARTBEAT_MS = 30 * 1000
+const FOLLOW_POLL_MS = 2000
+
+// Queue a deep report
+export async function enqueueReportJob(job: NewReportJob): Promise<ReportJob | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_report_jobs')
+    .insert({
+      user_id: job.userId,
+      session_id: job.sessionId,
+      message: job.message,
+      history: job.history ?? [],
+      outline: job.outline ?? null,
+      verify: job.verify === true,
+      filters: job.filters ?? null,
+      status: 'queued',
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error queuing report job:', error)
+    return null
+  }
+
+  return data
+}
+
+// Get one job
+export async function getReportJob(jobId: string): Promise<ReportJob | null> {
+  const { data, error } = await supabase
+    .from('cdc_report_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching report job:', error)
+    return null
+  }
+
+  return data
+}
+
+// List a user's jobs, most recent first
+export async function listReportJobs(userId: string, limit: number = 30): Promise<ReportJob[]> {
+  const { data, error } = await supabase
+    .from('cdc_report_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error listing report jobs:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function updateReportJob(jobId: string, patch: Partial<ReportJob>): Promise<void> {
+  const { error } = await supabase
+    .from('cdc_report_jobs')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+  if (error) console.error('Error updating report job:', error)
+}
+
+async function countRunningJobs(): Promise<number> {
+  const { count, error } = await supabase
+    .from('cdc_report_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'running')
+  if (error) {
+    console.error('Error counting running report jobs:', error)
+    return MAX_RUNNING_JOBS
+  }
+  return count ?? 0
+}
+
+/**
+ * Claim a queued job for this worker. The conditional update (status still 'queued') makes the claim
+ * atomic: when two workers race, only one gets the row. Returns null when taken or at the concurrency limit.
+ */
+export async function claimReportJob(jobId: string): Promise<ReportJob | null> {
+  if ((await countRunningJobs()) >= MAX_RUNNING_JOBS) return null
+  const current = await getReportJob(jobId)
+  if (!current || current.status !== 'queued') return null
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('cdc_report_jobs')
+    .update({ status: 'running', started_at: now, updated_at: now, attempts: current.attempts + 1, error: null })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error claiming report job:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Put abandoned running jobs back in the queue, or fail them after MAX_ATTEMPTS runs.
+ */
+async function recoverStaleJobs(): Promise<void> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString()
+  const { data, error } = await supabase
+    .from('cdc_report_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('updated_at', cutoff)
+  if (error) {
+    console.error('Error fetching stale report jobs:', error)
+    return
+  }
+  for (const job of (data || []) as ReportJob[]) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await updateReportJob(job.id, {
+        status: 'failed',
+        error: 'La génération a été interrompue (worker arrêté).',
+        finished_at: new Date().toISOString(),
+      })
+    } else {
+      await updateReportJob(job.id, { status: 'queued', progress: null })
+    }
+  }
+}
+
+export interface ExecuteReportJobOptions {
+  /** Provider for the LLM calls (default: the 'agent' route provider); usage is recorded per job. */
+  llm?: LLMProvider
+  /** Aborting stops the report; the partial report is stored as stopped and the job is done. */
+  signal?: AbortSignal
+}
+
+/**
+ * Run a claimed job: streams the pipeline events (plus `saved`), persists progress and stores the report.
+ * The job always ends done or failed: when the pipeline throws or the consumer stops before `done`, the
+ * partial report is stored as stopped (or the job fails when nothing was written).
+ */
+export async function* executeReportJob(
+  job: ReportJob,
+  options: ExecuteReportJobOptions = {}
+): AsyncGenerator<SSEEvent, void, unknown> {
+  const usage = createUsageTracker({ userId: job.user_id, route: 'agent', sessionId: job.session_id })
+  const llm = usage.wrap(options.llm ?? getLLMProvider('agent'))
+  let content = ''
+  let outline: OutlineSection[] | null = null
+  let sources: { doc: string; excerpt: string }[] | null = null
+  const citations: Citation[] = []
+  let verification: AnswerVerification | null = null
+  let tableResults: TableQueryResult[] | null = null
+  let stopped = false
+  let errorMessage: string | null = null
+  let settled = false
+  let lastBeat = Date.now()
+
+  // Terminal update of the job: the report is stored unless it failed or is empty
+  const settle = async () => {
+    settled = true
+    if (errorMessage || !content.trim()) {
+      await updateReportJob(job.id, {
+        status: 'failed',
+        error: errorMessage ?? 'Le rapport généré est vide.',
+        finished_at: new Date().toISOString(),
+      })
+      return null
+    }
+    const saved = await appendAgentMessage(job.session_id, {
+      role: 'assistant',
+      content: content.trim(),
+      mode: 'deep',
+      outline,
+      sources,
+      citations,
+      stopped,
+      verification,
+      table_results: tableResults,
+      filters: job.filters ?? null,
+    })
+    await updateReportJob(job.id, {
+      status: saved ? 'done' : 'failed',
+      result_message_id: saved?.id ?? null,
+      error: saved ? null : 'Le rapport a été généré mais n’a pas pu être enregistré.',
+      finished_at: new Date().toISOString(),
+    })
+    return saved
+  }
+
+  try {
+    for await (const event of runPipeline(job.message, {
+      forceDeep: true,
+      history: job.history ?? [],
+      outline: job.outline ?? undefined,
+      llm,
+      signal: options.signal,
+      verify: job.verify === true,
+      filters: job.filters ?? undefined,
+    })) {
+      if (event.type === 'content') {
+        content += event.text
+        if (Date.now() - lastBeat > HEARTBEAT_MS) {
+          lastBeat = Date.now()
+          await updateReportJob(job.id, {})
+        }
+      } else if (event.type === 'status') {
+        const { type: _type, ...progress } = event
+        lastBeat = Date.now()
+        await updateReportJob(job.id, { progress })
+      } else if (event.type === 'outline') outline = event.sections
+      else if (event.type === 'sources') sources = event.chunks
+      else if (event.type === 'citations') citations.push(...event.citations)
+      else if (event.type === 'verification') verification = event.verification
+      else if (event.type === 'table_results') tableResults = event.results
+      else if (event.type === 'stopped') stopped = true
+      else if (event.type === 'error') errorMessage = event.message
+      else if (event.type === 'done') {
+        const saved = await settle()
+        if (saved) yield { type: 'saved', messageId: saved.id }
+      }
+      yield event
+    }
+  } catch (err) {
+    console.error('Report job error:', err)
+    errorMessage = 'La génération du rapport a été interrompue par une erreur.'
+    throw err
+  } finally {
+    // Interrupted before `done`: keep what was written rather than leave the job running
+    if (!settled) {
+      stopped = true
+      await settle().catch((err) => console.error('Error settling report job:', err))
+    }
+    await usage.flush()
+  }
+}
+
+/**
+ * Worker loop: recover abandoned jobs, then claim and run queued jobs (oldest first) until the queue
+ * is empty, the concurrency limit is reached or `maxJobs` ran. Returns the number of jobs run.
+ */
+export async function processReportJobs(maxJobs: number = 5): Promise<number> {
+  await recoverStaleJobs()
+  let processed = 0
+  while (processed < maxJobs) {
+    const { data, error } = await supabase
+      .from('cdc_report_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(5)
+    if (error) {
+      console.error('Error fetching queued report jobs:', error)
+      break
+    }
+    let job: ReportJob | null = null
+    for (const row of (data || []) as { id: string }[]) {
+      job = await claimReportJob(row.id)
+      if (job) break
+    }
+    if (!job) break
+    for await (const _event of executeReportJob(job)) {
+      // Drained; progress and the report are persisted by executeReportJob
+    }
+    processed++
+  }
+  return processed
+}
+
+/**
+ * Follow a job run elsewhere by polling its row: yields `status` events as progress changes, then the
+ * stored report as the usual events (outline, sources, citations, content, saved, done), or an error.
+ */
+export async function* followReportJob(jobId: string, signal?: AbortSignal): AsyncGenerator<SSEEvent, void, unknown> {
+  let lastProgress = ''
+  let announcedQueue = false
+  while (!signal?.aborted) {
+    const job = await getReportJob(jobId)
+    if (!job) {
+      yield { type: 'error', message: 'Tâche de rapport introuvable.' }
+      yield { type: 'done' }
+      return
+    }
+    if (job.status === 'queued' && !announcedQueue) {
+      announcedQueue = true
+      yield { type: 'status', phase: 'plan', message: 'Rapport en file d’attente...' }
+    }
+    const progress = JSON.stringify(job.progress ?? null)
+    if (job.progress && progress !== lastProgress) {
+      lastProgress = progress
+      yield { type: 'status', ...job.progress }
+    }
+    if (job.status === 'failed') {
+      yield { type: 'error', message: job.error || 'La génération du rapport a échoué.' }
+      yield { type: 'done' }
+      return
+    }
+    if (job.status === 'done') {
+      const report = job.result_message_id ? await getAgentMessage(job.result_message_id) : null
+      if (report) {
+        if (report.outline) yield { type: 'outline', sections: report.outline }
+        if (report.citations?.length) yield { type: 'citations', citations: report.citations }
+        if (report.table_results?.length) yield { type: 'table_results', results: report.table_results }
+        yield { type: 'content', text: report.content }
+        if (report.sources) yield { type: 'sources', chunks: report.sources }
+        if (report.verification) yield { type: 'verification', verification: report.verification }
+        if (report.stopped) yield { type: 'stopped' }
+        yield { type: 'saved', messageId: report.id }
+      }
+      yield { type: 'done' }
+      return
+    }
+    await new Promise((resolve) => setTimeout(resolve, FOLLOW_POLL_MS))
+  }
+  // Only the worker running the job can stop it; the report stays available in the job list
+  yield { type: 'status', phase: 'generate', message: 'Le rapport continue en arrière-plan.' }
+  yield { type: 'done' }
+}
@@ -0,0 +1,71 @@
+/**
+ * CDC Agent: locate and replace sections inside a deep-mode report.
+ * Reports are streamed as one markdown string where each outline section starts with "## <title>".
+ */
+
+import type { OutlineSection } from './agentPipeline'
+
+export interface ReportSectionRange {
+  index: number
+  title: string
+  /** Offset of the "## " heading line. */
+  start: number
+  /** Offset where the next section (or the end of the report) begins. */
+  end: number
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Find each outline section's heading, in outline order. Sections whose heading is missing are skipped.
+ */
+export function locateReportSections(content: string, outline: OutlineSection[]): ReportSectionRange[] {
+  const found: { index: number; title: string; start: number }[] = []
+  let from = 0
+  outline.forEach((sec, index) => {
+    const re = new RegExp(`(^|\\n)##\\s+${escapeRegExp(sec.title.trim())}\\s*(\\n|$)`, 'g')
+    re.lastIndex = from
+    const m = re.exec(content)
+    if (!m) return
+    const start = m.index + m[1].length
+    found.push({ index, title: sec.title, start })
+    from = start + 1
+  })
+  return found.map((f, i) => ({
+    ...f,
+    end: i + 1 < found.length ? found[i + 1].start : content.length,
+  }))
+}
+
+/**
+ * Return the markdown of one section (heading included), or null if it cannot be located.
+ */
+export function getReportSection(content: string, outline: OutlineSection[], index: number): string | null {
+  const range = locateReportSections(content, outline).find((r) => r.index === index)
+  return range ? content.slice(range.start, range.end).trim() : null
+}
+
+/**
+ * Replace one section with new markdown (heading included). If the section is missing
+ * from the content, it is inserted before the next located section, or appended.
+ */
+export function spliceReportSection(
+  content: string,
+  outline: OutlineSection[],
+  index: number,
+  sectionMarkdown: string
+): string {
+  const ranges = locateReportSections(content, outline)
+  const replacement = sectionMarkdown.trim() + '\n\n'
+  const range = ranges.find((r) => r.index === index)
+  if (range) {
+    return content.slice(0, range.start) + replacement + content.slice(range.end).replace(/^\s+/, '')
+  }
+  const next = ranges.find((r) => r.index > index)
+  if (next) {
+    return content.slice(0, next.start) + replacement + content.slice(next.start)
+  }
+  return content.trimEnd() + '\n\n' + replacement
+}
@@ -0,0 +1,25 @@
+/**
+ * Caller identity for API routes: the Supabase user of the `Authorization: Bearer <access token>`
+ * header, verified with Supabase Auth. Requests without a valid token act as the anonymous user, which
+ * can read the shared knowledge base but not change documents or collections (see collections).
+ */
+
+import { supabase } from './supabaseClient'
+
+/** Fixed UUID for anonymous users */
+export const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Verified user id of the request, or ANONYMOUS_USER_ID.
+ */
+export async function getRequestUserId(request: Request): Promise<string> {
+  const header = request.headers.get('authorization') ?? ''
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+  if (!token) return ANONYMOUS_USER_ID
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) {
+    console.error('Invalid access token:', error)
+    return ANONYMOUS_USER_ID
+  }
+  return data.user.id
+}
@@ -0,0 +1,211 @@
+/**
+ * CDC Agent: reranking of retrieved chunks by relevance to the question (or section) before they are
+ * sent to the model. Fused full-text/vector ranks favour long chunks repeating the query words; the
+ * reranker scores each candidate against the query, then the list is reordered and trimmed.
+ * The reranker is chosen with CDC_RERANKER: 'llm' (default), 'lexical' or 'none'. The LLM scorer
+ * falls back to the lexical one when the model call fails or its reply cannot be parsed.
+ */
+
+import { getLLMProvider, type LLMProvider } from './llm'
+import { mapWithConcurrency } from './concurrency'
+import type { SearchChunk } from './ragSearch'
+
+export interface RerankOptions {
+  /** Provider for the LLM scorer (default: the 'agent' route provider) */
+  llm?: LLMProvider
+  signal?: AbortSignal
+}
+
+export interface Reranker {
+  name: string
+  /** Relevance of each chunk to `query`, from 0 to 1, in input order */
+  score(query: string, chunks: SearchChunk[], options?: RerankOptions): Promise<number[]>
+}
+
+const RERANK_SYSTEM =
+  'Tu évalues la pertinence d\'extraits de documents pour une question. Pour chaque extrait numéroté, donne une note de 0 à 3: 3 = répond directement à la question, 2 = information utile, 1 = lien faible, 0 = hors sujet. Un extrait long qui répète les mots de la question sans y répondre n\'est pas pertinent. Réponds en JSON valide uniquement, avec ce format: {"scores":[{"id":1,"score":2}]}.'
+
+/** Candidates scored per model call */
+const LLM_BATCH_SIZE = 10
+/** Characters of each chunk shown to the LLM scorer */
+const LLM_EXCERPT_CHARS = 600
+/** Candidates considered at most (by fused rank); the rest are dropped */
+const MAX_CANDIDATES = 40
+/** Chunks scoring below this are dropped, as long as `minKeep` chunks remain */
+const MIN_SCORE = 0.1
+
+// BM25 parameters: term frequency saturates (k1) and long chunks are penalized (b)
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Frequent French words that would match almost any chunk
+const STOPWORDS = new Set([
+  'les', 'des', 'une', 'est', 'sont', 'aux', 'dans', 'pour', 'par', 'sur', 'avec', 'que', 'qui', 'quoi',
+  'quel', 'quelle', 'quels', 'quelles', 'ces', 'cette', 'son', 'ses', 'leur', 'leurs', 'pas', 'plus',
+  'comment', 'elle', 'ils', 'nous', 'vous', 'entre', 'fait', 'ete', 'etre',
+])
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 2 && !STOPWORDS.has(t))
+}
+
+/**
+ * Lexical scorer: BM25 over the candidate set, weighted by the share of distinct query terms a chunk
+ * covers. No network call; also the LLM scorer's fallback.
+ */
+export function createLexicalReranker(): Reranker {
+  return {
+    name: 'lexical',
+    score: async (query, chunks) => {
+      const terms = Array.from(new Set(tokenize(query)))
+      if (terms.length === 0 || chunks.length === 0) return chunks.map(() => 0)
+      const docs = chunks.map((c) => tokenize(c.content))
+      const avgLength = docs.reduce((acc, d) => acc + d.length, 0) / docs.length || 1
+      const docFreq = new Map<string, number>()
+      const termCounts = docs.map((doc) => {
+        const counts = new Map<string, number>()
+        for (const token of doc) counts.set(token, (counts.get(token) ?? 0) + 1)
+        counts.forEach((_n, token) => docFreq.set(token, (docFreq.get(token) ?? 0) + 1))
+        return counts
+      })
+      const raw = docs.map((doc, i) => {
+        let bm25 = 0
+        let covered = 0
+        for (const term of terms) {
+          const tf = termCounts[i].get(term) ?? 0
+          if (tf === 0) continue
+          covered++
+          const df = docFreq.get(term) ?? 0
+          const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))
+          bm25 += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength))
+        }
+        return bm25 * (covered / terms.length)
+      })
+      const max = Math.max(...raw)
+      return raw.map((s) => (max > 0 ? s / max : 0))
+    },
+  }
+}
+
+function parseScores(raw: string): Map<number, number> {
+  const scores = new Map<number, number>()
+  const cleaned = raw.slice(raw.indexOf('{'), raw.lastIndexOf('}') + 1)
+  try {
+    const parsed = JSON.parse(cleaned) as { scores?: { id?: unknown; score?: unknown }[] }
+    for (const s of parsed.scores ?? []) {
+      if (typeof s.id === 'number' && typeof s.score === 'number' && Number.isFinite(s.score)) {
+        scores.set(s.id, Math.min(Math.max(s.score, 0), 3) / 3)
+      }
+    }
+  } catch {
+    // Unparseable reply: handled as missing scores
+  }
+  return scores
+}
+
+/**
+ * LLM scorer: the model grades each candidate 0-3 in batches. Chunks the reply leaves out keep their
+ * lexical score; a batch whose reply has no usable score throws so the caller can fall back.
+ */
+export function createLLMReranker(): Reranker {
+  const lexical = createLexicalReranker()
+  return {
+    name: 'llm',
+    score: async (query, chunks, options = {}) => {
+      const llm = options.llm ?? getLLMProvider('agent')
+      const fallback = await lexical.score(query, chunks)
+      const batches: number[][] = []
+      for (let i = 0; i < chunks.length; i += LLM_BATCH_SIZE) {
+        batches.push(chunks.slice(i, i + LLM_BATCH_SIZE).map((_c, j) => i + j))
+      }
+      const perBatch = await mapWithConcurrency(batches, 2, async (batch) => {
+        const extracts = batch
+          .map((index, j) => `[${j + 1}] (source: ${chunks[index].document_name})\n${chunks[index].content.slice(0, LLM_EXCERPT_CHARS)}`)
+          .join('\n\n')
+        const raw = await llm.complete(
+          [{ role: 'user', content: `## QUESTION\n\n${query}\n\n## EXTRAITS\n\n${extracts}` }],
+          {
+            signal: options.signal,
+            system_prompt: RERANK_SYSTEM,
+            max_completion_tokens: 400,
+            verbosity: 'low',
+            reasoning_effort: 'minimal',
+          }
+        )
+        const scores = parseScores(raw)
+        if (scores.size === 0) throw new Error('Reranker reply has no usable score')
+        return scores
+      })
+      const result = [...fallback]
+      batches.forEach((batch, b) => {
+        batch.forEach((index, j) => {
+          const score = perBatch[b].get(j + 1)
+          // The lexical score only breaks ties between chunks the model graded the same
+          if (score != null) result[index] = score * 0.9 + fallback[index] * 0.1
+        })
+      })
+      return result
+    },
+  }
+}
+
+let _reranker: Reranker | null | undefined
+
+/**
+ * Return the configured reranker (created lazily from env), or null when reranking is disabled.
+ */
+export function getReranker(): Reranker | null {
+  if (_reranker === undefined) {
+    const kind = process.env.CDC_RERANKER
+    _reranker = kind === 'none' ? null : kind === 'lexical' ? createLexicalReranker() : createLLMReranker()
+  }
+  return _reranker
+}
+
+/**
+ * Override the reranker (tests, scripts). Pass null to disable reranking, undefined to go back to the env default.
+ */
+export function setReranker(reranker: Reranker | null | undefined): void {
+  _reranker = reranker
+}
+
+export interface RerankChunksOptions extends RerankOptions {
+  /** Chunks kept after reranking */
+  limit: number
+  /** Never trim below this many chunks for low scores (default 3) */
+  minKeep?: number
+}
+
+/**
+ * Reorder `chunks` by relevance to `query` and keep the best `limit`; `rank` becomes the rerank score.
+ * Without a reranker the fused order is kept. A failing reranker falls back to lexical scoring;
+ * cancellation propagates.
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: SearchChunk[],
+  options: RerankChunksOptions
+): Promise<SearchChunk[]> {
+  const reranker = getReranker()
+  if (!reranker || chunks.length === 0) return chunks.slice(0, options.limit)
+  const candidates = chunks.slice(0, MAX_CANDIDATES)
+  let scores: number[]
+  try {
+    scores = await reranker.score(query, candidates, options)
+  } catch (err) {
+    if (options.signal?.aborted) throw err
+    console.error(`Reranker ${reranker.name} failed, using lexical scores:`, err)
+    scores = await createLexicalReranker().score(query, candidates)
+  }
+  const ranked = candidates
+    .map((chunk, position) => ({ chunk, position, score: scores[position] ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+  const minKeep = Math.min(options.minKeep ?? 3, options.limit)
+  const kept = ranked.filter((r, i) => i < minKeep || r.score >= MIN_SCORE)
+  return kept.slice(0, options.limit).map((r) => ({ ...r.chunk, rank: r.score }))
+}
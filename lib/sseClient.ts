@@ -0,0 +1,32 @@
+/**
+ * Browser helper: read a `data: <json>` server-sent event stream from a fetch Response.
+ * `id:` lines (resumable streams) are passed along with the event they precede.
+ */
+export async function readSSEStream<T>(res: Response, onEvent: (event: T, id?: string) => void): Promise<void> {
+  const reader = res.body?.getReader()
+  if (!reader) return
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let id: string | undefined
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.startsWith('id: ')) {
+        id = line.slice(4).trim()
+        continue
+      }
+      if (!line.startsWith('data: ')) continue
+      let event: T
+      try {
+        event = JSON.parse(line.slice(6)) as T
+      } catch {
+        continue
+      }
+      onEvent(event, id)
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { startStreamJob, keepStreamJobAlive, streamJobResponse, getStreamJob, cancelStreamJob } from './streamJobs'
+
+// A job emitting one event, then waiting until aborted
+function startIdleJob() {
+  const state = { aborted: false }
+  const job = startStreamJob<string>('user-a', async function* (signal) {
+    yield 'started'
+    if (!signal.aborted) await new Promise<void>((resolve) => signal.addEventListener('abort', () => resolve()))
+    state.aborted = true
+    yield 'stopped'
+  })
+  return { job, state }
+}
+
+describe('stream jobs without listeners', () => {
+  beforeEach(() => vi.useFakeTimers())
+  afterEach(() => vi.useRealTimers())
+
+  it('aborts a job nobody listens to after the grace period', async () => {
+    const { job, state } = startIdleJob()
+    await vi.advanceTimersByTimeAsync(30 * 1000)
+    expect(job.controller.signal.aborted).toBe(false)
+    await vi.advanceTimersByTimeAsync(20 * 1000)
+    expect(state.aborted).toBe(true)
+    expect(job.finished).toBe(true)
+  })
+
+  it('keeps a job running while a client follows it, and after it leaves until the grace period ends', async () => {
+    const { job } = startIdleJob()
+    const res = streamJobResponse(job)
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000)
+    expect(job.controller.signal.aborted).toBe(false)
+
+    await res.body?.cancel()
+    await vi.advanceTimersByTimeAsync(30 * 1000)
+    expect(job.controller.signal.aborted).toBe(false)
+    await vi.advanceTimersByTimeAsync(20 * 1000)
+    expect(job.controller.signal.aborted).toBe(true)
+  })
+
+  it('lets a job kept alive run without listeners', async () => {
+    const { job } = startIdleJob()
+    keepStreamJobAlive(job.id)
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000)
+    expect(job.controller.signal.aborted).toBe(false)
+    job.controller.abort()
+  })
+
+  it('forgets a finished job once its retention period is over', async () => {
+    const { job } = startIdleJob()
+    job.controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(getStreamJob(job.id, 'user-a')).not.toBeNull()
+    await vi.advanceTimersByTimeAsync(11 * 60 * 1000)
+    expect(getStreamJob(job.id, 'user-a')).toBeNull()
+  })
+})
+
+describe('stream job owner', () => {
+  it('does not let another user replay or stop a job', () => {
+    const { job } = startIdleJob()
+    expect(getStreamJob(job.id, 'user-b')).toBeNull()
+    expect(cancelStreamJob(job.id, 'user-b')).toBe(false)
+    expect(job.controller.signal.aborted).toBe(false)
+    expect(cancelStreamJob(job.id, 'user-a')).toBe(true)
+  })
+})
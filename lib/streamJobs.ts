@@ -0,0 +1,218 @@
+/**
+ * Resumable SSE streams: a long generation runs as a server-side job, detached from the HTTP
+ * request that started it. Every event gets a sequence number and is buffered, so a client whose
+ * connection dropped reconnects with `Last-Event-ID` and replays what it missed.
+ * A job nobody listens to for ORPHAN_GRACE_MS (tab closed, not just a dropped connection) is aborted,
+ * unless kept alive (keepStreamJobAlive). A job belongs to the user who started it: only they can
+ * replay or stop it. Jobs live in this server process; a reconnect must reach the same instance.
+ */
+
+export interface StreamJobEvent<E> {
+  /** Sequence number, from 1; sent as the SSE `id:` */
+  seq: number
+  event: E
+}
+
+export interface StreamJob<E> {
+  id: string
+  /** Verified user who started the job (see getRequestUserId) */
+  userId: string
+  events: StreamJobEvent<E>[]
+  finished: boolean
+  createdAt: number
+  finishedAt: number | null
+  /** Aborted by cancelStreamJob (Stop button), or once the job has had no listener for ORPHAN_GRACE_MS */
+  controller: AbortController
+  listeners: Set<(event: StreamJobEvent<E> | null) => void>
+  /** The job runs to the end without listeners (see keepStreamJobAlive) */
+  keepAlive: boolean
+  orphanTimer: ReturnType<typeof setTimeout> | null
+}
+
+/** How long a finished job stays replayable */
+const JOB_RETENTION_MS = 10 * 60 * 1000
+/** Comment line sent on idle connections so proxies do not close them */
+const HEARTBEAT_MS = 15 * 1000
+/** How long a running job waits for a client to reconnect before it is aborted */
+const ORPHAN_GRACE_MS = 45 * 1000
+
+const jobs = new Map<string, StreamJob<unknown>>()
+
+// Timers that must not keep the process alive on their own
+function unref(timer: ReturnType<typeof setTimeout>) {
+  ;(timer as { unref?: () => void }).unref?.()
+  return timer
+}
+
+// Start the grace period when the last listener leaves, cancel it when one (re)attaches
+function watchListeners(job: StreamJob<unknown>) {
+  if (job.finished || job.keepAlive || job.listeners.size > 0) {
+    if (job.orphanTimer) clearTimeout(job.orphanTimer)
+    job.orphanTimer = null
+    return
+  }
+  if (job.orphanTimer) return
+  job.orphanTimer = unref(
+    setTimeout(() => {
+      job.orphanTimer = null
+      if (job.finished || job.keepAlive || job.listeners.size > 0) return
+      console.warn(`Stream job ${job.id} has had no listener for ${ORPHAN_GRACE_MS / 1000}s; aborting it`)
+      job.controller.abort()
+    }, ORPHAN_GRACE_MS)
+  )
+}
+
+function pruneJobs() {
+  const now = Date.now()
+  jobs.forEach((job, id) => {
+    if (job.finishedAt != null && now - job.finishedAt > JOB_RETENTION_MS) jobs.delete(id)
+  })
+}
+
+/**
+ * Start a job for `userId` consuming `run`; its events are buffered until the job has been finished for
+ * JOB_RETENTION_MS.
+ */
+export function startStreamJob<E>(
+  userId: string,
+  run: (signal: AbortSignal, jobId: string) => AsyncIterable<E>
+): StreamJob<E> {
+  pruneJobs()
+  const job: StreamJob<E> = {
+    id: crypto.randomUUID(),
+    userId,
+    events: [],
+    finished: false,
+    createdAt: Date.now(),
+    finishedAt: null,
+    controller: new AbortController(),
+    listeners: new Set(),
+    keepAlive: false,
+    orphanTimer: null,
+  }
+  jobs.set(job.id, job as StreamJob<unknown>)
+  watchListeners(job as StreamJob<unknown>)
+
+  const consume = async () => {
+    try {
+      for await (const event of run(job.controller.signal, job.id)) {
+        const entry = { seq: job.events.length + 1, event }
+        job.events.push(entry)
+        job.listeners.forEach((listener) => listener(entry))
+      }
+    } catch (err) {
+      console.error('Stream job error:', err)
+    } finally {
+      job.finished = true
+      job.finishedAt = Date.now()
+      job.listeners.forEach((listener) => listener(null))
+      job.listeners.clear()
+      watchListeners(job as StreamJob<unknown>)
+      unref(setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS))
+    }
+  }
+  void consume()
+
+  return job
+}
+
+/**
+ * A job started by `userId`; another user's job is reported as missing.
+ */
+export function getStreamJob<E>(jobId: string, userId: string): StreamJob<E> | null {
+  pruneJobs()
+  const job = jobs.get(jobId) as StreamJob<E> | undefined
+  return job && job.userId === userId ? job : null
+}
+
+/**
+ * Let a job run to the end without listeners, e.g. a persisted deep report the user opens later.
+ * cancelStreamJob still stops it.
+ */
+export function keepStreamJobAlive(jobId: string): void {
+  const job = jobs.get(jobId)
+  if (!job) return
+  job.keepAlive = true
+  watchListeners(job)
+}
+
+/**
+ * Abort a running job started by `userId`; it still emits its final events (e.g. `stopped`, `done`).
+ */
+export function cancelStreamJob(jobId: string, userId: string): boolean {
+  const job = jobs.get(jobId)
+  if (!job || job.userId !== userId || job.finished) return false
+  job.controller.abort()
+  return true
+}
+
+/**
+ * Read the sequence number to resume after, from the `Last-Event-ID` header or a `lastEventId` query param.
+ */
+export function getLastEventId(request: Request): number {
+  const raw = request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId')
+  const seq = raw ? parseInt(raw, 10) : 0
+  return Number.isFinite(seq) && seq > 0 ? seq : 0
+}
+
+/**
+ * SSE response for a job: replays buffered events after `afterSeq`, then follows live events until the job ends.
+ * Closing the response only detaches this reader; the job keeps running for ORPHAN_GRACE_MS without one.
+ */
+export function streamJobResponse<E>(job: StreamJob<E>, afterSeq: number = 0): Response {
+  const encoder = new TextEncoder()
+  let detach = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text))
+          return true
+        } catch {
+          // Client already gone
+          return false
+        }
+      }
+      const send = ({ seq, event }: StreamJobEvent<E>) => write(`id: ${seq}\ndata: ${JSON.stringify(event)}\n\n`)
+      const heartbeat = setInterval(() => {
+        if (!write(': ping\n\n')) detach()
+      }, HEARTBEAT_MS)
+      const listener = (entry: StreamJobEvent<E> | null) => {
+        if (entry) {
+          if (entry.seq > afterSeq) send(entry)
+          return
+        }
+        detach()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+      detach = () => {
+        clearInterval(heartbeat)
+        job.listeners.delete(listener)
+        watchListeners(job as StreamJob<unknown>)
+      }
+
+      job.events.filter((entry) => entry.seq > afterSeq).forEach(send)
+      if (job.finished) listener(null)
+      else {
+        job.listeners.add(listener)
+        watchListeners(job as StreamJob<unknown>)
+      }
+    },
+    cancel() {
+      detach()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
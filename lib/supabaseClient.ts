@@ -3,8 +3,18 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
 let _browserClient: SupabaseClient | null = null
 let _serverClient: SupabaseClient | null = null
+let _override: SupabaseClient | null = null
+
+/**
+ * Replace the client behind the `supabase` proxy (e.g. the in-memory stand-in used by tests).
+ * Pass null to go back to the real client.
+ */
+export function setSupabaseClient(client: SupabaseClient | null): void {
+  _override = client
+}
 
 function getClient(): SupabaseClient {
+  if (_override) return _override
   if (typeof window !== 'undefined') {
     if (!_browserClient) {
       _browserClient = createBrowserClient(
@@ -15,9 +25,12 @@ function getClient(): SupabaseClient {
     return _browserClient
   }
   if (!_serverClient) {
+    // The service role bypasses RLS: API routes check collection roles themselves (see lib/collections).
+    // Without it, RLS-protected tables (cdc_documents, cdc_chunks...) are not readable from the server.
     _serverClient = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: false } }
     )
   }
   return _serverClient
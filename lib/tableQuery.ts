@@ -0,0 +1,452 @@
+/**
+ * CDC Agent: questions on tabular documents ("total des encours par région en 2023"). The model turns
+ * the question into queries over the tables in scope — filters, grouping, aggregates, sort — from their
+ * schema only (see dataTables); the queries run here on the stored rows, so the figures of the answer are
+ * computed instead of read or added up by the model. Each result states the operation performed.
+ */
+
+import type { LLMProvider } from './llm'
+import {
+  getDataTable,
+  parseCellValue,
+  type CellValue,
+  type ColumnType,
+  type DataTableSchema,
+  type StoredDataTable,
+  type TableColumn,
+} from './dataTables'
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'in'
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count'
+
+export interface TableFilter {
+  column: string
+  op: FilterOperator
+  /** A list for 'in'; a partial date ("2023", "2023-03") matches the dates it starts with */
+  value: CellValue | CellValue[]
+}
+
+export interface TableAggregate {
+  fn: AggregateFunction
+  /** Column aggregated; count without a column counts rows */
+  column?: string
+}
+
+export interface TableQuery {
+  /** cdc_document_tables id */
+  table_id: string
+  filters: TableFilter[]
+  group_by: string[]
+  aggregates: TableAggregate[]
+  /** Columns returned when nothing is aggregated (default: all) */
+  columns?: string[]
+  /** Sort on a column, or on an aggregate when `fn` is set */
+  order_by?: { column?: string; fn?: AggregateFunction; direction: 'asc' | 'desc' }
+  limit?: number
+}
+
+export interface TableQueryResult {
+  table_id: string
+  document_id: string
+  document_name: string
+  table_name: string
+  /** Operation performed, in French ("Somme de Montant par Région ; filtre : Année = 2023") */
+  operation: string
+  query: TableQuery
+  columns: TableColumn[]
+  rows: CellValue[][]
+  /** Rows of the table matching the filters */
+  matched_rows: number
+  /** The result had more rows than returned */
+  truncated: boolean
+}
+
+const TABLE_QUERY_SYSTEM =
+  'Tu traduis une question en requêtes sur des tableaux de données. Tu reçois les tableaux disponibles (identifiant, document, colonnes avec leur type et, pour certaines, leurs valeurs). Si la réponse demande des chiffres que ces tableaux permettent de calculer (total, moyenne, comptage, minimum, maximum, classement, liste filtrée, comparaison), écris une à trois requêtes ; sinon réponds {"queries":[]}. Utilise uniquement les identifiants de tableaux et les noms de colonnes fournis, et les valeurs telles qu\'elles sont listées. Opérateurs de filtre : =, !=, >, >=, <, <=, contains, in (liste de valeurs). Agrégats : sum, avg, min, max, count (sans colonne pour compter les lignes). Dates au format AAAA-MM-JJ ; "2023" désigne toute l\'année. Réponds en JSON valide uniquement, avec ce format: {"queries":[{"table":"T1","filters":[{"column":"...","op":"=","value":"..."}],"group_by":["..."],"aggregates":[{"fn":"sum","column":"..."}],"order_by":{"column":"...","fn":"sum","direction":"desc"},"limit":10}]}. Sans agrégat, "columns" liste les colonnes à afficher. Pas de texte avant ou après le JSON.'
+
+/** Queries run for one question */
+const MAX_QUERIES = 3
+/** Result rows returned when the query sets no limit, and at most */
+const DEFAULT_RESULT_ROWS = 50
+const MAX_RESULT_ROWS = 200
+/** Values of a text column shown to the planner */
+const MAX_SCHEMA_VALUES = 30
+
+const OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'contains', 'in']
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max', 'count']
+const TYPE_LABELS: Record<ColumnType, string> = { number: 'nombre', date: 'date', boolean: 'booléen', text: 'texte' }
+const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Somme',
+  avg: 'Moyenne',
+  min: 'Minimum',
+  max: 'Maximum',
+  count: 'Nombre',
+}
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  '=': '=',
+  '!=': '≠',
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤',
+  contains: 'contient',
+  in: 'parmi',
+}
+
+function normalizeText(s: string): string {
+  return s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+// "de Montant", "d’Encours"
+function of(name: string): string {
+  return /^[aeiouyhàâéèêîïôû]/i.test(name) ? `d’${name}` : `de ${name}`
+}
+
+/**
+ * Column name of an aggregate in a result: "Somme de Montant", "Nombre de lignes".
+ */
+export function aggregateLabel(aggregate: TableAggregate): string {
+  return `${AGGREGATE_LABELS[aggregate.fn]} ${aggregate.column ? of(aggregate.column) : 'de lignes'}`
+}
+
+function formatValue(value: CellValue): string {
+  if (value === null) return ''
+  if (typeof value === 'boolean') return value ? 'Vrai' : 'Faux'
+  // Four-digit numbers stay ungrouped, as in French typography (years read "2023", not "2 023")
+  if (typeof value === 'number') {
+    return value.toLocaleString('fr-FR', { maximumFractionDigits: 4, useGrouping: Math.abs(value) >= 10000 })
+  }
+  return value
+}
+
+/**
+ * The operation of a query in French, e.g. "Somme de Montant par Région ; filtre : Année = 2023 ; tri : Somme
+ * de Montant décroissant".
+ */
+export function describeTableQuery(query: TableQuery): string {
+  const parts: string[] = []
+  if (query.aggregates.length > 0) {
+    const by = query.group_by.length > 0 ? ` par ${query.group_by.join(' et ')}` : ''
+    parts.push(query.aggregates.map(aggregateLabel).join(', ') + by)
+  } else {
+    parts.push(query.columns?.length ? `Lignes du tableau (colonnes ${query.columns.join(', ')})` : 'Lignes du tableau')
+  }
+  if (query.filters.length > 0) {
+    const filters = query.filters.map((f) => {
+      const value = Array.isArray(f.value) ? f.value.map(formatValue).join(', ') : formatValue(f.value)
+      return `${f.column} ${OPERATOR_LABELS[f.op]} ${value}`
+    })
+    parts.push(`filtre : ${filters.join(' et ')}`)
+  }
+  if (query.order_by) {
+    const { fn, column, direction } = query.order_by
+    parts.push(`tri : ${fn ? aggregateLabel({ fn, column }) : column} ${direction === 'desc' ? 'décroissant' : 'croissant'}`)
+  }
+  if (query.limit) parts.push(`${query.limit} premières lignes`)
+  return parts.join(' ; ')
+}
+
+// ---------------------------------------------------------------------------
+// Planning: the model's JSON, checked against the schemas
+// ---------------------------------------------------------------------------
+
+interface RawQuery {
+  table?: unknown
+  filters?: { column?: unknown; op?: unknown; value?: unknown }[]
+  group_by?: unknown[]
+  aggregates?: { fn?: unknown; column?: unknown }[]
+  columns?: unknown[]
+  order_by?: { column?: unknown; fn?: unknown; direction?: unknown }
+  limit?: unknown
+}
+
+function findColumn(columns: TableColumn[], name: unknown): TableColumn | null {
+  if (typeof name !== 'string') return null
+  const key = normalizeText(name)
+  return columns.find((c) => normalizeText(c.name) === key) ?? null
+}
+
+function filterValue(value: unknown, type: ColumnType): CellValue {
+  if (value === null || value === undefined) return null
+  if ((typeof value === 'number' && type === 'number') || (typeof value === 'boolean' && type === 'boolean')) return value
+  const raw = String(value).trim()
+  // Partial dates are kept as typed: they match by prefix
+  if (type === 'date' && /^\d{4}(?:-\d{2})?$/.test(raw)) return raw
+  return parseCellValue(raw, type)
+}
+
+function isAggregateFunction(fn: unknown): fn is AggregateFunction {
+  return AGGREGATE_FUNCTIONS.includes(fn as AggregateFunction)
+}
+
+/**
+ * A query of the model checked against its table's schema (column names resolved, values typed), or
+ * null when it refers to an unknown table or column or aggregates a column of the wrong type.
+ */
+function validateQuery(raw: RawQuery, tables: DataTableSchema[]): TableQuery | null {
+  const table = tables[Number(String(raw.table ?? '').replace(/^T/i, '')) - 1]
+  if (!table) return null
+  const columns = table.columns
+
+  const filters: TableFilter[] = []
+  for (const f of Array.isArray(raw.filters) ? raw.filters : []) {
+    const column = findColumn(columns, f?.column)
+    const op = f?.op as FilterOperator
+    if (!column || !OPERATORS.includes(op)) return null
+    const value =
+      op === 'in'
+        ? (Array.isArray(f.value) ? f.value : [f.value]).map((v) => filterValue(v, column.type))
+        : filterValue(f.value, op === 'contains' ? 'text' : column.type)
+    filters.push({ column: column.name, op, value })
+  }
+
+  const group_by: string[] = []
+  for (const name of Array.isArray(raw.group_by) ? raw.group_by : []) {
+    const column = findColumn(columns, name)
+    if (!column) return null
+    if (!group_by.includes(column.name)) group_by.push(column.name)
+  }
+
+  const aggregates: TableAggregate[] = []
+  for (const a of Array.isArray(raw.aggregates) ? raw.aggregates : []) {
+    if (!isAggregateFunction(a?.fn)) return null
+    const column = a.column == null || a.column === '' ? null : findColumn(columns, a.column)
+    if (a.column != null && a.column !== '' && !column) return null
+    if (!column && a.fn !== 'count') return null
+    if ((a.fn === 'sum' || a.fn === 'avg') && column?.type !== 'number') return null
+    aggregates.push(column ? { fn: a.fn, column: column.name } : { fn: a.fn })
+  }
+  // Grouping alone lists the groups with their size
+  if (group_by.length > 0 && aggregates.length === 0) aggregates.push({ fn: 'count' })
+
+  const query: TableQuery = { table_id: table.id, filters, group_by, aggregates }
+  if (aggregates.length === 0 && Array.isArray(raw.columns)) {
+    const selected = raw.columns.map((name) => findColumn(columns, name)?.name).filter((name): name is string => !!name)
+    if (selected.length > 0) query.columns = Array.from(new Set(selected))
+  }
+
+  const order = raw.order_by
+  if (order && typeof order === 'object') {
+    const direction = order.direction === 'desc' ? 'desc' : 'asc'
+    const column = findColumn(columns, order.column)?.name
+    if (isAggregateFunction(order.fn)) {
+      const target = aggregates.find((a) => a.fn === order.fn && a.column === column)
+      if (target) query.order_by = { ...target, direction }
+    } else if (column) {
+      const shown = aggregates.length > 0 ? group_by : query.columns ?? columns.map((c) => c.name)
+      if (shown.includes(column)) query.order_by = { column, direction }
+    }
+  }
+
+  const limit = Number(raw.limit)
+  if (Number.isInteger(limit) && limit > 0) query.limit = Math.min(limit, MAX_RESULT_ROWS)
+  return query
+}
+
+function parseQueries(raw: string, tables: DataTableSchema[]): TableQuery[] {
+  const cleaned = raw.slice(raw.indexOf('{'), raw.lastIndexOf('}') + 1)
+  try {
+    const parsed = JSON.parse(cleaned) as { queries?: RawQuery[] }
+    return (Array.isArray(parsed.queries) ? parsed.queries : [])
+      .map((q) => (q && typeof q === 'object' ? validateQuery(q, tables) : null))
+      .filter((q): q is TableQuery => q !== null)
+      .slice(0, MAX_QUERIES)
+  } catch {
+    // Unparseable reply: no computation, the answer relies on the extracts
+    return []
+  }
+}
+
+function schemaText(tables: DataTableSchema[]): string {
+  return tables
+    .map((t, i) => {
+      const columns = t.columns.map((c) => {
+        const values = c.values?.length ? ` : ${c.values.slice(0, MAX_SCHEMA_VALUES).join(' | ')}` : ''
+        return `- ${c.name} (${TYPE_LABELS[c.type]})${values}`
+      })
+      return `### T${i + 1} — ${t.document_name}, tableau « ${t.name} » (${t.row_count} lignes)\n${columns.join('\n')}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Ask the model for the queries answering `question` over `tables` (none when the tables do not help).
+ * `history` is the formatted conversation, so follow-ups ("et pour 2022 ?") can be resolved.
+ */
+export async function planTableQueries(
+  llm: LLMProvider,
+  question: string,
+  tables: DataTableSchema[],
+  options: { history?: string; signal?: AbortSignal } = {}
+): Promise<TableQuery[]> {
+  if (tables.length === 0) return []
+  const raw = await llm.complete(
+    [{ role: 'user', content: `${options.history ?? ''}## TABLEAUX\n\n${schemaText(tables)}\n\n## QUESTION\n\n${question}` }],
+    {
+      signal: options.signal,
+      system_prompt: TABLE_QUERY_SYSTEM,
+      max_completion_tokens: 1000,
+      verbosity: 'low',
+      reasoning_effort: 'minimal',
+    }
+  )
+  return parseQueries(raw, tables)
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+// Numbers numerically, the rest in French order (case- and accent-insensitive); empty cells last
+function compareValues(a: CellValue, b: CellValue): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b), 'fr', { numeric: true, sensitivity: 'base' })
+}
+
+function matchesFilter(cell: CellValue, filter: TableFilter, type: ColumnType): boolean {
+  const { op, value } = filter
+  if (Array.isArray(value)) return value.some((v) => matchesFilter(cell, { ...filter, op: '=', value: v }, type))
+  if (cell === null || value === null) return op === '!=' && cell !== value
+  if (op === 'contains') return normalizeText(formatValue(cell)).includes(normalizeText(formatValue(value)))
+  if (type === 'date' && typeof value === 'string' && value.length < 10 && (op === '=' || op === '!=')) {
+    return String(cell).startsWith(value) === (op === '=')
+  }
+  const diff = type === 'text' && normalizeText(String(cell)) === normalizeText(String(value)) ? 0 : compareValues(cell, value)
+  switch (op) {
+    case '=':
+      return diff === 0
+    case '!=':
+      return diff !== 0
+    case '>':
+      return diff > 0
+    case '>=':
+      return diff >= 0
+    case '<':
+      return diff < 0
+    default:
+      return diff <= 0
+  }
+}
+
+// Sums and means rounded to 12 significant digits (0.1 + 0.2 -> 0.3)
+function aggregateRows(rows: CellValue[][], index: number | null, fn: AggregateFunction): CellValue {
+  if (fn === 'count') return index === null ? rows.length : rows.filter((r) => r[index] !== null).length
+  const values = rows.map((r) => r[index!]).filter((v): v is Exclude<CellValue, null> => v !== null)
+  if (values.length === 0) return null
+  if (fn === 'sum' || fn === 'avg') {
+    const sum = (values as number[]).reduce((total, v) => total + v, 0)
+    return Number((fn === 'sum' ? sum : sum / values.length).toPrecision(12))
+  }
+  return values.reduce((best, v) => ((fn === 'min' ? compareValues(v, best) < 0 : compareValues(v, best) > 0) ? v : best))
+}
+
+/**
+ * Run a checked query on a table: filter, then group and aggregate (or select columns), sort and limit.
+ */
+export function executeTableQuery(table: StoredDataTable, query: TableQuery): TableQueryResult {
+  const indexOf = (name: string) => table.columns.findIndex((c) => c.name === name)
+  const typeOf = (name: string) => table.columns[indexOf(name)]?.type ?? 'text'
+  const matched = table.rows.filter((row) =>
+    query.filters.every((f) => matchesFilter(row[indexOf(f.column)] ?? null, f, typeOf(f.column)))
+  )
+
+  let columns: TableColumn[]
+  let rows: CellValue[][]
+  if (query.aggregates.length > 0) {
+    // Groups keyed case- and accent-insensitively, in order of first appearance
+    const groups = new Map<string, { key: CellValue[]; rows: CellValue[][] }>()
+    for (const row of matched) {
+      const key = query.group_by.map((name) => row[indexOf(name)] ?? null)
+      const id = JSON.stringify(key.map((v) => (typeof v === 'string' ? normalizeText(v) : v)))
+      const group = groups.get(id)
+      if (group) group.rows.push(row)
+      else groups.set(id, { key, rows: [row] })
+    }
+    // Without grouping there is one result row, even when nothing matched (count 0)
+    if (query.group_by.length === 0 && groups.size === 0) groups.set('[]', { key: [], rows: [] })
+    columns = [
+      ...query.group_by.map((name): TableColumn => ({ name, type: typeOf(name) })),
+      ...query.aggregates.map((a): TableColumn => ({
+        name: aggregateLabel(a),
+        type: a.fn === 'min' || a.fn === 'max' ? typeOf(a.column!) : 'number',
+      })),
+    ]
+    rows = Array.from(groups.values(), (g) => [
+      ...g.key,
+      ...query.aggregates.map((a) => aggregateRows(g.rows, a.column ? indexOf(a.column) : null, a.fn)),
+    ])
+    if (!query.order_by) {
+      rows.sort((a, b) => {
+        for (let i = 0; i < query.group_by.length; i++) {
+          const diff = compareValues(a[i], b[i])
+          if (diff !== 0) return diff
+        }
+        return 0
+      })
+    }
+  } else {
+    const selected = query.columns ?? table.columns.map((c) => c.name)
+    columns = selected.map((name) => ({ name, type: typeOf(name) }))
+    rows = matched.map((row) => selected.map((name) => row[indexOf(name)] ?? null))
+  }
+
+  if (query.order_by) {
+    const { fn, column, direction } = query.order_by
+    const i = columns.findIndex((c) => c.name === (fn ? aggregateLabel({ fn, column }) : column))
+    if (i >= 0) {
+      // Empty cells stay last in both directions
+      rows.sort((a, b) =>
+        a[i] === null || b[i] === null ? compareValues(a[i], b[i]) : compareValues(a[i], b[i]) * (direction === 'desc' ? -1 : 1)
+      )
+    }
+  }
+
+  const limit = query.limit ?? DEFAULT_RESULT_ROWS
+  return {
+    table_id: table.id,
+    document_id: table.document_id,
+    document_name: table.document_name,
+    table_name: table.name,
+    operation: describeTableQuery(query),
+    query,
+    columns,
+    rows: rows.slice(0, limit),
+    matched_rows: matched.length,
+    truncated: rows.length > limit,
+  }
+}
+
+/**
+ * Plan and run the queries answering `question` over `tables`; each table's rows are fetched once.
+ */
+export async function queryDataTables(
+  llm: LLMProvider,
+  question: string,
+  tables: DataTableSchema[],
+  options: { history?: string; signal?: AbortSignal } = {}
+): Promise<TableQueryResult[]> {
+  const queries = await planTableQueries(llm, question, tables, options)
+  const loaded = new Map<string, StoredDataTable | null>()
+  const results: TableQueryResult[] = []
+  for (const query of queries) {
+    if (!loaded.has(query.table_id)) loaded.set(query.table_id, await getDataTable(query.table_id))
+    const table = loaded.get(query.table_id)
+    if (table) results.push(executeTableQuery(table, query))
+  }
+  return results
+}
+
+/**
+ * Computed tables as a prompt section: source, operation and the result as a Markdown table.
+ */
+export function buildTableContext(results: TableQueryResult[]): string {
+  if (results.length === 0) return ''
+  const parts = results.map((r, i) => {
+    const header = `| ${r.columns.map((c) => c.name).join(' | ')} |\n|${r.columns.map(() => ' --- |').join('')}`
+    const rows = r.rows.map((row) => `| ${row.map(formatValue).join(' | ')} |`).join('\n')
+    const note = r.truncated ? `\n(résultat limité aux ${r.rows.length} premières lignes)` : ''
+    return `### Calcul ${i + 1} (source: ${r.document_name}, tableau « ${r.table_name} »)\nOpération : ${r.operation}\nLignes du tableau retenues : ${r.matched_rows}\n\n${header}\n${rows}${note}`
+  })
+  return '\n---\n## RÉSULTATS DE CALCUL (tableaux de données)\n\n' + parts.join('\n\n') + '\n---\n'
+}
@@ -0,0 +1,214 @@
+/**
+ * Test harness: runs the agent pipeline and the API routes without Replicate or Supabase.
+ * installTestHarness() swaps in the in-memory database, the offline hashing embedder and a
+ * scripted mock LLM on every route; restore() puts the configured ones back.
+ */
+
+import { setSupabaseClient } from '../supabaseClient'
+import { setEmbeddingProvider, createHashingEmbedder } from '../embeddings'
+import { setLLMProvider, createMockProvider, type MockRule, type MockResponse, type MockLLMProvider, type LLMRoute } from '../llm'
+import { readSSEStream } from '../sseClient'
+import type { OutlineSection } from '../agentPipeline'
+import type { DocumentMetadata } from '../documentMetadata'
+import { SHARED_COLLECTION_ID, type CollectionRole } from '../collections'
+import { ANONYMOUS_USER_ID } from '../requestAuth'
+import { createMemorySupabase, type MemorySupabase, type Row } from './memorySupabase'
+
+export { createMemorySupabase, memoryAccessToken, MemorySupabase, type Row } from './memorySupabase'
+
+/**
+ * Canned responses for the agent pipeline, keyed by the phase whose system prompt they answer.
+ */
+export interface AgentScript {
+  /** Answer to the quick/deep classifier (default 'quick') */
+  classify?: MockResponse
+  /** Search queries, one per line */
+  queries?: MockResponse
+  /** Deep-mode outline; serialized to the JSON the planner expects */
+  outline?: OutlineSection[] | MockResponse
+  /** Body of each deep-mode section, by title (default: a short paragraph citing [1]) */
+  sections?: Record<string, MockResponse>
+  /** Quick-mode answer */
+  answer?: MockResponse
+  /** Reranker grades, as the JSON the scorer expects (default: every extract graded 2, keeping the search order) */
+  rerank?: MockResponse
+  /** Verification verdicts, as the JSON the checker expects (default: every claim supported) */
+  verify?: MockResponse
+  /** Queries over tabular documents, as the JSON the planner expects (default: none) */
+  tables?: MockResponse
+  /** Extra rules, matched before the pipeline ones */
+  rules?: MockRule[]
+  /** Pause between streamed tokens, to exercise cancellation mid-answer */
+  tokenDelayMs?: number
+}
+
+// Distinctive fragments of the system prompts in lib/agentPipeline.ts
+const PROMPT_MARKERS = {
+  classify: 'classifier la demande',
+  queries: 'requêtes de recherche courtes',
+  outline: 'plan structuré',
+  section: /Tu rédiges la section "([^"]+)"/,
+  answer: "Tu es l'Agent CDC",
+  verify: 'Tu vérifies qu',
+  rerank: 'Tu évalues la pertinence',
+  tables: 'requêtes sur des tableaux',
+}
+
+/**
+ * Mock LLM replaying an AgentScript, one rule per pipeline system prompt.
+ */
+export function createAgentLLM(script: AgentScript = {}): MockLLMProvider {
+  const outline = script.outline
+  const sectionBody: MockResponse = (_messages, options) => {
+    const title = options.system_prompt?.match(PROMPT_MARKERS.section)?.[1] ?? ''
+    const custom = script.sections?.[title]
+    if (custom instanceof Error) throw custom
+    if (typeof custom === 'function') return custom(_messages, options)
+    return custom ?? `Contenu de la section ${title} [1].`
+  }
+  const allSupported: MockResponse = (messages) => {
+    const claims = messages[messages.length - 1]?.content.split('## AFFIRMATIONS')[1] ?? ''
+    const ids = Array.from(claims.matchAll(/^(\d+)\. /gm), (m) => Number(m[1]))
+    return JSON.stringify({ results: ids.map((id) => ({ id, verdict: 'supported' })) })
+  }
+  const sameGrade: MockResponse = (messages) => {
+    const extracts = messages[messages.length - 1]?.content.split('## EXTRAITS')[1] ?? ''
+    const ids = Array.from(extracts.matchAll(/^\[(\d+)\] /gm), (m) => Number(m[1]))
+    return JSON.stringify({ scores: ids.map((id) => ({ id, score: 2 })) })
+  }
+  return createMockProvider({
+    rules: [
+      ...(script.rules ?? []),
+      { match: PROMPT_MARKERS.classify, response: script.classify ?? 'quick' },
+      { match: PROMPT_MARKERS.queries, response: script.queries ?? 'requête principale\nrequête secondaire' },
+      {
+        match: PROMPT_MARKERS.outline,
+        response: Array.isArray(outline)
+          ? JSON.stringify({ sections: outline })
+          : outline ?? JSON.stringify({ sections: [{ title: 'Synthèse', search_queries: ['synthèse'] }] }),
+      },
+      { match: PROMPT_MARKERS.section, response: sectionBody },
+      { match: PROMPT_MARKERS.rerank, response: script.rerank ?? sameGrade },
+      { match: PROMPT_MARKERS.verify, response: script.verify ?? allSupported },
+      { match: PROMPT_MARKERS.tables, response: script.tables ?? '{"queries":[]}' },
+      { match: PROMPT_MARKERS.answer, response: script.answer ?? 'Réponse fondée sur les documents [1].' },
+    ],
+    tokenDelayMs: script.tokenDelayMs,
+  })
+}
+
+export interface TestHarnessOptions {
+  /** Rows to preload, by table */
+  seed?: Record<string, Row[]>
+  script?: AgentScript
+}
+
+export interface TestHarness {
+  db: MemorySupabase
+  llm: MockLLMProvider
+  restore: () => void
+}
+
+const ROUTES: LLMRoute[] = ['chat', 'agent', 'title']
+
+/**
+ * Install the in-memory database, hashing embedder and scripted LLM for every route. Like migration 009,
+ * the database starts with the shared collection, owned by the anonymous user.
+ */
+export function installTestHarness(options: TestHarnessOptions = {}): TestHarness {
+  const db = createMemorySupabase(options.seed)
+  if (!db.rows('cdc_collections').some((c) => c.id === SHARED_COLLECTION_ID)) {
+    seedCollection(db, 'Base commune', ANONYMOUS_USER_ID, {}, SHARED_COLLECTION_ID)
+  }
+  const llm = createAgentLLM(options.script)
+  setSupabaseClient(db)
+  setEmbeddingProvider(createHashingEmbedder())
+  ROUTES.forEach((route) => setLLMProvider(route, llm))
+  return {
+    db,
+    llm,
+    restore: () => {
+      setSupabaseClient(null)
+      setEmbeddingProvider(null)
+      ROUTES.forEach((route) => setLLMProvider(route, null))
+    },
+  }
+}
+
+/**
+ * Seed a collection owned by `ownerId` (admin member), with other members by user id.
+ */
+export function seedCollection(
+  db: MemorySupabase,
+  name: string,
+  ownerId: string,
+  members: Record<string, CollectionRole> = {},
+  id?: string
+): Row {
+  const now = new Date().toISOString()
+  const collection = db.insertRow('cdc_collections', {
+    ...(id && { id }),
+    name,
+    description: null,
+    owner_id: ownerId,
+    updated_at: now,
+  })
+  for (const [user_id, role] of Object.entries({ ...members, [ownerId]: 'admin' as CollectionRole })) {
+    db.insertRow('cdc_collection_members', { collection_id: collection.id, user_id, role })
+  }
+  return collection
+}
+
+/**
+ * Seed one CDC document split into chunks (embedded with the current embedder by the caller if needed),
+ * in the shared collection unless `collectionId` is given.
+ */
+export function seedCdcDocument(
+  db: MemorySupabase,
+  name: string,
+  chunks: string[],
+  metadata: Partial<DocumentMetadata> & { collectionId?: string } = {}
+): Row {
+  const id = crypto.randomUUID()
+  const doc = db.insertRow('cdc_documents', {
+    id,
+    collection_id: metadata.collectionId ?? SHARED_COLLECTION_ID,
+    name,
+    file_type: 'text/plain',
+    file_size: chunks.join('').length,
+    chunk_count: chunks.length,
+    uploaded_at: new Date().toISOString(),
+    tags: metadata.tags ?? [],
+    year: metadata.year ?? null,
+    category: metadata.category ?? null,
+    author: metadata.author ?? null,
+    status: 'ready',
+    progress: 100,
+    error: null,
+    version_group_id: id,
+    version: 1,
+    superseded_at: null,
+  })
+  chunks.forEach((content, chunk_index) =>
+    db.insertRow('cdc_chunks', { document_id: doc.id, document_name: name, content, chunk_index })
+  )
+  return doc
+}
+
+/**
+ * Drain an async generator of events (e.g. runPipeline) into an array.
+ */
+export async function collectEvents<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = []
+  for await (const event of events) out.push(event)
+  return out
+}
+
+/**
+ * Read every `data:` event of a route's SSE Response.
+ */
+export async function collectSSE<T>(res: Response): Promise<T[]> {
+  const out: T[] = []
+  await readSSEStream<T>(res, (event) => out.push(event))
+  return out
+}
@@ -0,0 +1,504 @@
+/**
+ * In-memory stand-in for the Supabase client, for tests and offline runs.
+ * Covers the query-builder subset used in this repo (select/insert/update/upsert/delete, eq/neq/in/
+ * gt/gte/lt/lte/is/overlaps filters, order, limit, range, single/maybeSingle, count/head, abortSignal), storage uploads
+ * the search_cdc_chunks / match_cdc_chunks RPCs (with their filter_* arguments) and auth.getUser for
+ * tokens made by memoryAccessToken.
+ * Install it with setSupabaseClient(createMemorySupabase()) from lib/supabaseClient.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type Row = Record<string, unknown>
+
+interface QueryError {
+  message: string
+  code?: string
+}
+
+interface QueryResult {
+  data: unknown
+  error: QueryError | null
+  count: number | null
+}
+
+type Filter = (row: Row) => boolean
+
+const ABORTED: QueryError = { message: 'AbortError: The operation was aborted.', code: '20' }
+
+/**
+ * Awaitable RPC call, so that .abortSignal() can be chained like on PostgrestFilterBuilder.
+ */
+class MemoryRpc implements PromiseLike<QueryResult> {
+  private signal?: AbortSignal
+
+  constructor(private run: () => Promise<QueryResult>) {}
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const result = this.signal?.aborted ? Promise.resolve({ data: null, error: ABORTED, count: null }) : this.run()
+    return result.then(onfulfilled, onrejected)
+  }
+}
+
+/** Foreign keys declared ON DELETE CASCADE in supabase/migrations and the base schema. */
+const CASCADES: { parent: string; child: string; column: string }[] = [
+  { parent: 'cdc_documents', child: 'cdc_chunks', column: 'document_id' },
+  { parent: 'cdc_documents', child: 'cdc_document_tables', column: 'document_id' },
+  { parent: 'cdc_collections', child: 'cdc_documents', column: 'collection_id' },
+  { parent: 'cdc_collections', child: 'cdc_collection_members', column: 'collection_id' },
+  { parent: 'cdc_agent_sessions', child: 'cdc_agent_messages', column: 'session_id' },
+  { parent: 'conversations', child: 'messages', column: 'conversation_id' },
+]
+
+const MEMORY_TOKEN_PREFIX = 'memory-token:'
+
+/**
+ * Access token accepted by the in-memory auth.getUser, for requests made as `userId`.
+ */
+export function memoryAccessToken(userId: string): string {
+  return MEMORY_TOKEN_PREFIX + userId
+}
+
+const FTS_STOPWORDS = new Set([
+  'les', 'des', 'une', 'est', 'sur', 'pour', 'par', 'dans', 'que', 'qui', 'aux', 'avec', 'son', 'ses', 'leur', 'quel', 'quelle', 'the', 'and',
+])
+
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !FTS_STOPWORDS.has(w))
+}
+
+function toVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[]
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0
+  if (a == null) return 1
+  if (b == null) return -1
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function pick(row: Row, columns: string): Row {
+  const cols = columns.split(',').map((c) => c.trim()).filter(Boolean)
+  if (cols.length === 0 || cols.includes('*')) return { ...row }
+  const out: Row = {}
+  for (const c of cols) out[c] = row[c]
+  return out
+}
+
+/**
+ * Chainable, awaitable query on one table, mirroring PostgrestQueryBuilder.
+ */
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select'
+  private conflictColumns: string[] = ['id']
+  private payload: Row[] = []
+  private patch: Row = {}
+  private columns = '*'
+  private returning = false
+  private countMode = false
+  private headOnly = false
+  private filters: Filter[] = []
+  private orders: { column: string; ascending: boolean }[] = []
+  private limitTo: number | null = null
+  private offset = 0
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many'
+  private signal?: AbortSignal
+
+  constructor(private db: MemorySupabase, private table: string) {}
+
+  select(columns: string = '*', options: { count?: string; head?: boolean } = {}): this {
+    if (this.action === 'select') {
+      this.columns = columns
+      this.countMode = !!options.count
+      this.headOnly = !!options.head
+    } else {
+      this.returning = true
+      this.columns = columns
+    }
+    return this
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert'
+    this.payload = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = 'upsert'
+    this.payload = Array.isArray(values) ? values : [values]
+    this.conflictColumns = options.onConflict ? options.onConflict.split(',').map((c) => c.trim()) : ['id']
+    return this
+  }
+
+  update(patch: Row): this {
+    this.action = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete(): this {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((r) => values.includes(r[column]))
+    return this
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((r) => compare(r[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((r) => compare(r[column], value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((r) => compare(r[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((r) => compare(r[column], value) <= 0)
+    return this
+  }
+
+  overlaps(column: string, values: unknown[]): this {
+    this.filters.push((r) => Array.isArray(r[column]) && (r[column] as unknown[]).some((v) => values.includes(v)))
+    return this
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push((r) => (r[column] ?? null) === value)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number): this {
+    this.limitTo = count
+    return this
+  }
+
+  range(from: number, to: number): this {
+    this.offset = from
+    this.limitTo = to - from + 1
+    return this
+  }
+
+  single(): this {
+    this.cardinality = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle'
+    return this
+  }
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((r) => this.filters.every((f) => f(r)))
+  }
+
+  private execute(): QueryResult {
+    if (this.signal?.aborted) return { data: null, error: ABORTED, count: null }
+    const failure = this.db.takeFailure(this.table)
+    if (failure) return { data: null, error: failure, count: null }
+
+    let rows: Row[]
+    switch (this.action) {
+      case 'insert':
+        rows = this.payload.map((values) => this.db.insertRow(this.table, values))
+        break
+      case 'upsert':
+        rows = this.payload.map((values) => {
+          const keys = this.conflictColumns
+          const existing = keys.every((k) => values[k] != null)
+            ? this.db.rows(this.table).find((r) => keys.every((k) => r[k] === values[k]))
+            : undefined
+          return existing ? Object.assign(existing, values) : this.db.insertRow(this.table, values)
+        })
+        break
+      case 'update':
+        rows = this.matching()
+        rows.forEach((r) => Object.assign(r, this.patch))
+        break
+      case 'delete':
+        rows = this.matching()
+        this.db.deleteRows(this.table, rows)
+        break
+      default:
+        rows = this.matching()
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null }
+    }
+
+    if (this.orders.length > 0) {
+      rows = [...rows].sort((a, b) => {
+        for (const o of this.orders) {
+          const c = compare(a[o.column], b[o.column])
+          if (c !== 0) return o.ascending ? c : -c
+        }
+        return 0
+      })
+    }
+    const count = rows.length
+    rows = rows.slice(this.offset, this.limitTo == null ? undefined : this.offset + this.limitTo)
+    const data = rows.map((r) => pick(r, this.columns))
+
+    if (this.headOnly) return { data: null, error: null, count }
+    if (this.cardinality !== 'many') {
+      if (data.length === 1) return { data: data[0], error: null, count: this.countMode ? count : null }
+      if (data.length === 0 && this.cardinality === 'maybeSingle') return { data: null, error: null, count: null }
+      return {
+        data: null,
+        error: { code: 'PGRST116', message: `JSON object requested, ${data.length} rows returned` },
+        count: null,
+      }
+    }
+    return { data, error: null, count: this.countMode ? count : null }
+  }
+}
+
+/**
+ * In-memory database. `tables` is exposed for seeding and assertions.
+ */
+export class MemorySupabase {
+  tables: Record<string, Row[]> = {}
+  /** Stored files per bucket, keyed by path */
+  buckets: Record<string, Map<string, unknown>> = {}
+  private failures = new Map<string, QueryError>()
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      rows.forEach((r) => this.insertRow(table, r))
+    }
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= [])
+  }
+
+  insertRow(table: string, values: Row): Row {
+    const row: Row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...values }
+    this.rows(table).push(row)
+    return row
+  }
+
+  deleteRows(table: string, rows: Row[]): void {
+    const removed = new Set(rows)
+    this.tables[table] = this.rows(table).filter((r) => !removed.has(r))
+    for (const fk of CASCADES.filter((c) => c.parent === table)) {
+      const ids = new Set(rows.map((r) => r.id))
+      this.deleteRows(fk.child, this.rows(fk.child).filter((r) => ids.has(r[fk.column])))
+    }
+  }
+
+  /** Make the next query on a table (or RPC name) fail with this error. */
+  failNext(tableOrRpc: string, message: string = 'Simulated failure'): void {
+    this.failures.set(tableOrRpc, { message })
+  }
+
+  takeFailure(tableOrRpc: string): QueryError | null {
+    const failure = this.failures.get(tableOrRpc) ?? null
+    this.failures.delete(tableOrRpc)
+    return failure
+  }
+
+  from(table: string): MemoryQuery {
+    return new MemoryQuery(this, table)
+  }
+
+  rpc(fn: string, args: Record<string, unknown> = {}): MemoryRpc {
+    return new MemoryRpc(() => this.runRpc(fn, args))
+  }
+
+  /**
+   * Chunk predicate for the RPCs' filter_* arguments (null or absent = no constraint), joined on cdc_documents.
+   * Only ready documents match (see migration 016); superseded versions only when listed in filter_document_ids.
+   */
+  private scopeFilter(args: Record<string, unknown>): Filter {
+    const list = (key: string) => (Array.isArray(args[key]) ? (args[key] as unknown[]) : null)
+    const collections = list('filter_collection_ids')
+    const ids = list('filter_document_ids')
+    const tags = list('filter_tags')
+    const categories = list('filter_categories')
+    const authors = list('filter_authors')
+    const from = args.filter_year_from ?? null
+    const to = args.filter_year_to ?? null
+    const documents = new Map(this.rows('cdc_documents').map((d) => [d.id, d]))
+    return (c) => {
+      const d = documents.get(c.document_id)
+      if (!d) return collections == null && ids == null && tags == null && categories == null && authors == null && from == null && to == null
+      if (d.status != null && d.status !== 'ready') return false
+      if (d.superseded_at != null && !ids?.includes(c.document_id)) return false
+      if (collections && !collections.includes(d.collection_id)) return false
+      if (ids && !ids.includes(c.document_id)) return false
+      if (tags && !(Array.isArray(d.tags) && (d.tags as unknown[]).some((t) => tags.includes(t)))) return false
+      if (categories && !categories.includes(d.category)) return false
+      if (authors && !authors.includes(d.author)) return false
+      if (from != null && (d.year == null || compare(d.year, from) < 0)) return false
+      if (to != null && (d.year == null || compare(d.year, to) > 0)) return false
+      return true
+    }
+  }
+
+  private async runRpc(fn: string, args: Record<string, unknown>): Promise<QueryResult> {
+    const failure = this.takeFailure(fn)
+    if (failure) return { data: null, error: failure, count: null }
+    const limit = Number(args.match_count ?? 8)
+    const project = (c: Row, rank: number) => ({
+      id: c.id,
+      document_id: c.document_id,
+      document_name: c.document_name,
+      content: c.content,
+      chunk_index: c.chunk_index,
+      page_start: c.page_start ?? null,
+      page_end: c.page_end ?? null,
+      heading_path: c.heading_path ?? [],
+      ocr_confidence: c.ocr_confidence ?? null,
+      rank,
+    })
+    const inScope = this.scopeFilter(args)
+
+    switch (fn) {
+      case 'search_cdc_chunks': {
+        // plainto_tsquery semantics: every query term must occur
+        const terms = normalizeWords(String(args.query ?? ''))
+        if (terms.length === 0) return { data: [], error: null, count: null }
+        const data = this.rows('cdc_chunks')
+          .filter(inScope)
+          .map((c) => {
+            const words = normalizeWords(String(c.content ?? ''))
+            const hits = terms.map((t) => words.filter((w) => w.startsWith(t)).length)
+            const rank = hits.every((h) => h > 0) ? hits.reduce((a, b) => a + b, 0) / (1 + Math.log(1 + words.length)) : 0
+            return project(c, rank)
+          })
+          .filter((c) => c.rank > 0)
+          .sort((a, b) => b.rank - a.rank)
+          .slice(0, limit)
+        return { data, error: null, count: null }
+      }
+      case 'match_cdc_chunks': {
+        const query = toVector(args.query_embedding)
+        if (!query) return { data: [], error: null, count: null }
+        const data = this.rows('cdc_chunks')
+          .filter(inScope)
+          .map((c) => ({ c, embedding: toVector(c.embedding) }))
+          .filter((e): e is { c: Row; embedding: number[] } => e.embedding != null)
+          .map(({ c, embedding }) => project(c, cosine(query, embedding)))
+          .sort((a, b) => b.rank - a.rank)
+          .slice(0, limit)
+        return { data, error: null, count: null }
+      }
+      default:
+        return { data: null, error: { message: `Unknown RPC ${fn}` }, count: null }
+    }
+  }
+
+  auth = {
+    getUser: async (jwt?: string) => {
+      const userId = jwt?.startsWith(MEMORY_TOKEN_PREFIX) ? jwt.slice(MEMORY_TOKEN_PREFIX.length) : ''
+      return userId
+        ? { data: { user: { id: userId } }, error: null }
+        : { data: { user: null }, error: { message: 'Invalid JWT' } }
+    },
+  }
+
+  storage = {
+    from: (bucket: string) => {
+      const files = (this.buckets[bucket] ??= new Map())
+      return {
+        upload: async (path: string, body: unknown, options: { upsert?: boolean } = {}) => {
+          if (files.has(path) && !options.upsert) {
+            return { data: null, error: { message: 'The resource already exists' } }
+          }
+          files.set(path, body)
+          return { data: { path }, error: null }
+        },
+        download: async (path: string) =>
+          files.has(path)
+            ? { data: files.get(path), error: null }
+            : { data: null, error: { message: 'Object not found' } },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `memory://${bucket}/${path}` } }),
+        remove: async (paths: string[]) => {
+          paths.forEach((p) => files.delete(p))
+          return { data: paths.map((name) => ({ name })), error: null }
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Create an in-memory database, typed as a SupabaseClient so it can back the `supabase` proxy.
+ */
+export function createMemorySupabase(seed?: Record<string, Row[]>): MemorySupabase & SupabaseClient {
+  return new MemorySupabase(seed) as MemorySupabase & SupabaseClient
+}
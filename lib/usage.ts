@@ -0,0 +1,255 @@
+/**
+ * LLM usage accounting: one llm_usage row per model call (model, tokens, latency, fallback, cost),
+ * aggregated per request, conversation and user.
+ * A route creates a tracker per request, passes tracker.wrap(provider) to the code making the calls,
+ * then flushes the records once the response is complete.
+ */
+
+import { supabase } from './supabaseClient'
+import type { LLMProvider, LLMRoute, LLMCallReport, ChatMessage, LLMRequestOptions } from './llm'
+import { estimateTokens } from './contextBudget'
+
+export interface UsageRecord {
+  request_id: string
+  user_id: string
+  conversation_id: string | null
+  session_id: string | null
+  route: LLMRoute
+  provider: string
+  model: string
+  fallback_index: number
+  attempts: number
+  prompt_tokens: number
+  completion_tokens: number
+  /** Token counts estimated from text length (provider did not return them) */
+  estimated: boolean
+  latency_ms: number
+  cost_usd: number
+  status: 'ok' | 'error'
+  created_at: string
+}
+
+export interface UsageScope {
+  userId: string
+  route: LLMRoute
+  /** Chat conversation (conversations.id) */
+  conversationId?: string | null
+  /** Agent session (cdc_agent_sessions.id) */
+  sessionId?: string | null
+}
+
+/** USD per million tokens (input, output); approximate public prices, unknown models count as free. */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'openai/gpt-5': { input: 1.25, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'meta/meta-llama-3-70b-instruct': { input: 0.65, output: 2.75 },
+  'meta/meta-llama-3-8b-instruct': { input: 0.05, output: 0.25 },
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = MODEL_PRICING[model]
+  if (!price) return 0
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+export interface UsageTracker {
+  requestId: string
+  records: UsageRecord[]
+  /** Provider whose calls are recorded under this request */
+  wrap: (provider: LLMProvider) => LLMProvider
+  /** Attach the records to a conversation or session known only after the tracker was created */
+  setScope: (scope: Partial<Pick<UsageScope, 'conversationId' | 'sessionId'>>) => void
+  /** Persist the records not yet stored */
+  flush: () => Promise<void>
+}
+
+/**
+ * Track the LLM calls of one request.
+ */
+export function createUsageTracker(scope: UsageScope): UsageTracker {
+  const requestId = crypto.randomUUID()
+  const current = { conversationId: scope.conversationId ?? null, sessionId: scope.sessionId ?? null }
+  const records: UsageRecord[] = []
+  let flushed = 0
+
+  const record = (
+    providerName: string,
+    messages: ChatMessage[],
+    options: LLMRequestOptions,
+    output: string,
+    startedAt: number,
+    report: LLMCallReport | null
+  ) => {
+    const promptText = (options.system_prompt ?? '') + messages.map((m) => m.content).join('\n')
+    // Estimated like the prompt packer sizes it when the provider does not report usage
+    const estimated = report?.promptTokens == null || report?.completionTokens == null
+    const promptTokens = report?.promptTokens ?? estimateTokens(promptText)
+    const completionTokens = report?.completionTokens ?? estimateTokens(output)
+    const model = report?.model ?? providerName
+    records.push({
+      request_id: requestId,
+      user_id: scope.userId,
+      conversation_id: current.conversationId,
+      session_id: current.sessionId,
+      route: scope.route,
+      provider: report?.provider ?? providerName.split(':')[0],
+      model,
+      fallback_index: report?.fallbackIndex ?? 0,
+      attempts: report?.attempts ?? 1,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      estimated,
+      latency_ms: Date.now() - startedAt,
+      cost_usd: estimateCost(model, promptTokens, completionTokens),
+      status: report ? 'ok' : 'error',
+      created_at: new Date().toISOString(),
+    })
+  }
+
+  const wrap = (provider: LLMProvider): LLMProvider => {
+    async function* stream(messages: ChatMessage[], options: LLMRequestOptions = {}): AsyncGenerator<string, void, unknown> {
+      const startedAt = Date.now()
+      let report: LLMCallReport | null = null
+      let output = ''
+      try {
+        for await (const chunk of provider.stream(messages, {
+          ...options,
+          onReport: (r) => {
+            report = r
+            options.onReport?.(r)
+          },
+        })) {
+          output += chunk
+          yield chunk
+        }
+      } finally {
+        // Also runs when the consumer stops early or the call throws (recorded as an error)
+        record(provider.name, messages, options, output, startedAt, report)
+      }
+    }
+    const wrapped: LLMProvider = {
+      name: provider.name,
+      capabilities: provider.capabilities,
+      stream,
+      complete: async (messages, options) => {
+        let full = ''
+        for await (const chunk of stream(messages, options)) full += chunk
+        return full.trim()
+      },
+    }
+    return wrapped
+  }
+
+  return {
+    requestId,
+    records,
+    wrap,
+    setScope: (next) => {
+      if (next.conversationId !== undefined) current.conversationId = next.conversationId
+      if (next.sessionId !== undefined) current.sessionId = next.sessionId
+    },
+    flush: async () => {
+      const pending = records.slice(flushed)
+      if (pending.length === 0) return
+      flushed = records.length
+      const { error } = await supabase.from('llm_usage').insert(pending)
+      if (error) console.error('Error storing LLM usage:', error)
+    },
+  }
+}
+
+export interface UsageTotals {
+  requests: number
+  calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+  errors: number
+  fallbacks: number
+  latency_ms: number
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  byModel: ({ model: string } & UsageTotals)[]
+  byRoute: ({ route: string } & UsageTotals)[]
+  /** Most recent requests first */
+  requests: ({ request_id: string; route: string; created_at: string } & UsageTotals)[]
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0, errors: 0, fallbacks: 0, latency_ms: 0 }
+}
+
+function addRecords(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals()
+  const requests = new Set<string>()
+  for (const r of records) {
+    requests.add(r.request_id)
+    totals.calls++
+    totals.prompt_tokens += r.prompt_tokens
+    totals.completion_tokens += r.completion_tokens
+    totals.cost_usd += Number(r.cost_usd) || 0
+    totals.latency_ms += r.latency_ms
+    if (r.status === 'error') totals.errors++
+    if (r.fallback_index > 0) totals.fallbacks++
+  }
+  totals.requests = requests.size
+  return totals
+}
+
+function groupBy<K extends string>(records: UsageRecord[], key: (r: UsageRecord) => K): Map<K, UsageRecord[]> {
+  const groups = new Map<K, UsageRecord[]>()
+  for (const r of records) {
+    const k = key(r)
+    groups.set(k, [...(groups.get(k) ?? []), r])
+  }
+  return groups
+}
+
+/**
+ * Aggregate usage records into totals, per model, per route and per request.
+ */
+export function summarizeUsage(records: UsageRecord[], maxRequests: number = 20): UsageSummary {
+  const byModel = Array.from(groupBy(records, (r) => r.model), ([model, rows]) => ({ model, ...addRecords(rows) }))
+  const byRoute = Array.from(groupBy(records, (r) => r.route), ([route, rows]) => ({ route, ...addRecords(rows) }))
+  const requests = Array.from(groupBy(records, (r) => r.request_id), ([request_id, rows]) => ({
+    request_id,
+    route: rows[0].route,
+    created_at: rows.reduce((min, r) => (r.created_at < min ? r.created_at : min), rows[0].created_at),
+    ...addRecords(rows),
+  }))
+    .sort((a, b) => (a.created_at < b.created_at ? 1 : -1))
+    .slice(0, maxRequests)
+  return {
+    totals: addRecords(records),
+    byModel: byModel.sort((a, b) => b.cost_usd - a.cost_usd || b.calls - a.calls),
+    byRoute,
+    requests,
+  }
+}
+
+export interface UsageFilter {
+  userId?: string
+  conversationId?: string
+  sessionId?: string
+  /** ISO date; only calls made since then */
+  since?: string
+}
+
+// Fetch usage records for a user, conversation or agent session
+export async function getUsageRecords(filter: UsageFilter, limit: number = 5000): Promise<UsageRecord[]> {
+  let query = supabase.from('llm_usage').select('*')
+  if (filter.userId) query = query.eq('user_id', filter.userId)
+  if (filter.conversationId) query = query.eq('conversation_id', filter.conversationId)
+  if (filter.sessionId) query = query.eq('session_id', filter.sessionId)
+  if (filter.since) query = query.gte('created_at', filter.since)
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+
+  if (error) {
+    console.error('Error fetching LLM usage:', error)
+    return []
+  }
+
+  return data || []
+}
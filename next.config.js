@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: ['replicate.delivery'],
   },
+  experimental: {
+    // pdfkit reads its font metrics from disk at runtime; keep it out of the server bundle
+    serverComponentsExternalPackages: ['pdfkit'],
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,35 @@
+-- CDC Agent: embeddings on cdc_chunks and vector similarity search
+-- Run after 001_cdc_agent_tables.sql. The vector dimension must match EMBEDDING_DIMENSIONS in lib/embeddings.ts.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE cdc_chunks ADD COLUMN IF NOT EXISTS embedding vector(768);
+
+CREATE INDEX IF NOT EXISTS idx_cdc_chunks_embedding
+    ON cdc_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- RPC: nearest chunks by cosine similarity (chunks without embedding are skipped)
+CREATE OR REPLACE FUNCTION match_cdc_chunks(query_embedding vector(768), match_count int DEFAULT 8)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        (1 - (c.embedding <=> query_embedding))::real AS rank
+    FROM cdc_chunks c
+    WHERE c.embedding IS NOT NULL
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
@@ -0,0 +1,39 @@
+-- CDC Agent: persisted conversations (sessions) and their messages, including deep-mode reports
+
+-- Table: cdc_agent_sessions (one per agent conversation)
+CREATE TABLE IF NOT EXISTS cdc_agent_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL DEFAULT 'anonymous',
+    title TEXT NOT NULL DEFAULT 'Nouvelle conversation',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Table: cdc_agent_messages (user questions and assistant answers; reports keep outline and sources)
+CREATE TABLE IF NOT EXISTS cdc_agent_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES cdc_agent_sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    mode TEXT CHECK (mode IN ('quick', 'deep')),
+    outline JSONB,
+    sources JSONB,
+    citations JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cdc_agent_sessions_user ON cdc_agent_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cdc_agent_messages_session ON cdc_agent_messages(session_id, created_at);
+
+-- RLS
+ALTER TABLE cdc_agent_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cdc_agent_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all on cdc_agent_sessions" ON cdc_agent_sessions;
+CREATE POLICY "Allow all on cdc_agent_sessions" ON cdc_agent_sessions FOR ALL USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow all on cdc_agent_messages" ON cdc_agent_messages;
+CREATE POLICY "Allow all on cdc_agent_messages" ON cdc_agent_messages FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON cdc_agent_sessions TO anon;
+GRANT ALL ON cdc_agent_messages TO anon;
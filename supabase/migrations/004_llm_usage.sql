@@ -0,0 +1,35 @@
+-- LLM usage accounting: one row per model call, grouped by request, conversation (or agent session) and user
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    request_id UUID NOT NULL,
+    user_id TEXT NOT NULL DEFAULT 'anonymous',
+    conversation_id UUID,
+    session_id UUID,
+    route TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    fallback_index INT NOT NULL DEFAULT 0,
+    attempts INT NOT NULL DEFAULT 1,
+    prompt_tokens INT NOT NULL DEFAULT 0,
+    completion_tokens INT NOT NULL DEFAULT 0,
+    -- true when token counts are estimated from text length (the provider did not return them)
+    estimated BOOLEAN NOT NULL DEFAULT true,
+    latency_ms INT NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'error')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user ON llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_conversation ON llm_usage(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session ON llm_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_request ON llm_usage(request_id);
+
+-- RLS
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all on llm_usage" ON llm_usage;
+CREATE POLICY "Allow all on llm_usage" ON llm_usage FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON llm_usage TO anon;
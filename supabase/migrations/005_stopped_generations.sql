@@ -0,0 +1,4 @@
+-- Generations cancelled by the user (Stop button or disconnect) keep their partial answer, flagged as stopped
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS stopped BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE cdc_agent_messages ADD COLUMN IF NOT EXISTS stopped BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- Deep-report jobs: a deep request is queued, claimed by a worker and run outside the HTTP request.
+-- progress holds the last pipeline status event; result_message_id points to the stored report.
+
+CREATE TABLE IF NOT EXISTS cdc_report_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL DEFAULT 'anonymous',
+    session_id UUID NOT NULL REFERENCES cdc_agent_sessions(id) ON DELETE CASCADE,
+    message TEXT NOT NULL,
+    history JSONB NOT NULL DEFAULT '[]'::jsonb,
+    outline JSONB,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    progress JSONB,
+    result_message_id UUID REFERENCES cdc_agent_messages(id) ON DELETE SET NULL,
+    error TEXT,
+    attempts INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cdc_report_jobs_user ON cdc_report_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cdc_report_jobs_status ON cdc_report_jobs(status, created_at);
+
+-- RLS
+ALTER TABLE cdc_report_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all on cdc_report_jobs" ON cdc_report_jobs;
+CREATE POLICY "Allow all on cdc_report_jobs" ON cdc_report_jobs FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON cdc_report_jobs TO anon;
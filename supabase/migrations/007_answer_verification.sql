@@ -0,0 +1,4 @@
+-- Optional verification pass: claims of an answer checked against the retrieved extracts
+
+ALTER TABLE cdc_agent_messages ADD COLUMN IF NOT EXISTS verification JSONB;
+ALTER TABLE cdc_report_jobs ADD COLUMN IF NOT EXISTS verify BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,103 @@
+-- CDC Agent: document-level metadata (tags, year, category, author) and scoped search.
+-- The search RPCs take optional filters; NULL means "no constraint". Their signature changes,
+-- so the previous versions are dropped first (PostgREST cannot pick between overloads).
+
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS year INTEGER;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS author TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_tags ON cdc_documents USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_year ON cdc_documents(year);
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_category ON cdc_documents(category);
+
+-- Scope of the request, kept so deep reports and section reworks search the same documents
+ALTER TABLE cdc_report_jobs ADD COLUMN IF NOT EXISTS filters JSONB;
+ALTER TABLE cdc_agent_messages ADD COLUMN IF NOT EXISTS filters JSONB;
+
+DROP FUNCTION IF EXISTS search_cdc_chunks(text, int);
+DROP FUNCTION IF EXISTS match_cdc_chunks(vector(768), int);
+
+-- RPC: search chunks by full-text query (French config), within the documents matching the filters
+CREATE OR REPLACE FUNCTION search_cdc_chunks(
+    query text,
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        ts_rank(c.tsv, plainto_tsquery('french', query)) AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.tsv @@ plainto_tsquery('french', query)
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY rank DESC
+    LIMIT match_count;
+$$;
+
+-- RPC: nearest chunks by cosine similarity, within the documents matching the filters
+CREATE OR REPLACE FUNCTION match_cdc_chunks(
+    query_embedding vector(768),
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        (1 - (c.embedding <=> query_embedding))::real AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.embedding IS NOT NULL
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
@@ -0,0 +1,201 @@
+-- CDC Agent: collections (named sets of documents) with an owner and member roles, and RLS policies
+-- replacing the "Allow all" ones on the knowledge base.
+-- Roles: viewer (search and read), editor (+ add, edit and delete documents), admin (+ manage members,
+-- rename or delete the collection). The owner is always admin.
+-- Clients using the anon key with a user session are restricted by the policies below (auth.uid()).
+-- The API routes use the service role key (SUPABASE_SERVICE_ROLE_KEY), which bypasses RLS: they check
+-- roles themselves and pass filter_collection_ids to the search RPCs.
+-- Existing documents move to the shared collection "Base commune", owned by the anonymous user.
+
+CREATE TABLE IF NOT EXISTS cdc_collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    description TEXT,
+    owner_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS cdc_collection_members (
+    collection_id UUID NOT NULL REFERENCES cdc_collections(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'admin')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (collection_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cdc_collections_owner ON cdc_collections(owner_id);
+CREATE INDEX IF NOT EXISTS idx_cdc_collection_members_user ON cdc_collection_members(user_id);
+
+INSERT INTO cdc_collections (id, name, description, owner_id)
+VALUES ('00000000-0000-0000-0000-00000000c0c0', 'Base commune', 'Documents ajoutés avant les collections', '00000000-0000-0000-0000-000000000000')
+ON CONFLICT (id) DO NOTHING;
+INSERT INTO cdc_collection_members (collection_id, user_id, role)
+VALUES ('00000000-0000-0000-0000-00000000c0c0', '00000000-0000-0000-0000-000000000000', 'admin')
+ON CONFLICT (collection_id, user_id) DO NOTHING;
+
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES cdc_collections(id) ON DELETE CASCADE;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS owner_id TEXT;
+UPDATE cdc_documents SET collection_id = '00000000-0000-0000-0000-00000000c0c0' WHERE collection_id IS NULL;
+ALTER TABLE cdc_documents ALTER COLUMN collection_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_collection ON cdc_documents(collection_id);
+
+-- Role of a user in a collection (owner = admin), NULL without access.
+-- SECURITY DEFINER so the policies can read the membership tables without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION cdc_collection_role(p_collection_id uuid, p_user_id text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM cdc_collections WHERE id = p_collection_id AND owner_id = p_user_id) THEN 'admin'
+        ELSE (SELECT role FROM cdc_collection_members WHERE collection_id = p_collection_id AND user_id = p_user_id)
+    END;
+$$;
+
+-- True when the current user (auth.uid()) has at least `p_min_role` in the collection
+CREATE OR REPLACE FUNCTION cdc_has_collection_role(p_collection_id uuid, p_min_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        array_position(ARRAY['viewer', 'editor', 'admin'], cdc_collection_role(p_collection_id, auth.uid()::text))
+            >= array_position(ARRAY['viewer', 'editor', 'admin'], p_min_role),
+        false
+    );
+$$;
+
+-- RLS
+ALTER TABLE cdc_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cdc_collection_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members read collections" ON cdc_collections;
+CREATE POLICY "Members read collections" ON cdc_collections FOR SELECT USING (cdc_has_collection_role(id, 'viewer'));
+DROP POLICY IF EXISTS "Users create their collections" ON cdc_collections;
+CREATE POLICY "Users create their collections" ON cdc_collections FOR INSERT WITH CHECK (owner_id = auth.uid()::text);
+DROP POLICY IF EXISTS "Admins update collections" ON cdc_collections;
+CREATE POLICY "Admins update collections" ON cdc_collections FOR UPDATE USING (cdc_has_collection_role(id, 'admin'));
+DROP POLICY IF EXISTS "Admins delete collections" ON cdc_collections;
+CREATE POLICY "Admins delete collections" ON cdc_collections FOR DELETE USING (cdc_has_collection_role(id, 'admin'));
+
+DROP POLICY IF EXISTS "Members read members" ON cdc_collection_members;
+CREATE POLICY "Members read members" ON cdc_collection_members FOR SELECT USING (cdc_has_collection_role(collection_id, 'viewer'));
+DROP POLICY IF EXISTS "Admins manage members" ON cdc_collection_members;
+CREATE POLICY "Admins manage members" ON cdc_collection_members FOR ALL
+    USING (cdc_has_collection_role(collection_id, 'admin'))
+    WITH CHECK (cdc_has_collection_role(collection_id, 'admin'));
+
+DROP POLICY IF EXISTS "Allow all on cdc_documents" ON cdc_documents;
+DROP POLICY IF EXISTS "Viewers read documents" ON cdc_documents;
+CREATE POLICY "Viewers read documents" ON cdc_documents FOR SELECT USING (cdc_has_collection_role(collection_id, 'viewer'));
+DROP POLICY IF EXISTS "Editors manage documents" ON cdc_documents;
+CREATE POLICY "Editors manage documents" ON cdc_documents FOR ALL
+    USING (cdc_has_collection_role(collection_id, 'editor'))
+    WITH CHECK (cdc_has_collection_role(collection_id, 'editor'));
+
+DROP POLICY IF EXISTS "Allow all on cdc_chunks" ON cdc_chunks;
+DROP POLICY IF EXISTS "Viewers read chunks" ON cdc_chunks;
+CREATE POLICY "Viewers read chunks" ON cdc_chunks FOR SELECT USING (
+    cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'viewer')
+);
+DROP POLICY IF EXISTS "Editors manage chunks" ON cdc_chunks;
+CREATE POLICY "Editors manage chunks" ON cdc_chunks FOR ALL
+    USING (cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'editor'))
+    WITH CHECK (cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'editor'));
+
+-- Search RPCs: add filter_collection_ids. They run with the caller's rights, so RLS also applies to
+-- user sessions; the service role relies on the filter.
+DROP FUNCTION IF EXISTS search_cdc_chunks(text, int, uuid[], text[], text[], text[], int, int);
+DROP FUNCTION IF EXISTS match_cdc_chunks(vector(768), int, uuid[], text[], text[], text[], int, int);
+
+CREATE OR REPLACE FUNCTION search_cdc_chunks(
+    query text,
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        ts_rank(c.tsv, plainto_tsquery('french', query)) AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.tsv @@ plainto_tsquery('french', query)
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY rank DESC
+    LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION match_cdc_chunks(
+    query_embedding vector(768),
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        (1 - (c.embedding <=> query_embedding))::real AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.embedding IS NOT NULL
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
@@ -0,0 +1,22 @@
+-- CDC Agent: asynchronous document ingestion. An upload stores the file in the private cdc-documents
+-- bucket and inserts the document as 'uploaded'; a worker then moves it through extracting → chunking
+-- → indexing → ready (or failed, with the error). progress is a percentage for the UI.
+-- Documents ingested before this migration are ready.
+
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ready'
+    CHECK (status IN ('uploaded', 'extracting', 'chunking', 'indexing', 'ready', 'failed'));
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS progress INTEGER NOT NULL DEFAULT 100 CHECK (progress BETWEEN 0 AND 100);
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS error TEXT;
+-- Path of the uploaded file in the cdc-documents bucket
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS storage_path TEXT;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+-- Heartbeat of the running ingestion, to detect abandoned ones
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_pending ON cdc_documents(status, uploaded_at)
+    WHERE status NOT IN ('ready', 'failed');
+
+-- Private bucket: only the server (service role) reads and writes it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('cdc-documents', 'cdc-documents', false)
+ON CONFLICT (id) DO NOTHING;
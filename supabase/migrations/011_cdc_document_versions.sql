@@ -0,0 +1,108 @@
+-- CDC Agent: document versions. content_hash (SHA-256 of the uploaded file) detects exact duplicates
+-- within a collection; a new version of a document shares its version_group_id with a higher version
+-- number. Once a version is ready, the older ones get superseded_at and leave the default search; a
+-- superseded version is still searched when picked explicitly (filter_document_ids).
+
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS version_group_id UUID;
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1);
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+
+-- Existing documents each start their own history
+UPDATE cdc_documents SET version_group_id = id WHERE version_group_id IS NULL;
+ALTER TABLE cdc_documents ALTER COLUMN version_group_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_version_group ON cdc_documents(version_group_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_cdc_documents_current ON cdc_documents(collection_id) WHERE superseded_at IS NULL;
+-- A file is stored once per collection (failed uploads may be retried)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cdc_documents_content_hash ON cdc_documents(collection_id, content_hash)
+    WHERE content_hash IS NOT NULL AND status <> 'failed';
+
+-- Search RPCs: superseded versions only when listed in filter_document_ids
+CREATE OR REPLACE FUNCTION search_cdc_chunks(
+    query text,
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        ts_rank(c.tsv, plainto_tsquery('french', query)) AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.tsv @@ plainto_tsquery('french', query)
+      AND (d.superseded_at IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY rank DESC
+    LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION match_cdc_chunks(
+    query_embedding vector(768),
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        (1 - (c.embedding <=> query_embedding))::real AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.embedding IS NOT NULL
+      AND (d.superseded_at IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
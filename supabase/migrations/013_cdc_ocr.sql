@@ -0,0 +1,115 @@
+-- CDC Agent: OCR of scanned documents. Chunks read by OCR record the lowest OCR confidence (0-1) of
+-- their pages, so answers can flag extracts that may be misread; documents record how many pages were
+-- OCR'd. NULL = text layer (or ingested before this migration).
+
+ALTER TABLE cdc_chunks ADD COLUMN IF NOT EXISTS ocr_confidence REAL
+    CHECK (ocr_confidence IS NULL OR ocr_confidence BETWEEN 0 AND 1);
+ALTER TABLE cdc_documents ADD COLUMN IF NOT EXISTS ocr_page_count INTEGER NOT NULL DEFAULT 0;
+
+-- Search RPCs: return the OCR confidence (the result type changes, so drop them first)
+DROP FUNCTION IF EXISTS search_cdc_chunks(text, int, uuid[], text[], text[], text[], int, int, uuid[]);
+DROP FUNCTION IF EXISTS match_cdc_chunks(vector(768), int, uuid[], text[], text[], text[], int, int, uuid[]);
+
+CREATE OR REPLACE FUNCTION search_cdc_chunks(
+    query text,
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    page_start int,
+    page_end int,
+    heading_path text[],
+    ocr_confidence real,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        c.page_start,
+        c.page_end,
+        c.heading_path,
+        c.ocr_confidence,
+        ts_rank(c.tsv, plainto_tsquery('french', query)) AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.tsv @@ plainto_tsquery('french', query)
+      AND (d.superseded_at IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY rank DESC
+    LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION match_cdc_chunks(
+    query_embedding vector(768),
+    match_count int DEFAULT 8,
+    filter_document_ids uuid[] DEFAULT NULL,
+    filter_tags text[] DEFAULT NULL,
+    filter_categories text[] DEFAULT NULL,
+    filter_authors text[] DEFAULT NULL,
+    filter_year_from int DEFAULT NULL,
+    filter_year_to int DEFAULT NULL,
+    filter_collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+    id uuid,
+    document_id uuid,
+    document_name text,
+    content text,
+    chunk_index int,
+    page_start int,
+    page_end int,
+    heading_path text[],
+    ocr_confidence real,
+    rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.document_name,
+        c.content,
+        c.chunk_index,
+        c.page_start,
+        c.page_end,
+        c.heading_path,
+        c.ocr_confidence,
+        (1 - (c.embedding <=> query_embedding))::real AS rank
+    FROM cdc_chunks c
+    JOIN cdc_documents d ON d.id = c.document_id
+    WHERE c.embedding IS NOT NULL
+      AND (d.superseded_at IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_collection_ids IS NULL OR d.collection_id = ANY(filter_collection_ids))
+      AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+      AND (filter_tags IS NULL OR d.tags && filter_tags)
+      AND (filter_categories IS NULL OR d.category = ANY(filter_categories))
+      AND (filter_authors IS NULL OR d.author = ANY(filter_authors))
+      AND (filter_year_from IS NULL OR d.year >= filter_year_from)
+      AND (filter_year_to IS NULL OR d.year <= filter_year_to)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
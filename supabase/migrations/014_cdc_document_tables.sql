@@ -0,0 +1,35 @@
+-- CDC Agent: typed tables of tabular documents (CSV, XLSX, ODS). Each table of the file is stored with
+-- its schema (column names and types, values of short text columns) and its rows, so questions like
+-- "total des encours par région en 2023" are computed (lib/tableQuery) rather than read from chunks.
+-- Answers keep the computed tables and the operation performed.
+
+CREATE TABLE IF NOT EXISTS cdc_document_tables (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES cdc_documents(id) ON DELETE CASCADE,
+    document_name TEXT NOT NULL,
+    table_index INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    -- [{"name": "Montant", "type": "number"}, {"name": "Région", "type": "text", "values": [...]}]
+    columns JSONB NOT NULL,
+    -- Cells by row: numbers, ISO dates, booleans, text or null
+    rows JSONB NOT NULL,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (document_id, table_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cdc_document_tables_document_id ON cdc_document_tables(document_id);
+
+-- Same rights as the document's chunks (see 009)
+ALTER TABLE cdc_document_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers read document tables" ON cdc_document_tables;
+CREATE POLICY "Viewers read document tables" ON cdc_document_tables FOR SELECT USING (
+    cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'viewer')
+);
+DROP POLICY IF EXISTS "Editors manage document tables" ON cdc_document_tables;
+CREATE POLICY "Editors manage document tables" ON cdc_document_tables FOR ALL
+    USING (cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'editor'))
+    WITH CHECK (cdc_has_collection_role((SELECT d.collection_id FROM cdc_documents d WHERE d.id = document_id), 'editor'));
+
+-- Computed tables shown with an answer
+ALTER TABLE cdc_agent_messages ADD COLUMN IF NOT EXISTS table_results JSONB;
@@ -0,0 +1,36 @@
+-- CDC Agent: access to the shared collection "Base commune" (migration 009).
+-- Every signed-in user can read it; a membership can grant more. The anonymous user, shared by every
+-- caller without a token, is only a viewer: its admin row from 009 is downgraded, and the API routes
+-- cap its role and reject its writes (lib/collections.ts, lib/requestAuth.ts). The collection keeps the
+-- anonymous user as nominal owner; grant admin to a real user with a cdc_collection_members row.
+
+UPDATE cdc_collection_members
+SET role = 'viewer'
+WHERE collection_id = '00000000-0000-0000-0000-00000000c0c0'
+  AND user_id = '00000000-0000-0000-0000-000000000000';
+
+-- Role of a user in a collection: owner = admin, else their membership, else viewer of the shared
+-- collection; the anonymous user is capped at viewer. NULL without access.
+CREATE OR REPLACE FUNCTION cdc_collection_role(p_collection_id uuid, p_user_id text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN base.role IS NOT NULL AND p_user_id = '00000000-0000-0000-0000-000000000000' THEN 'viewer'
+        ELSE base.role
+    END
+    FROM (
+        SELECT CASE
+            WHEN p_user_id IS NULL THEN NULL
+            WHEN EXISTS (SELECT 1 FROM cdc_collections WHERE id = p_collection_id AND owner_id = p_user_id) THEN 'admin'
+            ELSE COALESCE(
+                (SELECT role FROM cdc_collection_members WHERE collection_id = p_collection_id AND user_id = p_user_id),
+                CASE WHEN p_collection_id = '00000000-0000-0000-0000-00000000c0c0'
+                    AND EXISTS (SELECT 1 FROM cdc_collections WHERE id = p_collection_id) THEN 'viewer' END
+            )
+        END AS role
+    ) AS base;
+$$;
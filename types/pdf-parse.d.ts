@@ -8,6 +8,13 @@ declare module 'pdf-parse/lib/pdf-parse.js' {
     version: string
   }
 
-  function pdfParse(buffer: Buffer): Promise<PDFData>
+  interface PDFOptions {
+    /** Renders one page (pdf.js page proxy) to text; called for each page in order */
+    pagerender?: (pageData: any) => string | Promise<string>
+    max?: number
+    version?: string
+  }
+
+  function pdfParse(buffer: Buffer, options?: PDFOptions): Promise<PDFData>
   export default pdfParse
 }
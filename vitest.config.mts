@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'url'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+  },
+})